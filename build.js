@@ -1,10 +1,21 @@
 const esbuild = require('esbuild');
 
-esbuild.build({
-  entryPoints: ['./src/index.ts'],
+const shared = {
   bundle: true,
   platform: 'node',
   outdir: 'dist',
-  banner: { js: '#!/usr/bin/env node' },
   external: ['chalk', 'typescript'],
-}).catch(() => process.exit(1));
+};
+
+Promise.all([
+  // Programmatic API (package "main")
+  esbuild.build({ ...shared, entryPoints: ['./src/index.ts'] }),
+  // Command-line entry point (package "bin")
+  esbuild.build({
+    ...shared,
+    entryPoints: ['./src/cli.ts'],
+    banner: { js: '#!/usr/bin/env node' },
+  }),
+  // Child process of the module backend, loaded from next to cli.js / index.js
+  esbuild.build({ ...shared, entryPoints: ['./src/cypressModuleWorker.ts'] }),
+]).catch(() => process.exit(1));
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import process from 'process';
+import { INTERRUPTED_EXIT_CODE, runParallel } from './runners/parallelRunner';
+import { renderPlan } from './runners/planner';
+import { mergeTimingsFiles } from './runners/timingsMerger';
+import { formatHelp, parseCliArgs } from './utils/cliUtils';
+import { log } from './utils/logging';
+import { killAllProcessTrees } from './utils/processUtils';
+
+/**
+ * Reads the package version from the package.json next to the build output.
+ * @returns {string} - The cy-parallel version.
+ */
+function getVersion(): string {
+  const packageJson = path.join(__dirname, '..', 'package.json');
+  return JSON.parse(fs.readFileSync(packageJson, 'utf8')).version;
+}
+
+/**
+ * Exits after giving pending logs some time to flush.
+ * @param {number} code - The exit code.
+ */
+function exit(code: number): void {
+  setTimeout(() => process.exit(code), 100);
+}
+
+/**
+ * Interrupts the run on the first SIGINT or SIGTERM: the signal is forwarded to the
+ * Cypress processes, and the partial results are reported once they have stopped.
+ * A second signal kills every child process and exits immediately.
+ * @param {AbortController} controller - Aborted with the name of the received signal.
+ */
+function handleSignals(controller: AbortController): void {
+  const signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+  signals.forEach((signal) =>
+    process.on(signal, () => {
+      if (controller.signal.aborted) {
+        console.error(`Received ${signal} again, killing all processes.`);
+        killAllProcessTrees('SIGKILL');
+        process.exit(INTERRUPTED_EXIT_CODE);
+      }
+      console.error(
+        `Received ${signal}, stopping the run. Send it again to force an exit.`
+      );
+      controller.abort(signal);
+    })
+  );
+}
+
+/**
+ * Command-line entry point: parses arguments and runs the requested command.
+ */
+async function main(): Promise<void> {
+  let args;
+  try {
+    args = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(
+      `${(error as Error).message}\nRun 'cy-parallel --help' for usage.`
+    );
+    return exit(1);
+  }
+
+  if (args.help) {
+    console.log(formatHelp());
+    return exit(0);
+  }
+  if (args.version) {
+    console.log(getVersion());
+    return exit(0);
+  }
+
+  try {
+    if (args.command === 'plan') {
+      console.log(renderPlan(args.options));
+      return exit(0);
+    }
+    if (args.command === 'merge-timings') {
+      mergeTimingsFiles(args.files, args.options);
+      return exit(0);
+    }
+
+    const controller = new AbortController();
+    handleSignals(controller);
+    const summary = await runParallel(args.options, {
+      signal: controller.signal,
+    });
+    exit(summary.exitCode);
+  } catch (error) {
+    // Printed unconditionally: VERBOSE must not hide why the run failed
+    console.error(`cy-parallel ${args.command} failed: ${error}`);
+    exit(1);
+  }
+}
+
+// Execute the script
+main();
+
+// Never leave Cypress, its browsers or Xvfb running after cy-parallel is gone
+process.on('exit', () => killAllProcessTrees('SIGKILL'));
+
+// Handle Unhandled Rejections
+process.on('unhandledRejection', (reason) => {
+  log(`Unhandled Rejection: ${reason}`, { type: 'error' });
+  exit(1);
+});
@@ -0,0 +1,14 @@
+// Child process of the module backend: runs Cypress through its Module API
+// and sends the structured results to cy-parallel over IPC.
+import { ModuleRunMessage, runCypressModule } from './utils/cypressModuleUtils';
+
+const send = (message: ModuleRunMessage) =>
+  new Promise<void>((resolve) => {
+    if (!process.send) {
+      resolve();
+      return;
+    }
+    process.send(message, () => resolve());
+  });
+
+runCypressModule(send).then((code) => process.exit(code));
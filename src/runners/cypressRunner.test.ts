@@ -1,18 +1,18 @@
 import { runCypress, CypressResult } from './cypressRunner';
 import { spawn, ChildProcess } from 'child_process';
-import { startXvfb } from '../utils/xvfb';
 import { log } from '../utils/logging';
 import { getConfig } from '../utils/envUtils';
 import { EventEmitter } from 'events';
+import { USE_PROCESS_GROUPS } from '../utils/processUtils';
+import {
+  MODULE_OPTIONS_ENV,
+  MODULE_WORKER_PATH,
+} from '../utils/cypressModuleUtils';
 
 jest.mock('child_process', () => ({
   spawn: jest.fn(),
 }));
 
-jest.mock('../utils/xvfb', () => ({
-  startXvfb: jest.fn(),
-}));
-
 jest.mock('../utils/logging', () => ({
   log: jest.fn(),
 }));
@@ -23,7 +23,6 @@ jest.mock('../utils/envUtils', () => ({
 
 describe('runCypress', () => {
   const mockSpawn = spawn as jest.Mock;
-  const mockStartXvfb = startXvfb as jest.Mock;
   const mockLog = log as jest.Mock;
   const mockGetConfig = getConfig as jest.Mock;
 
@@ -63,8 +62,6 @@ describe('runCypress', () => {
       IS_LINUX: true,
     });
 
-    mockStartXvfb.mockResolvedValue(undefined);
-
     const mockChildProcess = createMockChildProcess(0);
     mockSpawn.mockReturnValue(mockChildProcess);
 
@@ -76,7 +73,6 @@ describe('runCypress', () => {
     );
 
     expect(mockGetConfig).toHaveBeenCalledTimes(1);
-    expect(mockStartXvfb).toHaveBeenCalledWith(display);
     expect(mockSpawn).toHaveBeenCalledWith(
       `${command} --spec "${tests.join(',')}"`,
       {
@@ -85,7 +81,8 @@ describe('runCypress', () => {
           ...process.env,
           DISPLAY: `:${display}`,
         },
-        stdio: 'ignore',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: USE_PROCESS_GROUPS,
       }
     );
 
@@ -123,8 +120,6 @@ describe('runCypress', () => {
       IS_LINUX: true,
     });
 
-    mockStartXvfb.mockResolvedValue(undefined);
-
     const mockChildProcess = createMockChildProcess(1);
     mockSpawn.mockReturnValue(mockChildProcess);
 
@@ -136,7 +131,6 @@ describe('runCypress', () => {
     );
 
     expect(mockGetConfig).toHaveBeenCalledTimes(1);
-    expect(mockStartXvfb).toHaveBeenCalledWith(display);
     expect(mockSpawn).toHaveBeenCalledWith(
       `${command} --spec "${tests.join(',')}"`,
       {
@@ -145,7 +139,8 @@ describe('runCypress', () => {
           ...process.env,
           DISPLAY: `:${display}`,
         },
-        stdio: 'inherit',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: USE_PROCESS_GROUPS,
       }
     );
 
@@ -185,8 +180,6 @@ describe('runCypress', () => {
       IS_LINUX: true,
     });
 
-    mockStartXvfb.mockResolvedValue(undefined);
-
     const mockChildProcess = createMockChildProcess(undefined, spawnError);
     mockSpawn.mockReturnValue(mockChildProcess);
 
@@ -198,7 +191,6 @@ describe('runCypress', () => {
     );
 
     expect(mockGetConfig).toHaveBeenCalledTimes(1);
-    expect(mockStartXvfb).toHaveBeenCalledWith(display);
     expect(mockSpawn).toHaveBeenCalledWith(
       `${command} --spec "${tests.join(',')}"`,
       {
@@ -207,7 +199,8 @@ describe('runCypress', () => {
           ...process.env,
           DISPLAY: `:${display}`,
         },
-        stdio: 'ignore',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: USE_PROCESS_GROUPS,
       }
     );
 
@@ -233,7 +226,7 @@ describe('runCypress', () => {
     });
   });
 
-  test('should start Xvfb only on Linux environments', async () => {
+  test('should set DISPLAY only on Linux environments', async () => {
     const tests = ['test4.spec.js'];
     const index = 3;
     const display = 102;
@@ -255,7 +248,6 @@ describe('runCypress', () => {
     );
 
     expect(mockGetConfig).toHaveBeenCalledTimes(1);
-    expect(mockStartXvfb).not.toHaveBeenCalled();
 
     expect(mockSpawn).toHaveBeenCalledWith(
       `${command} --spec "${tests.join(',')}"`,
@@ -264,7 +256,8 @@ describe('runCypress', () => {
         env: {
           ...process.env,
         },
-        stdio: 'ignore',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: USE_PROCESS_GROUPS,
       }
     );
 
@@ -291,7 +284,7 @@ describe('runCypress', () => {
     });
   });
 
-  test('should handle CYPRESS_LOG being true by setting stdio to inherit', async () => {
+  test('should pipe the output when CYPRESS_LOG is true', async () => {
     const tests = ['test5.spec.js'];
     const index = 4;
     const display = 103;
@@ -302,8 +295,6 @@ describe('runCypress', () => {
       IS_LINUX: true,
     });
 
-    mockStartXvfb.mockResolvedValue(undefined);
-
     const mockChildProcess = createMockChildProcess(0);
     mockSpawn.mockReturnValue(mockChildProcess);
 
@@ -315,7 +306,6 @@ describe('runCypress', () => {
     );
 
     expect(mockGetConfig).toHaveBeenCalledTimes(1);
-    expect(mockStartXvfb).toHaveBeenCalledWith(display);
     expect(mockSpawn).toHaveBeenCalledWith(
       `${command} --spec "${tests.join(',')}"`,
       {
@@ -324,7 +314,8 @@ describe('runCypress', () => {
           ...process.env,
           DISPLAY: `:${display}`,
         },
-        stdio: 'inherit',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: USE_PROCESS_GROUPS,
       }
     );
 
@@ -334,4 +325,266 @@ describe('runCypress', () => {
       code: 0,
     });
   });
+
+  test('should not start Cypress when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await runCypress(['test6.spec.js'], 5, 104, 'cypress run', {
+      signal: controller.signal,
+    });
+
+    expect(mockSpawn).not.toHaveBeenCalled();
+    expect(result).toEqual({ status: 'rejected', index: 5 });
+  });
+
+  test('should kill the Cypress process group when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const killSpy = jest.spyOn(process, 'kill').mockImplementation(() => true);
+
+    mockGetConfig.mockReturnValue({
+      CYPRESS_LOG: false,
+      IS_LINUX: false,
+    });
+
+    const emitter = new EventEmitter() as ChildProcess;
+    Object.defineProperty(emitter, 'pid', { value: 4321 });
+    emitter.kill = jest.fn();
+    mockSpawn.mockReturnValue(emitter);
+
+    const resultPromise = runCypress(['test7.spec.js'], 6, 105, 'cypress run', {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    controller.abort();
+    emitter.emit('close', null);
+    const result = await resultPromise;
+
+    if (USE_PROCESS_GROUPS) {
+      expect(killSpy).toHaveBeenCalledWith(-4321, 'SIGTERM');
+    } else {
+      expect(emitter.kill).toHaveBeenCalledWith('SIGTERM');
+    }
+    expect(mockLog).toHaveBeenCalledWith('Stopping Cypress for worker 7.', {
+      type: 'warn',
+      workerId: 7,
+    });
+    expect(result).toEqual({ status: 'rejected', index: 6, code: null });
+    killSpy.mockRestore();
+  });
+
+  test('should forward the signal name given as the abort reason', async () => {
+    const controller = new AbortController();
+    const killSpy = jest.spyOn(process, 'kill').mockImplementation(() => true);
+
+    mockGetConfig.mockReturnValue({
+      CYPRESS_LOG: false,
+      IS_LINUX: false,
+    });
+
+    const emitter = new EventEmitter() as ChildProcess;
+    Object.defineProperty(emitter, 'pid', { value: 4321 });
+    emitter.kill = jest.fn();
+    mockSpawn.mockReturnValue(emitter);
+
+    const resultPromise = runCypress(['test8.spec.js'], 7, 106, 'cypress run', {
+      signal: controller.signal,
+    });
+    controller.abort('SIGINT');
+    emitter.emit('close', 130);
+    await resultPromise;
+
+    if (USE_PROCESS_GROUPS) {
+      expect(killSpy).toHaveBeenCalledWith(-4321, 'SIGINT');
+    } else {
+      expect(emitter.kill).toHaveBeenCalledWith('SIGINT');
+    }
+    killSpy.mockRestore();
+  });
+
+  describe('timeouts', () => {
+    let killSpy: jest.SpyInstance;
+
+    // A process that never exits on its own, and closes once killed
+    const createHangingProcess = (): ChildProcess => {
+      const emitter = new EventEmitter() as ChildProcess;
+      Object.defineProperty(emitter, 'pid', { value: 1234 });
+      emitter.stdout = new EventEmitter() as ChildProcess['stdout'];
+      emitter.stderr = new EventEmitter() as ChildProcess['stderr'];
+      emitter.kill = jest.fn(() => {
+        process.nextTick(() => emitter.emit('close', null));
+        return true;
+      });
+      return emitter;
+    };
+
+    beforeEach(() => {
+      mockGetConfig.mockReturnValue({
+        CYPRESS_LOG: false,
+        IS_LINUX: false,
+      });
+    });
+
+    afterEach(() => {
+      killSpy?.mockRestore();
+    });
+
+    const mockKill = (child: ChildProcess) => {
+      killSpy = jest.spyOn(process, 'kill').mockImplementation(() => {
+        child.kill();
+        return true;
+      });
+    };
+
+    test('should kill a spec that exceeds its timeout and report it as timed out', async () => {
+      const child = createHangingProcess();
+      mockKill(child);
+      mockSpawn.mockReturnValue(child);
+
+      const result = await runCypress(['slow.cy.js'], 0, 99, 'cypress run', {
+        timeout: 20,
+      });
+
+      expect(result).toEqual({
+        status: 'rejected',
+        index: 0,
+        code: null,
+        timedOut: true,
+      });
+      expect(mockLog).toHaveBeenCalledWith(
+        'Cypress timed out: no result after 0s. Killing the process.',
+        { type: 'error', workerId: 1 }
+      );
+    });
+
+    test('should pipe the output and kill a spec that stops producing output', async () => {
+      const child = createHangingProcess();
+      mockKill(child);
+      mockSpawn.mockReturnValue(child);
+
+      const resultPromise = runCypress(['hang.cy.js'], 0, 99, 'cypress run', {
+        idleTimeout: 40,
+      });
+      // Output resets the watchdog
+      for (let i = 0; i < 3; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        child.stdout?.emit('data', Buffer.from('still running'));
+      }
+      expect(child.kill).not.toHaveBeenCalled();
+
+      const result = await resultPromise;
+      expect(result.timedOut).toBe(true);
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'cypress run --spec "hang.cy.js"',
+        expect.objectContaining({ stdio: ['ignore', 'pipe', 'pipe'] })
+      );
+    });
+
+    test('should not time out a spec that finishes in time', async () => {
+      mockSpawn.mockReturnValue(createMockChildProcess(0));
+
+      const result = await runCypress(['fast.cy.js'], 0, 99, 'cypress run', {
+        timeout: 1000,
+        idleTimeout: 1000,
+      });
+
+      expect(result).toEqual({ status: 'fulfilled', index: 0, code: 0 });
+    });
+  });
+
+  test('should pass the piped output to onOutput', async () => {
+    mockGetConfig.mockReturnValue({ CYPRESS_LOG: true, IS_LINUX: false });
+    const child = new EventEmitter() as ChildProcess;
+    child.stdout = new EventEmitter() as ChildProcess['stdout'];
+    child.stderr = new EventEmitter() as ChildProcess['stderr'];
+    mockSpawn.mockReturnValue(child);
+    const onOutput = jest.fn();
+
+    const resultPromise = runCypress(['out.cy.js'], 0, 99, 'cypress run', {
+      onOutput,
+    });
+    child.stdout?.emit('data', Buffer.from('Running: out.cy.js\n'));
+    child.stderr?.emit('data', Buffer.from('Warning\n'));
+    child.emit('close', 0);
+    await resultPromise;
+
+    expect(onOutput).toHaveBeenCalledWith(
+      'stdout',
+      Buffer.from('Running: out.cy.js\n')
+    );
+    expect(onOutput).toHaveBeenCalledWith('stderr', Buffer.from('Warning\n'));
+  });
+
+  describe('module backend', () => {
+    const run = {
+      spec: 'a.cy.ts',
+      tests: 1,
+      passes: 0,
+      failures: 1,
+      pending: 0,
+      skipped: 0,
+      duration: 900,
+      testResults: [
+        { title: ['a', 'fails'], state: 'failed', duration: 900, error: 'x' },
+      ],
+      screenshots: [],
+    };
+
+    test('should run cypress.run() in a child process and return its results', async () => {
+      mockGetConfig.mockReturnValue({ CYPRESS_LOG: true, IS_LINUX: false });
+      const child = new EventEmitter() as ChildProcess;
+      mockSpawn.mockReturnValue(child);
+
+      const resultPromise = runCypress(['a.cy.ts'], 0, 99, 'ignored', {
+        backend: 'module',
+        moduleOptions: { browser: 'chrome' },
+      });
+      child.emit('message', { runs: [run], totalFailed: 1 });
+      child.emit('close', 1);
+      const result = await resultPromise;
+
+      expect(mockSpawn).toHaveBeenCalledWith(
+        process.execPath,
+        [MODULE_WORKER_PATH],
+        expect.objectContaining({
+          stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+          detached: USE_PROCESS_GROUPS,
+        })
+      );
+      const { env } = mockSpawn.mock.calls[0][2];
+      expect(JSON.parse(env[MODULE_OPTIONS_ENV])).toEqual({
+        browser: 'chrome',
+        spec: 'a.cy.ts',
+      });
+      expect(result).toEqual({
+        status: 'rejected',
+        index: 0,
+        code: 1,
+        runs: [run],
+        failedTests: 1,
+      });
+      expect(mockLog).toHaveBeenCalledWith(
+        'Cypress process failed with exit code 1 (1 failed test(s)).',
+        { type: 'error', workerId: 1 }
+      );
+    });
+
+    test('should log why Cypress could not run', async () => {
+      mockGetConfig.mockReturnValue({ CYPRESS_LOG: true, IS_LINUX: false });
+      const child = new EventEmitter() as ChildProcess;
+      mockSpawn.mockReturnValue(child);
+
+      const resultPromise = runCypress(['a.cy.ts'], 2, 99, 'ignored', {
+        backend: 'module',
+      });
+      child.emit('message', { runs: [], error: 'Cypress is not installed' });
+      child.emit('close', 1);
+      await resultPromise;
+
+      expect(mockLog).toHaveBeenCalledWith(
+        'Cypress could not run: Cypress is not installed',
+        { type: 'error', workerId: 3 }
+      );
+    });
+  });
 });
@@ -1,38 +1,97 @@
 import { spawn, ChildProcess } from 'child_process';
-import { startXvfb } from '../utils/xvfb';
 import { log } from '../utils/logging';
 import { getConfig } from '../utils/envUtils';
+import {
+  killProcessTree,
+  trackChildProcess,
+  USE_PROCESS_GROUPS,
+} from '../utils/processUtils';
+import {
+  MODULE_OPTIONS_ENV,
+  MODULE_WORKER_PATH,
+  ModuleRunMessage,
+} from '../utils/cypressModuleUtils';
+import { CypressBackend, CypressResult, CypressSpecRun } from '../types';
 
-export interface CypressResult {
-  status: 'fulfilled' | 'rejected';
-  index: number;
-  code?: number;
+export type { CypressResult };
+
+export const CYPRESS_BACKENDS: CypressBackend[] = ['command', 'module'];
+
+// Time a Cypress process gets to exit after SIGTERM before it is killed
+const KILL_GRACE_PERIOD = 5000;
+
+export interface RunCypressOptions {
+  // Aborting kills the Cypress process and everything it spawned. A signal name
+  // as the abort reason (e.g. 'SIGINT') is forwarded instead of SIGTERM.
+  signal?: AbortSignal;
+  // Milliseconds the process may run before it is killed as timed out; 0 disables
+  timeout?: number;
+  // Milliseconds without output before the process is killed as timed out; 0 disables
+  idleTimeout?: number;
+  // Receives the piped stdout and stderr of the Cypress process
+  onOutput?: (stream: 'stdout' | 'stderr', data: Buffer) => void;
+  // 'command' runs the shell command, 'module' runs cypress.run() in a child
+  // process and reports per-spec results; command is ignored then
+  backend?: CypressBackend;
+  // Options for cypress.run() with the module backend; spec is set from tests
+  moduleOptions?: Record<string, unknown>;
+  // Extra environment variables for the Cypress process, e.g. CYPRESS_grepTags
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Checks the BACKEND setting.
+ * @param {string} backend - The BACKEND value.
+ * @returns {CypressBackend} - The backend.
+ */
+export function parseBackend(backend: string): CypressBackend {
+  if (!CYPRESS_BACKENDS.includes(backend as CypressBackend)) {
+    throw new Error(
+      `Invalid BACKEND "${backend}": use one of ${CYPRESS_BACKENDS.join(', ')}.`
+    );
+  }
+  return backend as CypressBackend;
 }
 
 /**
  * Runs Cypress for a set of test files.
  * @param {string[]} tests - Array of test file paths.
  * @param {number} index - Index of the parallel process.
- * @param {number} display - Display number for Xvfb.
- * @param {string} command - The Cypress command to execute.
+ * @param {number} display - Display number of the worker's Xvfb server.
+ * @param {string} command - The Cypress command to execute, with the command backend.
+ * @param {RunCypressOptions} [options] - Abort signal, timeouts and backend.
  * @returns {Promise<CypressResult>}
  */
 export async function runCypress(
   tests: string[],
   index: number,
   display: number,
-  command: string
+  command: string,
+  options: RunCypressOptions = {}
 ): Promise<CypressResult> {
-  try {
-    const { CYPRESS_LOG, IS_LINUX } = getConfig();
+  const {
+    signal,
+    timeout = 0,
+    idleTimeout = 0,
+    onOutput,
+    backend = 'command',
+    moduleOptions = {},
+    env: extraEnv = {},
+  } = options;
+  const timers: NodeJS.Timeout[] = [];
+  let idleTimer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
 
-    // Start Xvfb only on Linux
-    if (IS_LINUX) {
-      await startXvfb(display);
-    }
+  if (signal?.aborted) {
+    return { status: 'rejected', index };
+  }
+
+  try {
+    const { IS_LINUX } = getConfig();
 
     const env: NodeJS.ProcessEnv = {
       ...process.env,
+      ...extraEnv,
       ...(IS_LINUX ? { DISPLAY: `:${display}` } : {}),
     };
 
@@ -45,11 +104,108 @@ export async function runCypress(
       }
     );
 
-    const cypressCommand: string = `${command} --spec "${testList}"`;
-    const cypressProcess: ChildProcess = spawn(cypressCommand, {
-      shell: true,
-      env: env,
-      stdio: CYPRESS_LOG ? 'inherit' : 'ignore',
+    // Own process group, so the whole tree can be killed on abort
+    const cypressProcess: ChildProcess = trackChildProcess(
+      backend === 'module'
+        ? spawn(process.execPath, [MODULE_WORKER_PATH], {
+            env: {
+              ...env,
+              [MODULE_OPTIONS_ENV]: JSON.stringify({
+                ...moduleOptions,
+                spec: testList,
+              }),
+            },
+            // Piped like the command's output, plus a channel for the results
+            stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+            detached: USE_PROCESS_GROUPS,
+          })
+        : spawn(`${command} --spec "${testList}"`, {
+            shell: true,
+            env: env,
+            // Piped, so it can be prefixed, logged to files and watched for inactivity
+            stdio: ['ignore', 'pipe', 'pipe'],
+            detached: USE_PROCESS_GROUPS,
+          })
+    );
+
+    let runs: CypressSpecRun[] | undefined;
+    let failedTests: number | undefined;
+    cypressProcess.on('message', (message: ModuleRunMessage) => {
+      runs = message.runs;
+      failedTests = message.totalFailed;
+      if (message.error) {
+        log(`Cypress could not run: ${message.error}`, {
+          type: 'error',
+          workerId: index + 1,
+        });
+      }
+    });
+
+    let timedOut = false;
+    const stop = (killSignal: NodeJS.Signals = 'SIGTERM') => {
+      killProcessTree(cypressProcess, killSignal);
+      const killTimer = setTimeout(
+        () => killProcessTree(cypressProcess, 'SIGKILL'),
+        KILL_GRACE_PERIOD
+      );
+      killTimer.unref();
+      timers.push(killTimer);
+    };
+    const stopTimedOut = (reason: string) => {
+      if (timedOut) {
+        return;
+      }
+      timedOut = true;
+      log(`Cypress timed out: ${reason}. Killing the process.`, {
+        type: 'error',
+        workerId: index + 1,
+      });
+      stop();
+    };
+
+    onAbort = () => {
+      log(`Stopping Cypress for worker ${index + 1}.`, {
+        type: 'warn',
+        workerId: index + 1,
+      });
+      const reason = signal?.reason;
+      stop(
+        typeof reason === 'string' && reason.startsWith('SIG')
+          ? (reason as NodeJS.Signals)
+          : 'SIGTERM'
+      );
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    if (timeout > 0) {
+      timers.push(
+        setTimeout(
+          () => stopTimedOut(`no result after ${Math.round(timeout / 1000)}s`),
+          timeout
+        )
+      );
+    }
+    const resetIdleTimer = () => {
+      if (idleTimeout <= 0) {
+        return;
+      }
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(
+        () =>
+          stopTimedOut(
+            `no output for ${Math.round(idleTimeout / 1000)}s, the spec seems to hang`
+          ),
+        idleTimeout
+      );
+    };
+    resetIdleTimer();
+    cypressProcess.stdout?.on('data', (data: Buffer) => {
+      resetIdleTimer();
+      onOutput?.('stdout', data);
+    });
+    cypressProcess.stderr?.on('data', (data: Buffer) => {
+      resetIdleTimer();
+      onOutput?.('stderr', data);
     });
 
     // Handle Cypress process completion
@@ -63,18 +219,29 @@ export async function runCypress(
       });
     });
 
-    if (exitCode !== 0) {
-      log(`Cypress process failed with exit code ${exitCode}.`, {
+    const withRuns = {
+      ...(runs ? { runs } : {}),
+      ...(failedTests !== undefined ? { failedTests } : {}),
+    };
+    if (timedOut) {
+      return { status: 'rejected', index, code: exitCode, timedOut };
+    } else if (exitCode !== 0 && signal?.aborted) {
+      log(`Cypress process stopped.`, { type: 'warn', workerId: index + 1 });
+      return { status: 'rejected', index, code: exitCode };
+    } else if (exitCode !== 0) {
+      const failures =
+        failedTests !== undefined ? ` (${failedTests} failed test(s))` : '';
+      log(`Cypress process failed with exit code ${exitCode}${failures}.`, {
         type: 'error',
         workerId: index + 1,
       });
-      return { status: 'rejected', index, code: exitCode };
+      return { status: 'rejected', index, code: exitCode, ...withRuns };
     } else {
       log(`Cypress process completed successfully.`, {
         type: 'success',
         workerId: index + 1,
       });
-      return { status: 'fulfilled', index, code: exitCode };
+      return { status: 'fulfilled', index, code: exitCode, ...withRuns };
     }
   } catch (error) {
     log(
@@ -85,5 +252,11 @@ export async function runCypress(
       }
     );
     return { status: 'rejected', index };
+  } finally {
+    timers.forEach((timer) => clearTimeout(timer));
+    clearTimeout(idleTimer);
+    if (onAbort) {
+      signal?.removeEventListener('abort', onAbort);
+    }
   }
 }
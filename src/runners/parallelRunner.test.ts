@@ -0,0 +1,1427 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { INTERRUPTED_EXIT_CODE, runParallel } from './parallelRunner';
+import { runCypress } from './cypressRunner';
+import { validateDir, collectTestFiles } from '../utils/fileUtils';
+import { getConfig } from '../utils/envUtils';
+import { startXvfbServers, stopXvfbServers } from '../utils/xvfb';
+import { selectChangedSpecs } from '../utils/changedUtils';
+import { log, logOutput, printSummary } from '../utils/logging';
+
+jest.mock('./cypressRunner', () => ({
+  ...jest.requireActual('./cypressRunner'),
+  runCypress: jest.fn(),
+}));
+
+jest.mock('../utils/fileUtils', () => ({
+  validateDir: jest.fn(),
+  collectTestFiles: jest.fn(),
+}));
+
+jest.mock('../utils/weightUtils', () => ({
+  getFileInfo: jest.fn((file: string) => ({ file, weight: 1 })),
+}));
+
+jest.mock('../utils/splitUtils', () => ({
+  ...jest.requireActual('../utils/splitUtils'),
+  splitSpecs: jest.fn((files) => files),
+}));
+
+jest.mock('../utils/changedUtils', () => ({
+  ...jest.requireActual('../utils/changedUtils'),
+  getHeadCommit: jest.fn(() => 'abc123'),
+  selectChangedSpecs: jest.fn((specs: string[]) => specs),
+}));
+
+jest.mock('../utils/hookUtils', () => ({
+  ...jest.requireActual('../utils/hookUtils'),
+  runHook: jest.fn(async () => undefined),
+  startGlobalSetup: jest.fn(async () => undefined),
+  stopHook: jest.fn(async () => undefined),
+}));
+
+jest.mock('../utils/xvfb', () => ({
+  startXvfbServers: jest.fn(),
+  stopXvfbServers: jest.fn(),
+}));
+
+jest.mock('../utils/logging', () => ({
+  log: jest.fn(),
+  logOutput: jest.fn(),
+  printSummary: jest.fn(),
+}));
+
+describe('runParallel', () => {
+  const mockRunCypress = runCypress as jest.Mock;
+  const mockValidateDir = validateDir as jest.Mock;
+  const mockCollectTestFiles = collectTestFiles as jest.Mock;
+  const mockStartXvfbServers = startXvfbServers as jest.Mock;
+  const mockStopXvfbServers = stopXvfbServers as jest.Mock;
+  const ORIGINAL_ENV = process.env;
+
+  const baseOptions = {
+    WORKERS: 2,
+    DIR: 'cypress/e2e',
+    COMMAND: 'cypress run',
+    TIMINGS: false,
+    HISTORY_FILE: '',
+    DASHBOARD: 'off',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...ORIGINAL_ENV };
+    const mockCpus = [{}, {}, {}, {}]; // 4 CPUs
+    jest.spyOn(os, 'cpus').mockReturnValue(mockCpus as unknown as os.CpuInfo[]);
+    mockValidateDir.mockImplementation((dir: string) => `/abs/${dir}`);
+    mockCollectTestFiles.mockReturnValue(['a.cy.ts', 'b.cy.ts', 'c.cy.ts']);
+    mockStartXvfbServers.mockImplementation(async (count: number) =>
+      Array.from({ length: count }, (_, index) => ({
+        display: 200 + index,
+        process: {},
+      }))
+    );
+    mockStopXvfbServers.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  // What Cypress prints as it starts a spec and once it is done
+  const runningLine = (test: string, index: number, total: number) =>
+    `  Running:  ${test}  (${index + 1} of ${total})\n`;
+  const cypressOutput = (
+    test: string,
+    index: number,
+    total: number,
+    failures: number
+  ) =>
+    `${runningLine(test, index, total)}  (Results)\n  │ Failing:      ${failures}  │\n  │ Spec Ran:     ${test}  │\n`;
+
+  // Runs every spec of a process, printing its results; the process fails if any spec does
+  const mockCypressRuns = (getFailures: (test: string) => number) =>
+    mockRunCypress.mockImplementation(
+      async (tests: string[], index, _display, _command, { onOutput }) => {
+        const failures = tests.map((test, i) => {
+          const count = getFailures(test);
+          onOutput?.(
+            'stdout',
+            Buffer.from(cypressOutput(test, i, tests.length, count))
+          );
+          return count;
+        });
+        const failed = failures.reduce((total, count) => total + count, 0);
+        return failed > 0
+          ? { status: 'rejected', index, code: failed }
+          : { status: 'fulfilled', index, code: 0 };
+      }
+    );
+
+  it.each([false, true])(
+    'should run every spec and resolve with a passing summary (POLL=%s)',
+    async (poll) => {
+      mockRunCypress.mockImplementation(async (_tests, index) => ({
+        status: 'fulfilled',
+        index,
+        code: 0,
+      }));
+
+      const summary = await runParallel({ ...baseOptions, POLL: poll });
+
+      expect(mockValidateDir).toHaveBeenCalledWith('cypress/e2e');
+      // One Cypress process per bucket, or per spec when polling
+      expect(mockRunCypress).toHaveBeenCalledTimes(poll ? 3 : 2);
+      expect(summary.status).toBe('passed');
+      expect(summary.exitCode).toBe(0);
+      expect(summary.mode).toBe(poll ? 'polling' : 'weighted');
+      expect(summary.workers).toHaveLength(2);
+      expect(summary.specs.map((spec) => spec.spec).sort()).toEqual([
+        'a.cy.ts',
+        'b.cy.ts',
+        'c.cy.ts',
+      ]);
+      summary.specs.forEach((spec) => expect(spec.status).toBe('passed'));
+    }
+  );
+
+  it('should report failed specs without exiting the process', async () => {
+    const exitSpy = jest.spyOn(process, 'exit');
+    mockRunCypress.mockImplementation(async (tests, index) =>
+      tests[0] === 'b.cy.ts'
+        ? { status: 'rejected', index, code: 2 }
+        : { status: 'fulfilled', index, code: 0 }
+    );
+
+    const summary = await runParallel({ ...baseOptions, POLL: true });
+
+    expect(summary.status).toBe('failed');
+    expect(summary.exitCode).toBe(1);
+    expect(summary.specs.find((spec) => spec.spec === 'b.cy.ts')).toEqual(
+      expect.objectContaining({ status: 'failed', code: 2 })
+    );
+    expect(exitSpy).not.toHaveBeenCalled();
+    exitSpy.mockRestore();
+  });
+
+  it("should run each bucket in one Cypress process and record each spec's result", async () => {
+    mockCypressRuns((test) => (test === 'c.cy.ts' ? 2 : 0));
+
+    const summary = await runParallel({ ...baseOptions, WORKERS: 1 });
+
+    expect(mockRunCypress).toHaveBeenCalledTimes(1);
+    expect(mockRunCypress.mock.calls[0][0].sort()).toEqual([
+      'a.cy.ts',
+      'b.cy.ts',
+      'c.cy.ts',
+    ]);
+    const statuses = Object.fromEntries(
+      summary.specs.map((spec) => [spec.spec, spec.status])
+    );
+    expect(statuses).toEqual({
+      'a.cy.ts': 'passed',
+      'b.cy.ts': 'passed',
+      'c.cy.ts': 'failed',
+    });
+    expect(summary.status).toBe('failed');
+  });
+
+  it('should run the specs a failed process did not get to in a new one', async () => {
+    mockRunCypress.mockImplementationOnce(
+      async (tests: string[], index, _display, _command, { onOutput }) => {
+        // Crashes while running the second spec
+        onOutput(
+          'stdout',
+          Buffer.from(
+            cypressOutput(tests[0], 0, 3, 0) + runningLine(tests[1], 1, 3)
+          )
+        );
+        return { status: 'rejected', index, code: 1 };
+      }
+    );
+    mockCypressRuns(() => 0);
+
+    const summary = await runParallel({ ...baseOptions, WORKERS: 1 });
+
+    const [first, second] = mockRunCypress.mock.calls.map(([tests]) => tests);
+    expect(mockRunCypress).toHaveBeenCalledTimes(2);
+    expect(second).toEqual(first.slice(2));
+    const statuses = Object.fromEntries(
+      summary.specs.map((spec) => [spec.spec, spec.status])
+    );
+    expect(statuses).toEqual({
+      [first[0]]: 'passed',
+      [first[1]]: 'failed',
+      [first[2]]: 'passed',
+    });
+  });
+
+  it('should apply options only for the duration of the run', async () => {
+    process.env.COMMAND = 'env command';
+    mockRunCypress.mockImplementation(async (_tests, index) => ({
+      status: 'fulfilled',
+      index,
+      code: 0,
+    }));
+
+    await runParallel({ ...baseOptions, POLL: true });
+
+    expect(mockRunCypress).toHaveBeenCalledWith(
+      ['a.cy.ts'],
+      expect.any(Number),
+      expect.any(Number),
+      'cypress run',
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    expect(getConfig().COMMAND).toBe('env command');
+  });
+
+  it('should reject a run while another one is in progress', async () => {
+    let finish: () => void = () => {};
+    const started = new Promise<void>((resolve) => {
+      mockRunCypress.mockImplementation(async (_tests, index) => {
+        resolve();
+        await new Promise<void>((done) => (finish = done));
+        return { status: 'fulfilled', index, code: 0 };
+      });
+    });
+
+    const first = runParallel({ ...baseOptions, WORKERS: 1, POLL: true });
+    await started;
+    await expect(
+      runParallel({ ...baseOptions, COMMAND: 'other' })
+    ).rejects.toThrow('runParallel() is already running');
+    finish();
+    mockRunCypress.mockImplementation(async (_tests, index) => ({
+      status: 'fulfilled',
+      index,
+      code: 0,
+    }));
+
+    await expect(first).resolves.toEqual(
+      expect.objectContaining({ status: 'passed' })
+    );
+    expect(mockRunCypress).toHaveBeenCalledWith(
+      expect.any(Array),
+      0,
+      expect.any(Number),
+      'cypress run',
+      expect.any(Object)
+    );
+    await expect(runParallel(baseOptions)).resolves.toEqual(
+      expect.objectContaining({ status: 'passed' })
+    );
+  });
+
+  it('should reject when the test directory is invalid', async () => {
+    mockValidateDir.mockImplementation(() => {
+      throw new Error('Provided DIR is not a directory');
+    });
+
+    await expect(runParallel(baseOptions)).rejects.toThrow(
+      'Provided DIR is not a directory'
+    );
+    expect(mockRunCypress).not.toHaveBeenCalled();
+  });
+
+  describe('without test files', () => {
+    it('should tell when no spec is affected by the changes', async () => {
+      (selectChangedSpecs as jest.Mock).mockReturnValueOnce([]);
+
+      const summary = await runParallel({
+        ...baseOptions,
+        CHANGED_SINCE: 'origin/main',
+      });
+
+      expect(mockRunCypress).not.toHaveBeenCalled();
+      expect(summary.specs).toEqual([]);
+      expect(log).toHaveBeenCalledWith(
+        'No specs are affected by changes since origin/main.',
+        { type: 'warn' }
+      );
+      expect(log).not.toHaveBeenCalledWith(
+        'No test files assigned to this shard.',
+        expect.anything()
+      );
+    });
+
+    it('should tell when the shard is empty', async () => {
+      mockCollectTestFiles.mockReturnValue(['a.cy.ts']);
+
+      await runParallel({ ...baseOptions, SHARD_INDEX: 2, SHARD_TOTAL: 2 });
+
+      expect(mockRunCypress).not.toHaveBeenCalled();
+      expect(log).toHaveBeenCalledWith(
+        'No test files assigned to this shard.',
+        { type: 'warn' }
+      );
+    });
+  });
+
+  describe('retries', () => {
+    const failFirstAttemptOf = (flakyTest: string) => {
+      let failedOnce = false;
+      mockCypressRuns((test) => {
+        if (test === flakyTest && !failedOnce) {
+          failedOnce = true;
+          return 1;
+        }
+        return 0;
+      });
+    };
+
+    it.each([false, true])(
+      'should re-run only the failed spec and mark it flaky (POLL=%s)',
+      async (poll) => {
+        failFirstAttemptOf('b.cy.ts');
+
+        const summary = await runParallel({
+          ...baseOptions,
+          POLL: poll,
+          RETRIES: 2,
+        });
+
+        const runs = mockRunCypress.mock.calls.flatMap(([tests]) => tests);
+        expect(runs.sort()).toEqual([
+          'a.cy.ts',
+          'b.cy.ts',
+          'b.cy.ts',
+          'c.cy.ts',
+        ]);
+        expect(summary.status).toBe('passed');
+        expect(summary.exitCode).toBe(0);
+
+        const flaky = summary.specs.find((spec) => spec.spec === 'b.cy.ts');
+        expect(flaky?.status).toBe('flaky');
+        expect(flaky?.attempts.map((attempt) => attempt.status)).toEqual([
+          'failed',
+          'passed',
+        ]);
+        expect(
+          summary.specs.find((spec) => spec.spec === 'a.cy.ts')?.status
+        ).toBe('passed');
+      }
+    );
+
+    it.each([false, true])(
+      'should fail a spec that fails every attempt (POLL=%s)',
+      async (poll) => {
+        mockCypressRuns((test) => (test === 'c.cy.ts' ? 3 : 0));
+
+        const summary = await runParallel({
+          ...baseOptions,
+          POLL: poll,
+          RETRIES: 2,
+        });
+
+        const failed = summary.specs.find((spec) => spec.spec === 'c.cy.ts');
+        expect(failed?.status).toBe('failed');
+        expect(failed?.attempts).toHaveLength(3);
+        expect(mockRunCypress).toHaveBeenCalledTimes(poll ? 5 : 4);
+        expect(summary.exitCode).toBe(1);
+      }
+    );
+
+    it('should not retry when RETRIES is 0', async () => {
+      failFirstAttemptOf('a.cy.ts');
+
+      const summary = await runParallel({ ...baseOptions, RETRIES: 0 });
+
+      expect(mockRunCypress).toHaveBeenCalledTimes(2);
+      expect(summary.status).toBe('failed');
+    });
+  });
+
+  describe('fail-fast', () => {
+    // Fails the failing specs at once and passes the others after a moment,
+    // unless aborted first, like a killed process
+    const runUntilAborted =
+      (failing: string[]) =>
+      async (
+        tests: string[],
+        index: number,
+        _display: number,
+        _command: string,
+        {
+          signal,
+          onOutput,
+        }: {
+          signal: AbortSignal;
+          onOutput: (stream: string, data: Buffer) => void;
+        }
+      ) => {
+        let failed = false;
+        for (const [i, test] of tests.entries()) {
+          if (failing.includes(test)) {
+            failed = true;
+            onOutput(
+              'stdout',
+              Buffer.from(cypressOutput(test, i, tests.length, 1))
+            );
+            continue;
+          }
+          onOutput('stdout', Buffer.from(runningLine(test, i, tests.length)));
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, 50);
+            signal.addEventListener('abort', () => {
+              clearTimeout(timer);
+              resolve();
+            });
+          });
+          if (signal.aborted) {
+            return { status: 'rejected', index, code: null };
+          }
+          onOutput(
+            'stdout',
+            Buffer.from(cypressOutput(test, i, tests.length, 0))
+          );
+        }
+        return failed
+          ? { status: 'rejected', index, code: 1 }
+          : { status: 'fulfilled', index, code: 0 };
+      };
+
+    beforeEach(() => {
+      mockCollectTestFiles.mockReturnValue([
+        'a.cy.ts',
+        'b.cy.ts',
+        'c.cy.ts',
+        'd.cy.ts',
+        'e.cy.ts',
+      ]);
+    });
+
+    it('should stop dequeuing, cancel running specs and report the specs never run', async () => {
+      mockRunCypress.mockImplementation(runUntilAborted(['b.cy.ts']));
+
+      const summary = await runParallel({
+        ...baseOptions,
+        POLL: true,
+        FAIL_FAST: true,
+      });
+
+      const statuses = Object.fromEntries(
+        summary.specs.map((spec) => [spec.spec, spec.status])
+      );
+      expect(statuses).toEqual({ 'a.cy.ts': 'cancelled', 'b.cy.ts': 'failed' });
+      expect(summary.notRun).toEqual(['c.cy.ts', 'd.cy.ts', 'e.cy.ts']);
+      expect(mockRunCypress).toHaveBeenCalledTimes(2);
+      expect(summary.exitCode).toBe(1);
+    });
+
+    it('should wait for FAIL_FAST_THRESHOLD failed specs', async () => {
+      mockRunCypress.mockImplementation(
+        runUntilAborted(['a.cy.ts', 'b.cy.ts', 'c.cy.ts'])
+      );
+
+      const summary = await runParallel({
+        ...baseOptions,
+        POLL: true,
+        FAIL_FAST: true,
+        FAIL_FAST_THRESHOLD: 3,
+      });
+
+      expect(
+        summary.specs.filter((spec) => spec.status === 'failed')
+      ).toHaveLength(3);
+      expect(summary.specs.map((spec) => spec.status)).toContain('cancelled');
+      expect(summary.notRun).toEqual(['e.cy.ts']);
+    });
+
+    it('should only count specs that failed all their retries (POLL=true)', async () => {
+      mockRunCypress.mockImplementation(runUntilAborted(['a.cy.ts']));
+
+      const summary = await runParallel({
+        ...baseOptions,
+        POLL: true,
+        FAIL_FAST: true,
+        RETRIES: 1,
+      });
+
+      expect(summary.specs.find((spec) => spec.spec === 'a.cy.ts')).toEqual(
+        expect.objectContaining({
+          status: 'failed',
+          attempts: [
+            expect.objectContaining({ status: 'failed' }),
+            expect.objectContaining({ status: 'failed' }),
+          ],
+        })
+      );
+      expect(summary.stopReason).toBe('fail-fast');
+    });
+
+    it('should skip the retry passes once first attempts reach the threshold (POLL=false)', async () => {
+      mockRunCypress.mockImplementation(runUntilAborted(['a.cy.ts']));
+
+      const summary = await runParallel({
+        ...baseOptions,
+        FAIL_FAST: true,
+        RETRIES: 1,
+      });
+
+      expect(mockRunCypress).toHaveBeenCalledTimes(2);
+      expect(summary.stopReason).toBe('fail-fast');
+      expect(
+        summary.specs.find((spec) => spec.spec === 'a.cy.ts')?.attempts
+      ).toHaveLength(1);
+      expect(summary.notRun).toEqual([]);
+      expect(log).toHaveBeenCalledWith(
+        'Fail-fast: 1 test file(s) failed their first attempt. Skipping the retry passes.',
+        { type: 'error' }
+      );
+    });
+
+    it('should run everything when FAIL_FAST is off', async () => {
+      mockRunCypress.mockImplementation(runUntilAborted(['a.cy.ts']));
+
+      const summary = await runParallel({ ...baseOptions, POLL: true });
+
+      expect(summary.specs).toHaveLength(5);
+      expect(summary.notRun).toEqual([]);
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should report a spec killed by its timeout as timed out and retry it', async () => {
+      let attempts = 0;
+      mockRunCypress.mockImplementation(async (tests, index) => {
+        if (tests[0] === 'b.cy.ts' && attempts++ === 0) {
+          return { status: 'rejected', index, code: null, timedOut: true };
+        }
+        return { status: 'fulfilled', index, code: 0 };
+      });
+
+      const summary = await runParallel({ ...baseOptions, RETRIES: 1 });
+
+      const spec = summary.specs.find((result) => result.spec === 'b.cy.ts');
+      expect(spec?.status).toBe('flaky');
+      expect(spec?.attempts.map((attempt) => attempt.status)).toEqual([
+        'timed-out',
+        'passed',
+      ]);
+    });
+
+    it('should fail the run when a spec times out on every attempt', async () => {
+      mockRunCypress.mockImplementation(async (tests, index) =>
+        tests[0] === 'c.cy.ts'
+          ? { status: 'rejected', index, code: null, timedOut: true }
+          : { status: 'fulfilled', index, code: 0 }
+      );
+
+      const summary = await runParallel({ ...baseOptions, POLL: true });
+
+      expect(
+        summary.specs.find((spec) => spec.spec === 'c.cy.ts')?.status
+      ).toBe('timed-out');
+      expect(summary.exitCode).toBe(1);
+    });
+
+    it('should pass the spec timeouts of a process and the idle timeout to runCypress', async () => {
+      mockRunCypress.mockImplementation(async (_tests, index) => ({
+        status: 'fulfilled',
+        index,
+        code: 0,
+      }));
+
+      await runParallel({
+        ...baseOptions,
+        SPEC_TIMEOUT: 30,
+        IDLE_TIMEOUT: 10,
+      });
+
+      expect(
+        mockRunCypress.mock.calls.map(([tests]) => tests.length).sort()
+      ).toEqual([1, 2]);
+      mockRunCypress.mock.calls.forEach(([tests, , , , options]) =>
+        expect(options).toEqual(
+          expect.objectContaining({
+            timeout: 30000 * tests.length,
+            idleTimeout: 10000,
+          })
+        )
+      );
+    });
+
+    it('should stop the run at RUN_TIMEOUT and mark running specs as timed out', async () => {
+      jest.useFakeTimers();
+      mockRunCypress.mockImplementation(
+        (tests, index, _display, _command, { signal, onOutput }) => {
+          onOutput(
+            'stdout',
+            Buffer.from(runningLine(tests[0], 0, tests.length))
+          );
+          return new Promise((resolve) =>
+            signal.addEventListener('abort', () =>
+              resolve({ status: 'rejected', index, code: null })
+            )
+          );
+        }
+      );
+
+      const summaryPromise = runParallel({ ...baseOptions, RUN_TIMEOUT: 60 });
+      await jest.advanceTimersByTimeAsync(60000);
+      const summary = await summaryPromise;
+      jest.useRealTimers();
+
+      expect(summary.specs.map((spec) => spec.status)).toEqual([
+        'timed-out',
+        'timed-out',
+      ]);
+      expect(summary.notRun).toHaveLength(1);
+      expect(summary.exitCode).toBe(1);
+    });
+  });
+
+  const runOnLinux = async (options: Record<string, unknown>) => {
+    const platform = Object.getOwnPropertyDescriptor(process, 'platform');
+    Object.defineProperty(process, 'platform', { value: 'linux' });
+    try {
+      return await runParallel({ ...baseOptions, ...options });
+    } finally {
+      Object.defineProperty(process, 'platform', platform!);
+    }
+  };
+
+  describe('Xvfb', () => {
+    it.each([false, true])(
+      'should start one server per worker once and stop them at the end (POLL=%s)',
+      async (poll) => {
+        mockRunCypress.mockImplementation(async (_tests, index) => ({
+          status: 'fulfilled',
+          index,
+          code: 0,
+        }));
+
+        await runOnLinux({ POLL: poll, BASE_DISPLAY_NUMBER: 99 });
+
+        expect(mockStartXvfbServers).toHaveBeenCalledTimes(1);
+        expect(mockStartXvfbServers).toHaveBeenCalledWith(2, 99);
+        const displays = mockRunCypress.mock.calls.map(
+          ([, , display]) => display
+        );
+        expect(new Set(displays)).toEqual(new Set([200, 201]));
+        expect(mockStopXvfbServers).toHaveBeenCalledWith([
+          { display: 200, process: {} },
+          { display: 201, process: {} },
+        ]);
+      }
+    );
+
+    it('should stop the servers when specs fail', async () => {
+      mockRunCypress.mockRejectedValue(new Error('boom'));
+
+      await runOnLinux({ POLL: true });
+
+      expect(mockStopXvfbServers).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('interruption', () => {
+    it('should stop the run, forward the signal and report partial results', async () => {
+      const controller = new AbortController();
+      const forwarded: unknown[] = [];
+      mockRunCypress.mockImplementation(
+        async (tests, index, _display, _command, { signal }) => {
+          if (tests[0] === 'a.cy.ts') {
+            return { status: 'fulfilled', index, code: 0 };
+          }
+          controller.abort('SIGINT');
+          forwarded.push(signal.reason);
+          return { status: 'rejected', index, code: 130 };
+        }
+      );
+
+      const summary = await runParallel(
+        { ...baseOptions, WORKERS: 1, POLL: true },
+        { signal: controller.signal }
+      );
+
+      expect(forwarded).toEqual(['SIGINT']);
+      expect(summary.status).toBe('interrupted');
+      expect(summary.exitCode).toBe(INTERRUPTED_EXIT_CODE);
+      expect(summary.specs.map((spec) => spec.status)).toEqual([
+        'passed',
+        'cancelled',
+      ]);
+      expect(summary.notRun).toEqual(['c.cy.ts']);
+    });
+
+    it('should not start any spec when already interrupted', async () => {
+      const controller = new AbortController();
+      controller.abort('SIGTERM');
+
+      const summary = await runParallel(baseOptions, {
+        signal: controller.signal,
+      });
+
+      expect(mockRunCypress).not.toHaveBeenCalled();
+      expect(summary.status).toBe('interrupted');
+      expect(summary.notRun).toHaveLength(3);
+    });
+  });
+
+  describe('output', () => {
+    const mockLogOutput = logOutput as jest.Mock;
+
+    beforeEach(() => {
+      mockCypressRuns((test) => (test === 'b.cy.ts' ? 1 : 0));
+    });
+
+    it('should echo every line with the worker and spec', async () => {
+      await runParallel({ ...baseOptions, CYPRESS_LOG: true });
+
+      expect(mockLogOutput).toHaveBeenCalledTimes(12);
+      // Specs run in one process are told apart
+      ['a.cy.ts', 'b.cy.ts', 'c.cy.ts'].forEach((spec) =>
+        expect(mockLogOutput).toHaveBeenCalledWith(
+          `  │ Spec Ran:     ${spec}  │`,
+          { workerId: expect.any(Number), spec, stream: 'stdout' }
+        )
+      );
+    });
+
+    it('should only print the output of failed specs at the end', async () => {
+      await runParallel({
+        ...baseOptions,
+        CYPRESS_LOG: true,
+        CYPRESS_LOG_FAILED_ONLY: true,
+      });
+
+      expect(mockLogOutput).toHaveBeenCalledTimes(4);
+      expect(mockLogOutput).toHaveBeenCalledWith('  │ Failing:      1  │', {
+        workerId: expect.any(Number),
+        spec: 'b.cy.ts',
+      });
+      expect(log).toHaveBeenCalledWith('Cypress output of b.cy.ts:', {
+        type: 'error',
+      });
+    });
+
+    it('should not print Cypress output without CYPRESS_LOG', async () => {
+      await runParallel({ ...baseOptions, CYPRESS_LOG: false });
+
+      expect(mockLogOutput).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reports', () => {
+    it('should write the JUnit report and JSON summary when configured', async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-'));
+      mockCypressRuns((test) => (test === 'b.cy.ts' ? 1 : 0));
+
+      try {
+        await runParallel({
+          ...baseOptions,
+          JUNIT_FILE: path.join(tmpDir, 'junit.xml'),
+          SUMMARY_FILE: path.join(tmpDir, 'summary.json'),
+        });
+
+        const junit = fs.readFileSync(path.join(tmpDir, 'junit.xml'), 'utf8');
+        expect(junit).toContain('tests="3" failures="1"');
+        const summary = JSON.parse(
+          fs.readFileSync(path.join(tmpDir, 'summary.json'), 'utf8')
+        );
+        expect(summary.status).toBe('failed');
+        expect(summary.specs).toHaveLength(3);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should print the run summary unless PRINT_SUMMARY is off, even without VERBOSE', async () => {
+      mockCypressRuns((test) => (test === 'b.cy.ts' ? 1 : 0));
+      const mockPrintSummary = printSummary as jest.Mock;
+
+      await runParallel({ ...baseOptions, SLOWEST_SPECS: 1, VERBOSE: false });
+
+      expect(mockPrintSummary).toHaveBeenCalledTimes(1);
+      const [message] = mockPrintSummary.mock.calls[0];
+      expect(message).toMatch(/^Run summary:\n/);
+      expect(message).toMatch(/^b\.cy\.ts +failed +\d/m);
+      expect(message).toContain('Slowest 1 spec(s):');
+      expect(message).toContain('cy-parallel --spec-pattern "b.cy.ts"');
+
+      mockPrintSummary.mockClear();
+      await runParallel({ ...baseOptions, PRINT_SUMMARY: false });
+
+      expect(mockPrintSummary).not.toHaveBeenCalled();
+    });
+
+    it('should log the worker status periodically in lines mode', async () => {
+      mockRunCypress.mockImplementation(
+        async (tests: string[], index, _display, _command, { onOutput }) => {
+          for (const [i, test] of tests.entries()) {
+            onOutput('stdout', Buffer.from(runningLine(test, i, tests.length)));
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            onOutput(
+              'stdout',
+              Buffer.from(cypressOutput(test, i, tests.length, 0))
+            );
+          }
+          return { status: 'fulfilled', index, code: 0 };
+        }
+      );
+
+      await runParallel({
+        ...baseOptions,
+        DASHBOARD: 'lines',
+        DASHBOARD_INTERVAL: 0.05,
+      });
+
+      const status = (log as jest.Mock).mock.calls.find(([message]) =>
+        message.startsWith('Status: ')
+      );
+      expect(status?.[0]).toMatch(/^Status: 0\/3 done, 2 running, 1 queued \|/);
+      expect(status?.[0]).toMatch(/^ {2}Worker 1 {2}[ab]\.cy\.ts +0\.\ds$/m);
+    });
+
+    it('should reject an unknown dashboard mode', async () => {
+      await expect(
+        runParallel({ ...baseOptions, DASHBOARD: 'fancy' })
+      ).rejects.toThrow(
+        'Invalid DASHBOARD "fancy": use one of auto, live, lines, off.'
+      );
+    });
+  });
+
+  describe('timings', () => {
+    let tmpDir: string;
+    let timingsFile: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-'));
+      timingsFile = path.join(tmpDir, 'timings.json');
+      mockCypressRuns(() => 0);
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should record the duration of every passed spec', async () => {
+      await runParallel({
+        ...baseOptions,
+        TIMINGS: true,
+        TIMINGS_FILE: timingsFile,
+      });
+
+      const { specs } = JSON.parse(fs.readFileSync(timingsFile, 'utf8'));
+      expect(Object.keys(specs).sort()).toEqual([
+        'a.cy.ts',
+        'b.cy.ts',
+        'c.cy.ts',
+      ]);
+      expect(specs['a.cy.ts'].durations).toHaveLength(1);
+    });
+
+    it('should record a split spec once, with the durations of its units added up', async () => {
+      const mockSplitSpecs = jest.requireMock('../utils/splitUtils')
+        .splitSpecs as jest.Mock;
+      mockSplitSpecs.mockImplementationOnce(() =>
+        [1, 2].map((index) => ({
+          file: `a.cy.ts [${index}/2]`,
+          weight: 1,
+          share: 0.5,
+          unit: { spec: 'a.cy.ts', index, total: 2, titles: [`a ${index}`] },
+        }))
+      );
+      await runParallel({
+        ...baseOptions,
+        TIMINGS: true,
+        TIMINGS_FILE: timingsFile,
+        SPLIT_TESTS: 1,
+      });
+
+      // Not once per unit
+      const { specs } = JSON.parse(fs.readFileSync(timingsFile, 'utf8'));
+      expect(Object.keys(specs)).toEqual(['a.cy.ts']);
+      expect(specs['a.cy.ts'].durations).toHaveLength(1);
+    });
+
+    it("should write only the shard's durations to its own file when sharding", async () => {
+      const contents = JSON.stringify({
+        version: 1,
+        specs: { 'a.cy.ts': { durations: [5000] } },
+      });
+      fs.writeFileSync(timingsFile, contents);
+      const shardFile = timingsFile.replace(/\.json$/, '.shard-1.json');
+
+      await runParallel({
+        ...baseOptions,
+        TIMINGS: true,
+        TIMINGS_FILE: timingsFile,
+        SHARD_INDEX: 1,
+        SHARD_TOTAL: 2,
+      });
+
+      expect(mockRunCypress).toHaveBeenCalled();
+      expect(fs.readFileSync(timingsFile, 'utf8')).toBe(contents);
+      // Without the history read from TIMINGS_FILE
+      const { specs } = JSON.parse(fs.readFileSync(shardFile, 'utf8'));
+      expect(Object.keys(specs).length).toBeGreaterThan(0);
+      Object.values(specs).forEach((spec) =>
+        expect(spec).toEqual({ durations: [expect.any(Number)] })
+      );
+      expect(log).toHaveBeenCalledWith(
+        `Sharding: ${timingsFile} is only read; this shard's durations go to ${shardFile}, to be merged with 'cy-parallel merge-timings'.`,
+        { type: 'info' }
+      );
+    });
+
+    it('should write the timings to TIMINGS_OUTPUT', async () => {
+      const output = path.join(tmpDir, 'output.json');
+
+      await runParallel({
+        ...baseOptions,
+        TIMINGS: true,
+        TIMINGS_FILE: timingsFile,
+        TIMINGS_OUTPUT: output,
+      });
+
+      expect(fs.existsSync(timingsFile)).toBe(false);
+      const { specs } = JSON.parse(fs.readFileSync(output, 'utf8'));
+      expect(Object.keys(specs).sort()).toEqual([
+        'a.cy.ts',
+        'b.cy.ts',
+        'c.cy.ts',
+      ]);
+    });
+  });
+
+  describe('quarantine and flaky specs', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should not fail the run or fail fast on quarantined failures', async () => {
+      const quarantineFile = path.join(tmpDir, 'quarantine.json');
+      fs.writeFileSync(
+        quarantineFile,
+        JSON.stringify({ specs: [{ spec: 'b.cy.ts', reason: 'Flaky login' }] })
+      );
+      mockCypressRuns((test) => (test === 'b.cy.ts' ? 1 : 0));
+
+      const summary = await runParallel({
+        ...baseOptions,
+        QUARANTINE_FILE: quarantineFile,
+        FAIL_FAST: true,
+      });
+
+      expect(summary.specs).toHaveLength(3);
+      expect(summary.status).toBe('passed');
+      expect(summary.exitCode).toBe(0);
+      expect(summary.specs.find((spec) => spec.spec === 'b.cy.ts')).toEqual(
+        expect.objectContaining({
+          status: 'failed',
+          quarantine: { spec: 'b.cy.ts', reason: 'Flaky login' },
+        })
+      );
+      expect(log).toHaveBeenCalledWith(
+        'Quarantined, not failing the run: b.cy.ts (Flaky login).',
+        { type: 'warn' }
+      );
+    });
+
+    it('should suggest quarantining specs that passed and failed on the same commit', async () => {
+      const historyFile = path.join(tmpDir, 'history.json');
+      mockCypressRuns((test) => (test === 'b.cy.ts' ? 1 : 0));
+      await runParallel({ ...baseOptions, HISTORY_FILE: historyFile });
+      mockRunCypress.mockImplementation(async (_tests, index) => ({
+        status: 'fulfilled',
+        index,
+        code: 0,
+      }));
+
+      const summary = await runParallel({
+        ...baseOptions,
+        HISTORY_FILE: historyFile,
+      });
+
+      expect(summary.flakySpecs).toEqual([
+        expect.objectContaining({ spec: 'b.cy.ts', flakyCommits: 1 }),
+      ]);
+      expect(log).toHaveBeenCalledWith(
+        expect.stringContaining('Flaky spec file(s) to consider quarantining:'),
+        { type: 'warn' }
+      );
+      const history = JSON.parse(fs.readFileSync(historyFile, 'utf8'));
+      expect(history.runs).toHaveLength(2);
+    });
+  });
+
+  describe('Cypress reports', () => {
+    it('should give each Cypress process a report directory and fail on missing reports', async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-'));
+      const commands: string[] = [];
+      mockRunCypress.mockImplementation(
+        async (tests: string[], index, _display, command, { onOutput }) => {
+          commands.push(command);
+          const reportDir = /reportDir=([^,]+),/.exec(command)?.[1] as string;
+          tests.forEach((test, i) => {
+            onOutput(
+              'stdout',
+              Buffer.from(cypressOutput(test, i, tests.length, 0))
+            );
+            if (test !== 'b.cy.ts') {
+              fs.mkdirSync(reportDir, { recursive: true });
+              fs.writeFileSync(
+                path.join(reportDir, `${test}.json`),
+                JSON.stringify({
+                  stats: {
+                    start: '2024-01-01T00:00:00.000Z',
+                    end: '2024-01-01T00:00:01.000Z',
+                  },
+                  results: [
+                    { file: test, tests: [{ state: 'passed' }], suites: [] },
+                  ],
+                })
+              );
+            }
+          });
+          return { status: 'fulfilled', index, code: 0 };
+        }
+      );
+
+      try {
+        const summary = await runParallel({
+          ...baseOptions,
+          REPORTER: 'mochawesome',
+          REPORT_DIR: tmpDir,
+        });
+
+        expect(commands).toHaveLength(2);
+        commands.forEach((command) =>
+          expect(command).toMatch(
+            /^cypress run --reporter mochawesome --reporter-options "reportDir=.*workers[/\\]worker-\d[/\\]/
+          )
+        );
+        expect(summary.report?.missing).toEqual(['b.cy.ts']);
+        expect(summary.status).toBe('failed');
+        const merged = JSON.parse(
+          fs.readFileSync(path.join(tmpDir, 'mochawesome.json'), 'utf8')
+        );
+        expect(merged.stats.tests).toBe(2);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject an unknown reporter', async () => {
+      await expect(
+        runParallel({ ...baseOptions, REPORTER: 'spec' })
+      ).rejects.toThrow('Invalid REPORTER "spec"');
+      expect(mockRunCypress).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREP_TAGS', () => {
+    it('should only run specs with matching tests and pass the tags to Cypress', async () => {
+      const mockGetFileInfo = jest.requireMock('../utils/weightUtils')
+        .getFileInfo as jest.Mock;
+      mockGetFileInfo.mockImplementation((file: string) => ({
+        file,
+        weight: 1,
+        tests: file === 'b.cy.ts' ? 0 : 1,
+        share: 1,
+      }));
+      mockRunCypress.mockImplementation(async (_tests, index) => ({
+        status: 'fulfilled',
+        index,
+        code: 0,
+      }));
+
+      await runParallel({ ...baseOptions, GREP_TAGS: '@smoke' });
+
+      const specs = mockRunCypress.mock.calls.map(([tests]) => tests[0]);
+      expect(specs.sort()).toEqual(['a.cy.ts', 'c.cy.ts']);
+      expect(mockRunCypress.mock.calls[0][4].env).toEqual(
+        expect.objectContaining({ CYPRESS_grepTags: '@smoke' })
+      );
+      mockGetFileInfo.mockImplementation((file: string) => ({
+        file,
+        weight: 1,
+      }));
+    });
+  });
+
+  describe('SPLIT_TESTS', () => {
+    it('should run each unit with its titles and report them under the spec', async () => {
+      const mockSplitSpecs = jest.requireMock('../utils/splitUtils')
+        .splitSpecs as jest.Mock;
+      mockSplitSpecs.mockImplementationOnce(() => [
+        {
+          file: 'a.cy.ts [1/2]',
+          weight: 1,
+          share: 0.5,
+          unit: { spec: 'a.cy.ts', index: 1, total: 2, titles: ['a 1'] },
+        },
+        {
+          file: 'a.cy.ts [2/2]',
+          weight: 1,
+          share: 0.5,
+          unit: { spec: 'a.cy.ts', index: 2, total: 2, titles: ['a 2', 'a 3'] },
+        },
+      ]);
+      mockRunCypress.mockImplementation(
+        async (_tests, index, _d, _c, options) => ({
+          status: options.env.CYPRESS_grep === 'a 1' ? 'fulfilled' : 'rejected',
+          index,
+          code: options.env.CYPRESS_grep === 'a 1' ? 0 : 1,
+        })
+      );
+
+      const summary = await runParallel({ ...baseOptions, SPLIT_TESTS: 2 });
+
+      expect(mockSplitSpecs).toHaveBeenCalledWith(expect.any(Array), 2, '');
+      expect(mockRunCypress.mock.calls.map(([tests]) => tests)).toEqual([
+        ['a.cy.ts'],
+        ['a.cy.ts'],
+      ]);
+      expect(
+        mockRunCypress.mock.calls.map(
+          ([, , , , options]) => options.env.CYPRESS_grep
+        )
+      ).toEqual(expect.arrayContaining(['a 1', 'a 2; a 3']));
+      expect(summary.specs).toEqual([
+        expect.objectContaining({
+          spec: 'a.cy.ts',
+          status: 'failed',
+          attempts: [
+            expect.objectContaining({ unit: 1, status: 'passed' }),
+            expect.objectContaining({ unit: 2, status: 'failed' }),
+          ],
+        }),
+      ]);
+      expect(summary.status).toBe('failed');
+    });
+  });
+
+  describe('worker environment', () => {
+    beforeEach(() => {
+      mockRunCypress.mockImplementation(async (_tests, index) => ({
+        status: 'fulfilled',
+        index,
+        code: 0,
+      }));
+    });
+
+    it('should give each worker its variables, ports and expanded command', async () => {
+      await runParallel({
+        ...baseOptions,
+        COMMAND: 'cypress run --env apiUrl=http://localhost:{port+1}',
+        BACKEND: 'command',
+        WORKER_PORTS: 2,
+        WORKER_PORT_START: 41000,
+        WORKER_ENV: '{"DB_NAME":"test_{worker}"}',
+      });
+
+      const calls = mockRunCypress.mock.calls.map(
+        ([, index, , command, options]) => ({
+          index,
+          command,
+          env: options.env,
+        })
+      );
+      const byWorker = new Map(calls.map((call) => [call.index, call]));
+      expect(byWorker.size).toBe(2);
+      const ports = [0, 1].map((index) =>
+        Number(byWorker.get(index)?.env.CY_PARALLEL_PORT)
+      );
+      expect(ports[1]).toBeGreaterThan(ports[0] + 1);
+      [0, 1].forEach((index) => {
+        const call = byWorker.get(index);
+        expect(call?.env).toEqual({
+          DB_NAME: `test_${index + 1}`,
+          CY_PARALLEL_WORKER_INDEX: `${index + 1}`,
+          CY_PARALLEL_WORKER_COUNT: '2',
+          CY_PARALLEL_PORT: `${ports[index]}`,
+          CY_PARALLEL_PORTS: `${ports[index]},${ports[index] + 1}`,
+        });
+        expect(call?.command).toBe(
+          `cypress run --env apiUrl=http://localhost:${ports[index] + 1}`
+        );
+      });
+    });
+
+    it('should expand CYPRESS_RUN_OPTIONS per worker', async () => {
+      await runParallel({
+        ...baseOptions,
+        BACKEND: 'module',
+        CYPRESS_RUN_OPTIONS: '{"config":{"baseUrl":"http://localhost:{port}"}}',
+        WORKER_PORTS: 1,
+        WORKER_PORT_START: 41100,
+      });
+
+      mockRunCypress.mock.calls.forEach(([, , , , options]) =>
+        expect(options.moduleOptions).toEqual({
+          config: {
+            baseUrl: `http://localhost:${options.env.CY_PARALLEL_PORT}`,
+          },
+        })
+      );
+    });
+
+    it('should fail before starting Xvfb when a template needs ports', async () => {
+      await expect(
+        runParallel({ ...baseOptions, WORKER_ENV: '{"URL":"{port}"}' })
+      ).rejects.toThrow('{port} needs at least 1 port(s) per worker');
+      expect(mockStartXvfbServers).not.toHaveBeenCalled();
+      expect(mockRunCypress).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setup and teardown', () => {
+    const { runHook, startGlobalSetup, stopHook } =
+      jest.requireMock('../utils/hookUtils');
+    const mockRunHook = runHook as jest.Mock;
+    const mockStartGlobalSetup = startGlobalSetup as jest.Mock;
+    const mockStopHook = stopHook as jest.Mock;
+    const hookOptions = {
+      GLOBAL_SETUP: 'npm run dev',
+      WAIT_ON: 'localhost:3000',
+      WORKER_SETUP: 'seed db_{worker}',
+      WORKER_TEARDOWN: 'drop db_{worker}',
+      GLOBAL_TEARDOWN: 'docker compose down',
+    };
+    const server = { process: {}, exited: Promise.resolve(0) };
+    let events: string[];
+
+    beforeEach(() => {
+      events = [];
+      mockStartGlobalSetup.mockImplementation(async () => {
+        events.push('global setup');
+        return server;
+      });
+      mockStartXvfbServers.mockImplementation(async (count: number) => {
+        events.push('xvfb');
+        return Array.from({ length: count }, (_, index) => ({
+          display: 200 + index,
+          process: {},
+        }));
+      });
+      mockRunHook.mockImplementation(async (name: string, command: string) => {
+        events.push(`${name}: ${command}`);
+      });
+      mockStopHook.mockImplementation(async () => {
+        events.push('stop global setup');
+      });
+      mockRunCypress.mockImplementation(async (_tests, index) => {
+        events.push('cypress');
+        return { status: 'fulfilled', index, code: 0 };
+      });
+    });
+
+    it('should run the hooks around the workers', async () => {
+      await runOnLinux(hookOptions);
+
+      expect(mockStartGlobalSetup).toHaveBeenCalledWith(
+        'npm run dev',
+        [{ host: 'localhost', port: 3000 }],
+        60000,
+        expect.any(AbortSignal)
+      );
+      expect(events.filter((event) => event !== 'cypress')).toEqual([
+        'global setup',
+        'xvfb',
+        'worker setup: seed db_1',
+        'worker setup: seed db_2',
+        'worker teardown: drop db_1',
+        'worker teardown: drop db_2',
+        'stop global setup',
+        'global teardown: docker compose down',
+      ]);
+      expect(events.indexOf('cypress')).toBe(4);
+      expect(mockRunHook).toHaveBeenCalledWith(
+        'worker setup',
+        'seed db_2',
+        expect.objectContaining({
+          workerId: 2,
+          env: expect.objectContaining({
+            CY_PARALLEL_WORKER_INDEX: '2',
+            DISPLAY: ':201',
+          }),
+        })
+      );
+      expect(mockStopHook).toHaveBeenCalledWith(server);
+    });
+
+    it('should not run any spec when a worker setup fails, but tear down', async () => {
+      mockRunHook.mockImplementation(async (name: string, command: string) => {
+        events.push(`${name}: ${command}`);
+        if (command === 'seed db_2') {
+          throw new Error('The worker setup command failed with exit code 1.');
+        }
+      });
+
+      await expect(runOnLinux(hookOptions)).rejects.toThrow(
+        'The worker setup command failed with exit code 1.'
+      );
+      expect(mockRunCypress).not.toHaveBeenCalled();
+      expect(events).toEqual(
+        expect.arrayContaining([
+          'worker teardown: drop db_1',
+          'worker teardown: drop db_2',
+          'global teardown: docker compose down',
+        ])
+      );
+      expect(log).toHaveBeenCalledWith(
+        'Error: The worker setup command failed with exit code 1.',
+        { type: 'error', workerId: 2 }
+      );
+    });
+
+    it('should run the global teardown when the global setup fails', async () => {
+      mockStartGlobalSetup.mockRejectedValue(
+        new Error('localhost:3000 was not ready within 60s (WAIT_ON_TIMEOUT).')
+      );
+
+      await expect(
+        runParallel({ ...baseOptions, ...hookOptions })
+      ).rejects.toThrow('WAIT_ON_TIMEOUT');
+      expect(mockStartXvfbServers).not.toHaveBeenCalled();
+      expect(events).toEqual(['global teardown: docker compose down']);
+    });
+
+    it('should log a failed teardown without failing the run', async () => {
+      mockRunHook.mockImplementation(async (name: string) => {
+        if (name.endsWith('teardown')) {
+          throw new Error(`The ${name} command failed with exit code 1.`);
+        }
+      });
+
+      const summary = await runParallel({ ...baseOptions, ...hookOptions });
+
+      expect(summary.status).toBe('passed');
+      expect(log).toHaveBeenCalledWith(
+        'Error: The global teardown command failed with exit code 1.',
+        { type: 'error' }
+      );
+    });
+  });
+
+  describe('module backend', () => {
+    it('should pass the run options and keep the test results of each attempt', async () => {
+      const run = { spec: 'a.cy.ts', tests: 2, passes: 2, failures: 0 };
+      mockRunCypress.mockImplementation(async (tests, index) => ({
+        status: 'fulfilled',
+        index,
+        code: 0,
+        runs: [{ ...run, spec: tests[0] }],
+      }));
+
+      const summary = await runParallel({
+        ...baseOptions,
+        BACKEND: 'module',
+        CYPRESS_RUN_OPTIONS: '{"browser":"chrome"}',
+        REPORTER: 'junit',
+        REPORT_DIR: path.join(os.tmpdir(), 'cy-parallel-module-reports'),
+      });
+
+      const options = mockRunCypress.mock.calls[0][4];
+      expect(options.backend).toBe('module');
+      expect(options.moduleOptions).toEqual({
+        browser: 'chrome',
+        reporter: 'junit',
+        reporterOptions: {
+          mochaFile: expect.stringMatching(/results-\[hash\]\.xml$/),
+        },
+      });
+      expect(summary.specs[0].attempts[0].run).toEqual({
+        ...run,
+        spec: 'a.cy.ts',
+      });
+      fs.rmSync(path.join(os.tmpdir(), 'cy-parallel-module-reports'), {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it.each([
+      ['{not json', 'Invalid CYPRESS_RUN_OPTIONS: SyntaxError'],
+      ['["chrome"]', 'Invalid CYPRESS_RUN_OPTIONS: expected a JSON object.'],
+    ])('should reject CYPRESS_RUN_OPTIONS %s', async (value, message) => {
+      await expect(
+        runParallel({ ...baseOptions, CYPRESS_RUN_OPTIONS: value })
+      ).rejects.toThrow(message);
+    });
+
+    it('should reject an unknown backend', async () => {
+      await expect(
+        runParallel({ ...baseOptions, BACKEND: 'docker' })
+      ).rejects.toThrow(
+        'Invalid BACKEND "docker": use one of command, module.'
+      );
+    });
+  });
+});
@@ -0,0 +1,1284 @@
+import { parseBackend, runCypress } from './cypressRunner';
+import { buildRunPlan, discoverTestFiles, getSpecTimeouts } from './planner';
+import {
+  CypressResult,
+  RunControl,
+  RunOptions,
+  RunPlan,
+  RunSummary,
+  SpecAttempt,
+  SpecResult,
+  FlakySpec,
+  SpecUnit,
+  StopReason,
+} from '../types';
+import { log, printSummary } from '../utils/logging';
+import {
+  createRunOutput,
+  OutputStream,
+  printOutput,
+  SpecOutput,
+} from '../utils/outputUtils';
+import { createSpecOutputParser, findSpec } from '../utils/cypressOutputUtils';
+import { getUnitGrep, mergeUnitResults } from '../utils/splitUtils';
+import { loadQuarantine } from '../utils/quarantineUtils';
+import {
+  getFlakySpecs,
+  loadHistory,
+  recordRun,
+  saveHistory,
+} from '../utils/historyUtils';
+import { getHeadCommit } from '../utils/changedUtils';
+import {
+  createWorkerContexts,
+  expandTemplate,
+  getWorkerEnv,
+  parseWorkerEnv,
+} from '../utils/workerEnvUtils';
+import {
+  cleanWorkerReports,
+  getBatchReportDir,
+  getReporterArgs,
+  getReporterOptions,
+  getSpecReportDir,
+  mergeCypressReports,
+  parseReporter,
+} from '../utils/cypressReportUtils';
+import {
+  formatJsonSummary,
+  formatJUnitReport,
+  formatRunSummary,
+  writeReport,
+} from '../utils/reportUtils';
+import { startXvfbServers, stopXvfbServers, XvfbServer } from '../utils/xvfb';
+import {
+  HookProcess,
+  parseWaitOn,
+  runHook,
+  startGlobalSetup,
+  stopHook,
+} from '../utils/hookUtils';
+import { getConfig, setConfigOverrides } from '../utils/envUtils';
+import {
+  createDashboard,
+  Dashboard,
+  parseDashboardMode,
+} from '../utils/dashboardUtils';
+import {
+  createTimings,
+  getShardTimingsFile,
+  getSpecKey,
+  loadTimings,
+  recordDuration,
+  saveTimings,
+} from '../utils/timingUtils';
+
+/**
+ * Helper function to create CypressResult objects.
+ * @param status - 'fulfilled' or 'rejected'
+ * @param index - Worker index
+ * @param code - Optional exit code
+ * @returns {CypressResult}
+ */
+function createCypressResult(
+  status: 'fulfilled' | 'rejected',
+  index: number,
+  code?: number
+): CypressResult {
+  return { status, index, code };
+}
+
+// Exit code of an interrupted run, like a shell's 128 + SIGINT
+export const INTERRUPTED_EXIT_CODE = 130;
+
+// The options of a run are read from module state all through the run, so
+// only one run may be in progress at a time
+let isRunning = false;
+
+/**
+ * Runs Cypress test files in parallel and resolves with a summary of the run.
+ * Options take precedence over environment variables for the duration of the run.
+ * The process is never exited; the caller decides what to do with the summary.
+ * Rejects while another run is in progress.
+ * @param {RunOptions} options - Configuration overrides, same keys as Config.
+ * @param {RunControl} [control] - Aborting control.signal interrupts the run.
+ * @returns {Promise<RunSummary>} - Per-worker and per-spec results of the run.
+ */
+export async function runParallel(
+  options: RunOptions = {},
+  control: RunControl = {}
+): Promise<RunSummary> {
+  if (isRunning) {
+    throw new Error(
+      'runParallel() is already running: wait for it to finish before starting another run.'
+    );
+  }
+  isRunning = true;
+  const previousOverrides = setConfigOverrides(options);
+  try {
+    return await runParallelCypress(control);
+  } finally {
+    setConfigOverrides(previousOverrides);
+    isRunning = false;
+  }
+}
+
+/**
+ * Parses CYPRESS_RUN_OPTIONS, the cypress.run() options of the module backend.
+ * @param {string} value - The CYPRESS_RUN_OPTIONS value.
+ * @returns {Record<string, unknown>} - The options.
+ */
+function parseRunOptions(value: string): Record<string, unknown> {
+  if (!value) {
+    return {};
+  }
+  let options: unknown;
+  try {
+    options = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid CYPRESS_RUN_OPTIONS: ${error}`);
+  }
+  if (
+    typeof options !== 'object' ||
+    options === null ||
+    Array.isArray(options)
+  ) {
+    throw new Error('Invalid CYPRESS_RUN_OPTIONS: expected a JSON object.');
+  }
+  return options as Record<string, unknown>;
+}
+
+/**
+ * Tells why no test files are planned for this machine.
+ * @param {number} discovered - The number of spec files discovered, after CHANGED_SINCE.
+ * @param {RunPlan} plan - The run plan.
+ * @returns {string} - The message to log.
+ */
+function getNoTestFilesMessage(discovered: number, plan: RunPlan): string {
+  const { CHANGED_SINCE, GREP_TAGS } = getConfig();
+  if (discovered === 0 && CHANGED_SINCE) {
+    return `No specs are affected by changes since ${CHANGED_SINCE}.`;
+  }
+  if (plan.shard.totalFiles === 0 && GREP_TAGS) {
+    return `No test files have tests matching GREP_TAGS "${GREP_TAGS}".`;
+  }
+  if (plan.shard.total > 1) {
+    return 'No test files assigned to this shard.';
+  }
+  return 'No test files to run.';
+}
+
+/**
+ * Merges the results of a worker index across several passes.
+ * A worker is 'rejected' if any of its passes had a failed Cypress run.
+ * @param {CypressResult[]} results - Worker results from all passes.
+ * @returns {CypressResult[]} - One result per worker index, sorted by index.
+ */
+function mergeWorkerResults(results: CypressResult[]): CypressResult[] {
+  const merged = new Map<number, CypressResult>();
+  results.forEach((result) => {
+    const previous = merged.get(result.index);
+    if (!previous || result.status === 'rejected') {
+      merged.set(result.index, result);
+    }
+  });
+  return [...merged.values()].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Orchestrates parallel Cypress test execution using the active configuration.
+ * @param {RunControl} control - Signal to interrupt the run.
+ * @returns {Promise<RunSummary>}
+ */
+async function runParallelCypress(control: RunControl): Promise<RunSummary> {
+  const {
+    WORKERS,
+    COMMAND,
+    POLL,
+    BASE_DISPLAY_NUMBER,
+    TIMINGS,
+    TIMINGS_FILE,
+    TIMINGS_HISTORY,
+    TIMINGS_OUTPUT,
+    SHARD_INDEX,
+    SHARD_TOTAL,
+    RETRIES,
+    FAIL_FAST,
+    FAIL_FAST_THRESHOLD,
+    IDLE_TIMEOUT,
+    RUN_TIMEOUT,
+    CYPRESS_LOG,
+    CYPRESS_LOG_FAILED_ONLY,
+    OUTPUT_DIR,
+    JUNIT_FILE,
+    SUMMARY_FILE,
+    REPORTER,
+    REPORT_DIR,
+    REPORT_HTML,
+    BACKEND,
+    CYPRESS_RUN_OPTIONS,
+    GREP_TAGS,
+    QUARANTINE_FILE,
+    HISTORY_FILE,
+    HISTORY_SIZE,
+    WORKER_PORTS,
+    WORKER_PORT_START,
+    WORKER_ENV,
+    WORKER_ENV_FILES,
+    GLOBAL_SETUP,
+    WAIT_ON,
+    WAIT_ON_TIMEOUT,
+    WORKER_SETUP,
+    WORKER_TEARDOWN,
+    GLOBAL_TEARDOWN,
+    PRINT_SUMMARY,
+    SLOWEST_SPECS,
+    DASHBOARD,
+    DASHBOARD_INTERVAL,
+    VERBOSE,
+    IS_LINUX,
+  } = getConfig();
+  const reporter = parseReporter(REPORTER);
+  const backend = parseBackend(BACKEND);
+  // Validated before anything starts; placeholders are expanded per worker
+  parseRunOptions(CYPRESS_RUN_OPTIONS);
+  const workerEnvTemplates = parseWorkerEnv(WORKER_ENV);
+  const waitTargets = parseWaitOn(WAIT_ON);
+  const dashboardMode = parseDashboardMode(
+    DASHBOARD,
+    process.stdout.isTTY === true,
+    VERBOSE
+  );
+
+  const startedAt = Date.now();
+  const timings = TIMINGS ? loadTimings(TIMINGS_FILE) : createTimings();
+  // Every machine must plan the shards from the same timings, so when sharding
+  // each machine writes only the durations it recorded, to be merged afterwards
+  const sharded = SHARD_TOTAL > 1;
+  const recordedTimings = sharded ? createTimings() : timings;
+  const timingsOutput =
+    TIMINGS_OUTPUT ||
+    (sharded ? getShardTimingsFile(TIMINGS_FILE, SHARD_INDEX) : TIMINGS_FILE);
+  if (TIMINGS && sharded) {
+    log(
+      `Sharding: ${TIMINGS_FILE} is only read; this shard's durations go to ${timingsOutput}, to be merged with 'cy-parallel merge-timings'.`,
+      { type: 'info' }
+    );
+  }
+  const discoveredFiles = discoverTestFiles();
+  const plan = buildRunPlan(discoveredFiles, timings);
+  // Only this machine's shard when sharding
+  const testFiles: string[] = plan.files.map((info) => info.file);
+  const totalTests = testFiles.length;
+  const specTimeouts = getSpecTimeouts(plan.files, plan.timed);
+  // Share of each spec's tests selected by GREP_TAGS or run by a unit, to record whole-file durations
+  const testShares = new Map(
+    plan.files.map((info) => [info.file, info.share ?? 1])
+  );
+  // Units of the specs split by SPLIT_TESTS, by key
+  const units = new Map(
+    plan.files
+      .filter((info) => info.unit !== undefined)
+      .map((info) => [info.file, info.unit as SpecUnit])
+  );
+  // Quarantined specs still run, but their failures don't fail the run
+  const quarantine = loadQuarantine(QUARANTINE_FILE);
+  const getQuarantine = (test: string) =>
+    quarantine.get(getSpecKey(units.get(test)?.spec ?? test));
+  // @cypress/grep reads its settings from Cypress.env(), which CYPRESS_* variables populate
+  const cypressEnv: NodeJS.ProcessEnv = GREP_TAGS
+    ? { CYPRESS_grepTags: GREP_TAGS }
+    : {};
+  // Environment, ports and expanded commands and CYPRESS_RUN_OPTIONS of each
+  // worker, before anything is started so that a bad template fails early
+  const workerSetups = (
+    await createWorkerContexts(plan.workers, WORKER_PORTS, WORKER_PORT_START)
+  ).map((context) => ({
+    env: getWorkerEnv(context, workerEnvTemplates, WORKER_ENV_FILES),
+    command: expandTemplate(COMMAND, context),
+    runOptions: parseRunOptions(expandTemplate(CYPRESS_RUN_OPTIONS, context)),
+    setup: expandTemplate(WORKER_SETUP, context),
+    teardown: expandTemplate(WORKER_TEARDOWN, context),
+  }));
+
+  const specResults = new Map<string, SpecResult>();
+  let completedTests = 0;
+
+  // Cypress output is echoed live with a prefix, or kept until the end of the
+  // run to print only what failed specs logged
+  const runOutput = createRunOutput({
+    outputDir: OUTPUT_DIR,
+    echo: CYPRESS_LOG && !CYPRESS_LOG_FAILED_ONLY,
+    buffer: CYPRESS_LOG_FAILED_ONLY,
+  });
+  // Report directory of the last attempt of each spec, when REPORTER is set
+  const reportDirs = new Map<string, string>();
+  if (reporter) {
+    cleanWorkerReports(REPORT_DIR);
+  }
+  // Durations of the units of split specs that passed, by spec and unit index
+  const unitDurations = new Map<
+    string,
+    Map<number, { duration: number; share: number }>
+  >();
+
+  /**
+   * Records one duration per split spec, the sum of its units' durations, if
+   * all of its units passed. Their shares add up to the share of the spec's
+   * tests that ran, e.g. with GREP_TAGS.
+   */
+  function recordUnitDurations() {
+    const unitCounts = new Map(
+      [...units.values()].map((unit) => [unit.spec, unit.total])
+    );
+    unitDurations.forEach((passedUnits, spec) => {
+      if (passedUnits.size !== unitCounts.get(spec)) {
+        return;
+      }
+      let duration = 0;
+      let share = 0;
+      passedUnits.forEach((unit) => {
+        duration += unit.duration;
+        share += unit.share;
+      });
+      recordDuration(
+        recordedTimings,
+        spec,
+        share > 0 ? duration / share : duration,
+        TIMINGS_HISTORY
+      );
+    });
+  }
+
+  // Output of the last attempt of each spec that did not pass, by spec
+  const failedOutput = new Map<
+    string,
+    { workerIndex: number; output: string }
+  >();
+
+  function logProgress() {
+    if (completedTests >= totalTests || dashboardMode === 'live') {
+      return; // Skip logging if all tests are complete or the dashboard shows it
+    }
+    const remainingTests = totalTests - completedTests;
+    const progressPercentage = ((completedTests / totalTests) * 100).toFixed(2);
+    log(
+      `Progress: ${completedTests}/${totalTests} tests completed (${progressPercentage}% done). ${remainingTests} test file(s) remaining.`,
+      { type: 'info' }
+    );
+  }
+
+  const getAttemptCount = (test: string): number =>
+    specResults.get(test)?.attempts.length ?? 0;
+  const canRetry = (test: string): boolean => getAttemptCount(test) <= RETRIES;
+
+  // Aborted by fail-fast, the run deadline or an interruption: workers stop
+  // dequeuing and running Cypress processes are killed
+  const stopRun = new AbortController();
+  let stopReason: StopReason | undefined;
+  let failedTests = 0;
+  // Cypress processes run with several specs, numbering their report directories
+  let batchCount = 0;
+
+  // killSignal is forwarded to the Cypress processes, e.g. the SIGINT that interrupted the run
+  const stop = (reason: StopReason, killSignal?: NodeJS.Signals) => {
+    if (!stopRun.signal.aborted) {
+      stopReason = reason;
+      stopRun.abort(killSignal);
+    }
+  };
+
+  const onInterrupt = () => {
+    const reason = control.signal?.reason;
+    log('Run interrupted. Stopping all workers.', { type: 'warn' });
+    stop(
+      'interrupted',
+      typeof reason === 'string' && reason.startsWith('SIG')
+        ? (reason as NodeJS.Signals)
+        : undefined
+    );
+  };
+  if (control.signal?.aborted) {
+    onInterrupt();
+  } else {
+    control.signal?.addEventListener('abort', onInterrupt, { once: true });
+  }
+
+  /**
+   * Counts a spec that failed its last attempt and stops the run once
+   * FAIL_FAST_THRESHOLD specs have failed.
+   */
+  function registerFailure(test: string) {
+    if (getQuarantine(test)) {
+      return;
+    }
+    failedTests += 1;
+    if (
+      FAIL_FAST &&
+      failedTests >= FAIL_FAST_THRESHOLD &&
+      !stopRun.signal.aborted
+    ) {
+      log(
+        `Fail-fast: ${failedTests} test file(s) failed, the last one being ${test}. Stopping all workers.`,
+        { type: 'error' }
+      );
+      stop('fail-fast');
+    }
+  }
+
+  /**
+   * Builds the command and cypress.run() options of a worker's Cypress process,
+   * with the reports sent to reportDir when REPORTER is set.
+   */
+  function getCypressSettings(
+    workerIndex: number,
+    reportDir: string | undefined
+  ): { command: string; moduleOptions: Record<string, unknown> } {
+    const workerSetup = workerSetups[workerIndex];
+    if (!reporter || reportDir === undefined) {
+      return {
+        command: workerSetup.command,
+        moduleOptions: workerSetup.runOptions,
+      };
+    }
+    return {
+      command: workerSetup.command + getReporterArgs(reporter, reportDir),
+      moduleOptions: {
+        ...workerSetup.runOptions,
+        ...getReporterOptions(reporter, reportDir),
+      },
+    };
+  }
+
+  /**
+   * Records an attempt of a spec and, when it passed and its duration was
+   * measured for the spec alone, its duration. The durations of units are
+   * kept to be recorded together for their spec, see recordUnitDurations.
+   */
+  function recordAttempt(test: string, attempt: SpecAttempt, timed: boolean) {
+    const passed = attempt.status === 'passed';
+    if (TIMINGS && timed && passed) {
+      const share = testShares.get(test) ?? 1;
+      const unit = units.get(test);
+      if (unit) {
+        const passedUnits =
+          unitDurations.get(unit.spec) ??
+          new Map<number, { duration: number; share: number }>();
+        passedUnits.set(unit.index, { duration: attempt.duration, share });
+        unitDurations.set(unit.spec, passedUnits);
+      } else {
+        recordDuration(
+          recordedTimings,
+          test,
+          share > 0 ? attempt.duration / share : attempt.duration,
+          TIMINGS_HISTORY
+        );
+      }
+    }
+    const attempts = [...(specResults.get(test)?.attempts ?? []), attempt];
+    specResults.set(test, {
+      spec: test,
+      workerIndex: attempt.workerIndex,
+      status: passed && attempts.length > 1 ? 'flaky' : attempt.status,
+      code: attempt.code,
+      duration: attempts.reduce((acc, { duration }) => acc + duration, 0),
+      attempts,
+    });
+  }
+
+  /**
+   * Keeps the output of a spec's last attempt if it did not pass, to print it
+   * after the run with CYPRESS_LOG_FAILED_ONLY.
+   */
+  function keepOutput(test: string, workerIndex: number, captured: string) {
+    if (specResults.get(test)?.attempts.slice(-1)[0]?.status === 'passed') {
+      failedOutput.delete(test);
+    } else if (CYPRESS_LOG_FAILED_ONLY) {
+      failedOutput.set(test, { workerIndex, output: captured });
+    }
+  }
+
+  /**
+   * Counts a finished attempt: a failure is passed to onFailure and counts
+   * towards fail-fast once the spec has no retries left.
+   */
+  function countAttempt(
+    test: string,
+    passed: boolean,
+    onFailure: (test: string) => void
+  ) {
+    if (!passed) {
+      onFailure(test);
+      if (!canRetry(test)) {
+        registerFailure(test);
+      }
+    }
+    if (passed || !canRetry(test)) {
+      completedTests += 1;
+      logProgress();
+    }
+  }
+
+  /**
+   * Status of a spec that did not pass, killed by a timeout or stopped.
+   * Specs killed by the run deadline count as timed out, by fail-fast or an
+   * interruption as cancelled.
+   */
+  function getFailedStatus(result: CypressResult): SpecAttempt['status'] {
+    const stopped = stopRun.signal.aborted;
+    if (result.timedOut || (stopped && stopReason === 'deadline')) {
+      return 'timed-out';
+    }
+    return stopped ? 'cancelled' : 'failed';
+  }
+
+  /**
+   * Runs Cypress for a single spec and records the attempt and, when it passes, its duration.
+   */
+  async function runSpec(
+    test: string,
+    workerIndex: number,
+    display: number
+  ): Promise<CypressResult> {
+    const specStartedAt = Date.now();
+    const attempt = getAttemptCount(test) + 1;
+    const output = runOutput.startSpec(workerIndex, test, attempt);
+    let reportDir: string | undefined;
+    if (reporter) {
+      reportDir = getSpecReportDir(REPORT_DIR, workerIndex, test, attempt);
+      reportDirs.set(test, reportDir);
+    }
+    const { command, moduleOptions } = getCypressSettings(
+      workerIndex,
+      reportDir
+    );
+    // An unexpected error still counts as an attempt, so the spec isn't retried forever
+    const unit = units.get(test);
+    const spec = unit?.spec ?? test;
+    const result = await runCypress([spec], workerIndex, display, command, {
+      signal: stopRun.signal,
+      timeout: specTimeouts.get(test) ?? 0,
+      idleTimeout: IDLE_TIMEOUT * 1000,
+      onOutput: (stream, data) => output.write(stream, data),
+      backend,
+      moduleOptions,
+      env: {
+        ...workerSetups[workerIndex].env,
+        ...cypressEnv,
+        ...(unit ? { CYPRESS_grep: getUnitGrep(unit) } : {}),
+      },
+    }).catch((error): CypressResult => {
+      log(
+        `Worker ${workerIndex + 1} encountered a failed Cypress run: ${error}`,
+        { type: 'error', workerId: workerIndex + 1 }
+      );
+      return createCypressResult('rejected', workerIndex);
+    });
+    const passed = result.status === 'fulfilled';
+    recordAttempt(
+      test,
+      {
+        workerIndex,
+        status: passed ? 'passed' : getFailedStatus(result),
+        code: result.code,
+        duration: Date.now() - specStartedAt,
+        logFile: output.logFile,
+        run: result.runs?.[0],
+      },
+      true
+    );
+    keepOutput(test, workerIndex, output.end());
+    return result;
+  }
+
+  /**
+   * Runs specs in one Cypress process, like the bucket of a worker, and
+   * records an attempt of each from the results Cypress prints once it is
+   * done, or from the module backend's runs. The output is split up by spec.
+   * Specs that a failed process did not get to are returned, to run again.
+   */
+  async function runBatch(
+    tests: string[],
+    workerIndex: number,
+    display: number,
+    onFailure: (test: string) => void
+  ): Promise<{ result: CypressResult; pending: string[] }> {
+    const batchStartedAt = Date.now();
+    batchCount += 1;
+    const reportDir = reporter
+      ? getBatchReportDir(REPORT_DIR, workerIndex, batchCount)
+      : undefined;
+    const { command, moduleOptions } = getCypressSettings(
+      workerIndex,
+      reportDir
+    );
+    const attemptNumbers = new Map(
+      tests.map((test) => [test, getAttemptCount(test) + 1])
+    );
+    const startTimes = new Map<string, number>();
+    const outputs = new Map<string, SpecOutput>();
+    // Output before the first spec starts, e.g. Cypress's version and settings
+    const preamble: [OutputStream, string][] = [];
+    const partialLines: Record<OutputStream, string> = {
+      stdout: '',
+      stderr: '',
+    };
+    let current: string | undefined;
+
+    const startOutput = (test: string): SpecOutput => {
+      const output = runOutput.startSpec(
+        workerIndex,
+        test,
+        attemptNumbers.get(test) as number
+      );
+      preamble
+        .splice(0)
+        .forEach(([stream, line]) => output.write(stream, line));
+      outputs.set(test, output);
+      return output;
+    };
+
+    const finish = (
+      test: string,
+      attempt: Omit<SpecAttempt, 'workerIndex'>,
+      timed: boolean
+    ) => {
+      if (reportDir !== undefined) {
+        reportDirs.set(test, reportDir);
+      }
+      recordAttempt(
+        test,
+        { workerIndex, logFile: outputs.get(test)?.logFile, ...attempt },
+        timed
+      );
+      const passed = attempt.status === 'passed';
+      dashboard?.endSpec(
+        workerIndex,
+        specResults.get(test),
+        passed || !canRetry(test)
+      );
+      const workerId = workerIndex + 1;
+      if (passed) {
+        log(`Worker ${workerId} completed test: ${test}`, {
+          type: 'info',
+          workerId,
+        });
+      } else if (attempt.status === 'cancelled' || stopRun.signal.aborted) {
+        log(`Worker ${workerId} stopped test: ${test} (${stopReason}).`, {
+          type: 'warn',
+          workerId,
+        });
+        return;
+      } else {
+        log(
+          `Worker ${workerId} ${attempt.status === 'timed-out' ? 'timed out on' : 'failed'} test: ${test}`,
+          { type: 'error', workerId }
+        );
+      }
+      countAttempt(test, passed, onFailure);
+    };
+
+    const readLine = createSpecOutputParser(tests, {
+      onStart: (test) => {
+        log(`Worker ${workerIndex + 1} started test: ${test}`, {
+          type: 'info',
+          workerId: workerIndex + 1,
+        });
+        startTimes.set(test, Date.now());
+        startOutput(test);
+        dashboard?.startSpec(
+          workerIndex,
+          test,
+          attemptNumbers.get(test) as number
+        );
+      },
+      onEnd: ({ spec, failures, duration }) =>
+        finish(
+          spec,
+          {
+            status: failures > 0 ? 'failed' : 'passed',
+            code: failures > 0 ? 1 : 0,
+            duration,
+          },
+          true
+        ),
+    });
+    const writeLine = (stream: OutputStream, line: string) => {
+      current = readLine(line) ?? current;
+      const output = current ? outputs.get(current) : undefined;
+      if (output) {
+        output.write(stream, `${line}\n`);
+      } else {
+        preamble.push([stream, `${line}\n`]);
+      }
+    };
+
+    // A process may take as long as its specs together
+    const result = await runCypress(tests, workerIndex, display, command, {
+      signal: stopRun.signal,
+      timeout: tests.reduce(
+        (total, test) => total + (specTimeouts.get(test) ?? 0),
+        0
+      ),
+      idleTimeout: IDLE_TIMEOUT * 1000,
+      onOutput: (stream, data) => {
+        const lines = (partialLines[stream] + data.toString()).split(/\r?\n/);
+        partialLines[stream] = lines.pop() ?? '';
+        lines.forEach((line) => writeLine(stream, line));
+      },
+      backend,
+      moduleOptions,
+      env: { ...workerSetups[workerIndex].env, ...cypressEnv },
+    }).catch((error): CypressResult => {
+      log(
+        `Worker ${workerIndex + 1} encountered a failed Cypress run: ${error}`,
+        { type: 'error', workerId: workerIndex + 1 }
+      );
+      return createCypressResult('rejected', workerIndex);
+    });
+    (['stdout', 'stderr'] as OutputStream[]).forEach((stream) => {
+      if (partialLines[stream]) {
+        writeLine(stream, partialLines[stream]);
+      }
+    });
+
+    // The module backend reports every spec that ran
+    const findRun = (test: string) =>
+      result.runs?.find((run) => findSpec(run.spec, [test]) !== undefined);
+    const passed = result.status === 'fulfilled';
+    const stopped = !passed && stopRun.signal.aborted;
+    const anyStarted = startTimes.size > 0 || (result.runs?.length ?? 0) > 0;
+    const pending: string[] = [];
+    tests.forEach((test) => {
+      const run = findRun(test);
+      const lastAttempt = specResults.get(test)?.attempts.slice(-1)[0];
+      if (lastAttempt && getAttemptCount(test) === attemptNumbers.get(test)) {
+        if (run) {
+          lastAttempt.run = run;
+        }
+        return;
+      }
+      const startedAt = startTimes.get(test);
+      if (run) {
+        finish(
+          test,
+          {
+            status: run.failures > 0 || run.error ? 'failed' : 'passed',
+            code: run.failures > 0 || run.error ? 1 : 0,
+            duration: run.duration,
+            run,
+          },
+          true
+        );
+      } else if (startedAt !== undefined) {
+        // Its results were not printed, e.g. it was killed
+        finish(
+          test,
+          {
+            status: passed ? 'passed' : getFailedStatus(result),
+            code: result.code,
+            duration: Date.now() - startedAt,
+          },
+          false
+        );
+      } else if (stopped) {
+        // Not run
+      } else if (anyStarted && !passed) {
+        pending.push(test);
+      } else {
+        // No spec could be told apart in the output: the process's result is each spec's
+        if (outputs.size === 0) {
+          startOutput(test);
+        }
+        finish(
+          test,
+          {
+            status: passed ? 'passed' : getFailedStatus(result),
+            code: result.code,
+            duration: (Date.now() - batchStartedAt) / tests.length,
+          },
+          false
+        );
+      }
+    });
+    outputs.forEach((output, test) =>
+      keepOutput(test, workerIndex, output.end())
+    );
+    return { result, pending };
+  }
+
+  /**
+   * Runs the test files of batch in one Cypress process, then test files one
+   * at a time until nextTest returns no more files.
+   * onFailure is called with each failed test file.
+   */
+  async function worker(
+    workerIndex: number,
+    nextTest: () => string | undefined,
+    onFailure: (test: string) => void = () => {},
+    batch: string[] = []
+  ): Promise<CypressResult> {
+    log(`Worker ${workerIndex + 1} started.`, {
+      type: 'info',
+      workerId: workerIndex + 1,
+    });
+    const display = getDisplay(workerIndex);
+    let hasFailed = false;
+
+    // Specs a failed process did not get to run in a new one
+    let pending = batch;
+    while (pending.length > 0 && !stopRun.signal.aborted) {
+      const batchRun = await runBatch(pending, workerIndex, display, onFailure);
+      if (batchRun.result.status === 'rejected') {
+        hasFailed = true;
+      }
+      pending = batchRun.pending;
+    }
+
+    while (!stopRun.signal.aborted) {
+      const test = nextTest();
+
+      if (!test) {
+        log(`Worker ${workerIndex + 1} found no more tests to run.`, {
+          type: 'info',
+          workerId: workerIndex + 1,
+        });
+        break;
+      }
+
+      const attempt = getAttemptCount(test) + 1;
+      log(
+        `Worker ${workerIndex + 1} picked test: ${test}${attempt > 1 ? ` (attempt ${attempt}/${RETRIES + 1})` : ''}`,
+        { type: 'info', workerId: workerIndex + 1 }
+      );
+
+      let passed = false;
+      dashboard?.startSpec(workerIndex, test, attempt);
+      try {
+        const result = await runSpec(test, workerIndex, display);
+        passed = result.status === 'fulfilled';
+        dashboard?.endSpec(
+          workerIndex,
+          specResults.get(test),
+          passed || !canRetry(test)
+        );
+        if (!passed && stopRun.signal.aborted) {
+          log(
+            `Worker ${workerIndex + 1} stopped test: ${test} (${stopReason}).`,
+            { type: 'warn', workerId: workerIndex + 1 }
+          );
+          break;
+        } else if (passed) {
+          log(`Worker ${workerIndex + 1} completed test: ${test}`, {
+            type: 'info',
+            workerId: workerIndex + 1,
+          });
+        } else if (result.timedOut) {
+          log(`Worker ${workerIndex + 1} timed out on test: ${test}`, {
+            type: 'error',
+            workerId: workerIndex + 1,
+          });
+        } else {
+          log(
+            `Worker ${workerIndex + 1} encountered a failed Cypress run with code ${result.code}.`,
+            { type: 'error', workerId: workerIndex + 1 }
+          );
+        }
+      } catch (error) {
+        dashboard?.endSpec(workerIndex, undefined, false);
+        log(
+          `Worker ${workerIndex + 1} encountered a failed Cypress run: ${error}`,
+          { type: 'error', workerId: workerIndex + 1 }
+        );
+      }
+
+      if (!passed) {
+        hasFailed = true;
+      }
+      countAttempt(test, passed, onFailure);
+    }
+
+    log(
+      `Worker ${workerIndex + 1} is finishing with status: ${
+        hasFailed ? 'rejected' : 'fulfilled'
+      }.`,
+      { type: 'info', workerId: workerIndex + 1 }
+    );
+
+    return createCypressResult(
+      hasFailed ? 'rejected' : 'fulfilled',
+      workerIndex,
+      hasFailed ? 1 : 0
+    );
+  }
+
+  log(`Running in ${POLL ? 'Polling' : 'Weighted Bucketing'} Mode.`, {
+    type: 'info',
+  });
+
+  if (totalTests === 0) {
+    log(getNoTestFilesMessage(discoveredFiles.length, plan), {
+      type: 'warn',
+    });
+  }
+
+  // One Xvfb server per worker for the whole run, reused by every spec and retry pass.
+  // Non-empty buckets come first, so workers 0..plan.workers-1 cover all passes.
+  let xvfbServers: XvfbServer[] = [];
+  const getDisplay = (workerIndex: number) =>
+    xvfbServers[workerIndex]?.display ?? BASE_DISPLAY_NUMBER + workerIndex;
+  // Environment of a worker's setup and teardown commands, like its Cypress processes
+  const getHookEnv = (workerIndex: number): NodeJS.ProcessEnv => ({
+    ...workerSetups[workerIndex].env,
+    ...(IS_LINUX ? { DISPLAY: `:${getDisplay(workerIndex)}` } : {}),
+  });
+
+  /**
+   * Runs WORKER_SETUP or WORKER_TEARDOWN for every worker, in parallel. Setup
+   * rejects once all workers are done if any failed; teardown only logs failures.
+   */
+  async function runWorkerHooks(hook: 'setup' | 'teardown'): Promise<void> {
+    const outcomes = await Promise.allSettled(
+      workerSetups.map((setup, workerIndex) =>
+        runHook(`worker ${hook}`, setup[hook], {
+          env: getHookEnv(workerIndex),
+          workerId: workerIndex + 1,
+          signal: hook === 'setup' ? stopRun.signal : undefined,
+        })
+      )
+    );
+    outcomes.forEach((outcome, workerIndex) => {
+      if (outcome.status === 'rejected') {
+        log(`${outcome.reason}`, { type: 'error', workerId: workerIndex + 1 });
+      }
+    });
+    const failed = outcomes.find(
+      (outcome): outcome is PromiseRejectedResult =>
+        outcome.status === 'rejected'
+    );
+    if (hook === 'setup' && failed) {
+      throw failed.reason;
+    }
+  }
+
+  const results: CypressResult[] = [];
+  let deadline: NodeJS.Timeout | undefined;
+  // Still running after the global setup, e.g. a dev server waited for with WAIT_ON
+  let globalSetup: HookProcess | undefined;
+  // Workers are torn down once their setup was attempted
+  let workersSetUp = false;
+  // Progress of the workers while specs run
+  let dashboard: Dashboard | undefined;
+
+  try {
+    if (GLOBAL_SETUP || waitTargets.length > 0) {
+      globalSetup = await startGlobalSetup(
+        GLOBAL_SETUP,
+        waitTargets,
+        WAIT_ON_TIMEOUT * 1000,
+        stopRun.signal
+      );
+    }
+    if (IS_LINUX) {
+      xvfbServers = await startXvfbServers(plan.workers, BASE_DISPLAY_NUMBER);
+    }
+    workersSetUp = true;
+    if (WORKER_SETUP) {
+      await runWorkerHooks('setup');
+    }
+
+    deadline =
+      RUN_TIMEOUT > 0
+        ? setTimeout(() => {
+            log(
+              `Run deadline of ${RUN_TIMEOUT}s reached. Stopping all workers.`,
+              { type: 'error' }
+            );
+            stop('deadline');
+          }, RUN_TIMEOUT * 1000)
+        : undefined;
+
+    if (dashboardMode !== 'off') {
+      dashboard = createDashboard({
+        mode: dashboardMode,
+        workers: plan.workers,
+        files: plan.files,
+        // With timing history the weights are seconds
+        secondsPerWeight: plan.timed ? 1 : undefined,
+        interval: DASHBOARD_INTERVAL * 1000,
+      });
+    }
+
+    if (plan.mode === 'weighted') {
+      // Each worker runs its own bucket in one Cypress process. Units of split
+      // specs need a grep of their own, so they run one at a time after it.
+      const promises: Promise<CypressResult>[] = plan.buckets
+        .filter((bucket) => bucket.files.length > 0)
+        .map((bucket) => {
+          const tests = bucket.files.map((info) => info.file);
+          const unitQueue = tests.filter((test) => units.has(test));
+          return worker(
+            bucket.index,
+            () => unitQueue.shift(),
+            undefined,
+            tests.filter((test) => !units.has(test))
+          );
+        });
+      results.push(...(await Promise.all(promises)));
+
+      // The retry passes only start once every bucket is done, so fail-fast
+      // counts the specs that failed their first attempt before starting them
+      const firstFailures = testFiles.filter(
+        (test) =>
+          ['failed', 'timed-out'].includes(
+            specResults.get(test)?.status ?? ''
+          ) && !getQuarantine(test)
+      );
+      if (
+        FAIL_FAST &&
+        firstFailures.length >= FAIL_FAST_THRESHOLD &&
+        !stopRun.signal.aborted
+      ) {
+        log(
+          `Fail-fast: ${firstFailures.length} test file(s) failed their first attempt. Skipping the retry passes.`,
+          { type: 'error' }
+        );
+        stop('fail-fast');
+      }
+
+      // Re-run only the failed specs, shared between workers, in final retry passes
+      for (let pass = 1; pass <= RETRIES && !stopRun.signal.aborted; pass++) {
+        const failed = testFiles.filter((test) =>
+          ['failed', 'timed-out'].includes(specResults.get(test)?.status ?? '')
+        );
+        if (failed.length === 0) {
+          break;
+        }
+
+        log(
+          `Retry pass ${pass}/${RETRIES}: re-running ${failed.length} failed test file(s).`,
+          { type: 'warn' }
+        );
+        const retryWorkers = Math.min(WORKERS, failed.length);
+        const retryPromises: Promise<CypressResult>[] = [];
+        for (let i = 0; i < retryWorkers; i++) {
+          retryPromises.push(worker(i, () => failed.shift()));
+        }
+        results.push(...(await Promise.all(retryPromises)));
+      }
+    } else {
+      // Start only the necessary number of workers, all sharing one queue.
+      // Failed specs are re-queued at the back while they have retries left.
+      const queue: string[] = [...testFiles];
+      const requeue = (test: string) => {
+        if (canRetry(test)) {
+          log(
+            `Re-queuing failed test: ${test} (${getAttemptCount(test)}/${RETRIES + 1} attempts used).`,
+            { type: 'warn' }
+          );
+          queue.push(test);
+        }
+      };
+
+      const promises: Promise<CypressResult>[] = [];
+      for (let i = 0; i < plan.workers; i++) {
+        promises.push(worker(i, () => queue.shift(), requeue));
+      }
+      results.push(...(await Promise.all(promises)));
+    }
+  } finally {
+    dashboard?.stop();
+    clearTimeout(deadline);
+    control.signal?.removeEventListener('abort', onInterrupt);
+    if (WORKER_TEARDOWN && workersSetUp) {
+      await runWorkerHooks('teardown');
+    }
+    await stopXvfbServers(xvfbServers);
+    if (globalSetup) {
+      await stopHook(globalSetup);
+    }
+    if (GLOBAL_TEARDOWN) {
+      await runHook('global teardown', GLOBAL_TEARDOWN).catch((error) =>
+        log(`${error}`, { type: 'error' })
+      );
+    }
+    await runOutput.close();
+  }
+
+  if (TIMINGS) {
+    recordUnitDurations();
+    saveTimings(timingsOutput, recordedTimings);
+  }
+
+  const workers = mergeWorkerResults(results);
+  workers.forEach((result) => {
+    if (result.status === 'rejected') {
+      log(`Worker ${result.index + 1} had at least one failed Cypress run.`, {
+        type: 'error',
+        workerId: result.index + 1,
+      });
+    } else {
+      log(
+        `Worker ${result.index + 1} completed all Cypress runs successfully.`,
+        { type: 'success', workerId: result.index + 1 }
+      );
+    }
+  });
+
+  const specs = testFiles
+    .map((test) => specResults.get(test))
+    .filter((result): result is SpecResult => result !== undefined);
+  const flaky = specs.filter((spec) => spec.status === 'flaky');
+  const failed = specs.filter((spec) => spec.status === 'failed');
+  const timedOut = specs.filter((spec) => spec.status === 'timed-out');
+  const cancelled = specs.filter((spec) => spec.status === 'cancelled');
+  const notRun = testFiles.filter((test) => !specResults.has(test));
+
+  [...failed, ...timedOut].forEach((spec) => {
+    const captured = failedOutput.get(spec.spec);
+    if (captured?.output) {
+      log(`Cypress output of ${spec.spec}:`, { type: 'error' });
+      printOutput(captured.output, captured.workerIndex, spec.spec);
+    }
+  });
+  if (OUTPUT_DIR) {
+    log(`Cypress logs written to ${OUTPUT_DIR}.`, { type: 'info' });
+  }
+
+  flaky.forEach((spec) =>
+    log(
+      `Passed on retry (flaky): ${spec.spec} after ${spec.attempts.length} attempts.`,
+      { type: 'warn' }
+    )
+  );
+  failed.forEach((spec) =>
+    log(`Failed: ${spec.spec} after ${spec.attempts.length} attempt(s).`, {
+      type: 'error',
+    })
+  );
+
+  timedOut.forEach((spec) =>
+    log(`Timed out: ${spec.spec} after ${spec.attempts.length} attempt(s).`, {
+      type: 'error',
+    })
+  );
+  const quarantinedFailures = [...failed, ...timedOut].filter((spec) =>
+    getQuarantine(spec.spec)
+  );
+  quarantinedFailures.forEach((spec) =>
+    log(
+      `Quarantined, not failing the run: ${spec.spec} (${getQuarantine(spec.spec)?.reason}).`,
+      { type: 'warn' }
+    )
+  );
+  const countedFailed = failed.filter((spec) => !getQuarantine(spec.spec));
+  const countedTimedOut = timedOut.filter((spec) => !getQuarantine(spec.spec));
+  cancelled.forEach((spec) =>
+    log(`Cancelled because of ${stopReason}: ${spec.spec}`, { type: 'warn' })
+  );
+  notRun.forEach((test) =>
+    log(`Not run because of ${stopReason}: ${test}`, { type: 'warn' })
+  );
+  if (stopReason === 'fail-fast') {
+    log(
+      `Fail-fast stopped the run: ${cancelled.length} test file(s) cancelled, ${notRun.length} never executed.`,
+      { type: 'error' }
+    );
+  } else if (stopReason === 'deadline') {
+    log(
+      `The run deadline stopped the run: ${notRun.length} test file(s) never executed.`,
+      { type: 'error' }
+    );
+  } else if (stopReason === 'interrupted') {
+    log(
+      `The run was interrupted: ${cancelled.length} test file(s) cancelled, ${notRun.length} never executed.`,
+      { type: 'warn' }
+    );
+  }
+
+  // Specs that ran to completion must have left a report; killed ones need not
+  const report = reporter
+    ? await mergeCypressReports(
+        reporter,
+        REPORT_DIR,
+        specs
+          .filter((spec) => ['passed', 'flaky', 'failed'].includes(spec.status))
+          .map((spec) => ({
+            spec: spec.spec,
+            dir: reportDirs.get(spec.spec) as string,
+          })),
+        REPORT_HTML
+      )
+    : undefined;
+  const missingReports = report?.missing.length ?? 0;
+
+  const interrupted = stopReason === 'interrupted';
+  const hasFailures =
+    countedFailed.length > 0 ||
+    countedTimedOut.length > 0 ||
+    notRun.length > 0 ||
+    missingReports > 0;
+  if (hasFailures && !interrupted) {
+    log(
+      `${countedFailed.length} test file(s) failed, ${countedTimedOut.length} timed out${missingReports > 0 ? `, ${missingReports} without a report` : ''}${quarantinedFailures.length > 0 ? ` (${quarantinedFailures.length} quarantined failure(s) ignored)` : ''}.`,
+      { type: 'error' }
+    );
+  } else if (!interrupted) {
+    log(
+      `All Cypress tests completed successfully${flaky.length > 0 ? ` (${flaky.length} flaky)` : ''}${quarantinedFailures.length > 0 ? `, apart from ${quarantinedFailures.length} quarantined failure(s)` : ''}.`,
+      { type: 'success' }
+    );
+  }
+
+  // Units were run and logged on their own, but are reported under their spec
+  const specResultsByFile = mergeUnitResults(specs, notRun, units);
+  const reportedSpecs = specResultsByFile.specs.map((spec) => {
+    const entry = getQuarantine(spec.spec);
+    return entry ? { ...spec, quarantine: entry } : spec;
+  });
+
+  let flakySpecs: FlakySpec[] | undefined;
+  if (HISTORY_FILE) {
+    const history = loadHistory(HISTORY_FILE);
+    recordRun(history, reportedSpecs, startedAt, getHeadCommit(), HISTORY_SIZE);
+    saveHistory(HISTORY_FILE, history);
+    flakySpecs = getFlakySpecs(history, quarantine);
+    const candidates = flakySpecs.filter((spec) => !spec.quarantined);
+    if (candidates.length > 0) {
+      log(
+        `Flaky spec file(s) to consider quarantining:\n${candidates
+          .map(
+            (spec) =>
+              `- ${spec.spec}: flaky on ${spec.flakyCommits} of ${spec.commits} commit(s) (${Math.round(spec.score * 100)}%)`
+          )
+          .join('\n')}`,
+        { type: 'warn' }
+      );
+    }
+  }
+  const summary: RunSummary = {
+    status: interrupted ? 'interrupted' : hasFailures ? 'failed' : 'passed',
+    exitCode: interrupted ? INTERRUPTED_EXIT_CODE : hasFailures ? 1 : 0,
+    mode: plan.mode,
+    startedAt,
+    duration: Date.now() - startedAt,
+    stopReason,
+    workers,
+    specs: reportedSpecs,
+    notRun: specResultsByFile.notRun,
+    report,
+    flakySpecs,
+  };
+  if (PRINT_SUMMARY) {
+    await printSummary(
+      `Run summary:\n${formatRunSummary(summary, SLOWEST_SPECS)}`
+    );
+  }
+  if (JUNIT_FILE) {
+    writeReport(JUNIT_FILE, formatJUnitReport(summary), 'JUnit report');
+  }
+  if (SUMMARY_FILE) {
+    writeReport(SUMMARY_FILE, formatJsonSummary(summary), 'run summary');
+  }
+  return summary;
+}
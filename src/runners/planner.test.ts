@@ -0,0 +1,368 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  buildRunPlan,
+  formatPlan,
+  formatPlanJson,
+  getPlanImbalance,
+  getSpecTimeouts,
+  renderPlan,
+} from './planner';
+import { createTimings, recordDuration } from '../utils/timingUtils';
+import { getConfig } from '../utils/envUtils';
+import { log } from '../utils/logging';
+
+jest.mock('../utils/weightUtils', () => ({
+  getFileInfo: jest.fn(
+    (file: string, _base: number, _perTest: number, grepTags: string) => {
+      if (file.includes('broken')) {
+        return null;
+      }
+      const info = { file, weight: Number(file[0]) };
+      // Files named 'untagged' have no tests matching GREP_TAGS
+      return grepTags
+        ? { ...info, tests: file.includes('untagged') ? 0 : 1, share: 1 }
+        : info;
+    }
+  ),
+}));
+
+jest.mock('../utils/logging', () => ({
+  log: jest.fn(),
+}));
+
+describe('buildRunPlan', () => {
+  const ORIGINAL_ENV = process.env;
+  // The number is the weight of each file
+  const testFiles = [
+    '5a.cy.ts',
+    '4b.cy.ts',
+    '3c.cy.ts',
+    '2d.cy.ts',
+    '1e.cy.ts',
+  ];
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV, WORKERS: '2', TIMINGS: 'false' };
+    const mockCpus = [{}, {}, {}, {}]; // 4 CPUs
+    jest.spyOn(os, 'cpus').mockReturnValue(mockCpus as unknown as os.CpuInfo[]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it('should plan all files when not sharding', () => {
+    const plan = buildRunPlan(testFiles, createTimings());
+
+    expect(plan.shard).toEqual({ index: 1, total: 1, totalFiles: 5 });
+    expect(plan.files.map((info) => info.file)).toEqual(testFiles);
+    expect(plan.workers).toBe(2);
+    expect(plan.timed).toBe(false);
+  });
+
+  it('should keep test-count weights with TIMINGS on and an empty timings file', () => {
+    process.env.TIMINGS = 'true';
+    process.env.SPEC_TIMEOUT = '60';
+
+    const plan = buildRunPlan(testFiles, createTimings());
+
+    expect(plan.timed).toBe(false);
+    expect(plan.files.map((info) => info.weight)).toEqual([5, 4, 3, 2, 1]);
+    // Relative to the average weight of 3, not 5 seconds for '5a.cy.ts'
+    expect(getSpecTimeouts(plan.files, plan.timed).get('5a.cy.ts')).toBe(
+      100000
+    );
+  });
+
+  it('should use durations as weights with TIMINGS on and timing history', () => {
+    process.env.TIMINGS = 'true';
+    const timings = createTimings();
+    recordDuration(timings, '5a.cy.ts', 30000, 5);
+
+    const plan = buildRunPlan(testFiles, timings);
+
+    expect(plan.timed).toBe(true);
+    expect(plan.files.find((info) => info.file === '5a.cy.ts')?.weight).toBe(
+      30
+    );
+  });
+
+  it('should split the files across shards, then across local workers', () => {
+    process.env.SHARD_TOTAL = '2';
+
+    const plans = [1, 2].map((index) => {
+      process.env.SHARD_INDEX = String(index);
+      return buildRunPlan(testFiles, createTimings());
+    });
+
+    expect(plans[0].files.map((info) => info.file)).toEqual([
+      '5a.cy.ts',
+      '2d.cy.ts',
+      '1e.cy.ts',
+    ]);
+    expect(plans[1].files.map((info) => info.file)).toEqual([
+      '4b.cy.ts',
+      '3c.cy.ts',
+    ]);
+    expect(plans[0].buckets.map((bucket) => bucket.weight)).toEqual([5, 3]);
+    expect(plans[1].buckets.map((bucket) => bucket.weight)).toEqual([4, 3]);
+  });
+
+  it('should compute the same shards regardless of the discovery order', () => {
+    process.env.SHARD_TOTAL = '3';
+    process.env.SHARD_INDEX = '2';
+    const sameWeight = ['1d.cy.ts', '1a.cy.ts', '1c.cy.ts', '1b.cy.ts'];
+
+    const plan = buildRunPlan(sameWeight, createTimings());
+    const reversed = buildRunPlan([...sameWeight].reverse(), createTimings());
+
+    expect(plan.files.map((info) => info.file).sort()).toEqual(
+      reversed.files.map((info) => info.file).sort()
+    );
+    expect(plan.files.map((info) => info.file)).toEqual(['1b.cy.ts']);
+  });
+
+  it('should keep files that cannot be parsed, with the base weight', () => {
+    const plan = buildRunPlan(['broken.cy.ts'], createTimings());
+
+    expect(plan.files).toEqual([{ file: 'broken.cy.ts', weight: 1 }]);
+  });
+
+  it('should drop the files without tests matching GREP_TAGS', () => {
+    process.env.GREP_TAGS = '@smoke';
+
+    const plan = buildRunPlan(
+      ['2a.cy.ts', '1untagged.cy.ts', 'broken.cy.ts'],
+      createTimings()
+    );
+
+    expect(plan.files.map((info) => info.file)).toEqual([
+      '2a.cy.ts',
+      'broken.cy.ts',
+    ]);
+  });
+
+  it('should plan an empty shard when there are more shards than files', () => {
+    process.env.SHARD_TOTAL = '3';
+    process.env.SHARD_INDEX = '3';
+    process.env.POLL = 'true';
+
+    const plan = buildRunPlan(['5a.cy.ts', '4b.cy.ts'], createTimings());
+
+    expect(plan.files).toEqual([]);
+    expect(plan.workers).toBe(0);
+  });
+
+  it.each([
+    ['0', '2'],
+    ['3', '2'],
+  ])('should reject SHARD_INDEX=%s with SHARD_TOTAL=%s', (index, total) => {
+    process.env.SHARD_INDEX = index;
+    process.env.SHARD_TOTAL = total;
+
+    expect(() => buildRunPlan(testFiles, createTimings())).toThrow(
+      `Invalid shard ${index}/${total}`
+    );
+  });
+
+  it('should mention the shard in the formatted plan', () => {
+    process.env.SHARD_TOTAL = '2';
+    process.env.SHARD_INDEX = '2';
+
+    expect(formatPlan(buildRunPlan(testFiles, createTimings()))).toMatch(
+      /^Shard 2\/2: 2 of 5 test file\(s\)\.\nWeighted Bucketing Mode/
+    );
+  });
+});
+
+describe('plan output', () => {
+  const ORIGINAL_ENV = process.env;
+  const testFiles = [
+    '5a.cy.ts',
+    '4b.cy.ts',
+    '3c.cy.ts',
+    '2d.cy.ts',
+    '1e.cy.ts',
+  ];
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV, WORKERS: '2', TIMINGS: 'false' };
+    const mockCpus = [{}, {}, {}, {}]; // 4 CPUs
+    jest.spyOn(os, 'cpus').mockReturnValue(mockCpus as unknown as os.CpuInfo[]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it('should compute how much heavier the heaviest bucket is than an even split', () => {
+    const plan = buildRunPlan(testFiles, createTimings());
+
+    // Buckets of 8 and 7, an even split would be 7.5 each
+    expect(getPlanImbalance(plan)).toBe(6.67);
+  });
+
+  it('should report no imbalance in Polling Mode', () => {
+    process.env.POLL = 'true';
+
+    expect(getPlanImbalance(buildRunPlan(testFiles, createTimings()))).toBe(0);
+  });
+
+  it('should format the buckets as a table followed by their specs', () => {
+    expect(formatPlan(buildRunPlan(testFiles, createTimings()))).toBe(
+      [
+        'Weighted Bucketing Mode: 5 test file(s) in 2 bucket(s), total weight: 15, imbalance: 6.67%.',
+        '',
+        'Bucket  Files  Weight   Share',
+        '     1      3       8  53.33%',
+        '     2      2       7  46.67%',
+        '',
+        'Bucket 1: 3 test file(s), weight: 8',
+        '  - 5a.cy.ts (5)',
+        '  - 2d.cy.ts (2)',
+        '  - 1e.cy.ts (1)',
+        '',
+        'Bucket 2: 2 test file(s), weight: 7',
+        '  - 4b.cy.ts (4)',
+        '  - 3c.cy.ts (3)',
+      ].join('\n')
+    );
+  });
+
+  it('should format the queue in Polling Mode', () => {
+    process.env.POLL = 'true';
+
+    expect(
+      formatPlan(buildRunPlan(['2d.cy.ts', '1e.cy.ts'], createTimings()))
+    ).toBe(
+      [
+        'Polling Mode: 2 worker(s) sharing a queue of 2 test file(s), total weight: 3.',
+        '  - 2d.cy.ts (2)',
+        '  - 1e.cy.ts (1)',
+      ].join('\n')
+    );
+  });
+
+  it('should format the plan as JSON', () => {
+    const json = JSON.parse(
+      formatPlanJson(buildRunPlan(testFiles, createTimings()))
+    );
+
+    expect(json).toEqual({
+      mode: 'weighted',
+      workers: 2,
+      shard: { index: 1, total: 1, totalFiles: 5 },
+      files: 5,
+      totalWeight: 15,
+      imbalance: 6.67,
+      buckets: [
+        {
+          bucket: 1,
+          weight: 8,
+          share: 53.33,
+          specs: [
+            { spec: '5a.cy.ts', weight: 5 },
+            { spec: '2d.cy.ts', weight: 2 },
+            { spec: '1e.cy.ts', weight: 1 },
+          ],
+        },
+        {
+          bucket: 2,
+          weight: 7,
+          share: 46.67,
+          specs: [
+            { spec: '4b.cy.ts', weight: 4 },
+            { spec: '3c.cy.ts', weight: 3 },
+          ],
+        },
+      ],
+      queue: [],
+    });
+  });
+
+  it('should leave log lines out of the plan in both formats', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-plan-'));
+    // Only what log would print, i.e. with VERBOSE on
+    const printed: string[] = [];
+    (log as jest.Mock).mockImplementation(async (message: string) => {
+      if (getConfig().VERBOSE) {
+        printed.push(message);
+      }
+    });
+    try {
+      fs.writeFileSync(path.join(tmpDir, 'a.cy.ts'), '');
+      fs.writeFileSync(path.join(tmpDir, 'b.cy.ts'), '');
+
+      expect(renderPlan({ DIR: tmpDir })).toMatch(
+        /^Weighted Bucketing Mode: 2 test file\(s\)/
+      );
+      expect(
+        JSON.parse(renderPlan({ DIR: tmpDir, PLAN_FORMAT: 'json' })).files
+      ).toBe(2);
+      expect(log).toHaveBeenCalled();
+      expect(printed).toEqual([]);
+    } finally {
+      (log as jest.Mock).mockReset();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject an unknown PLAN_FORMAT', () => {
+    expect(() => renderPlan({ PLAN_FORMAT: 'yaml' })).toThrow(
+      'Invalid PLAN_FORMAT "yaml": use one of text, json.'
+    );
+  });
+});
+
+describe('getSpecTimeouts', () => {
+  const ORIGINAL_ENV = process.env;
+  const files = [
+    { file: 'a.cy.ts', weight: 1 },
+    { file: 'b.cy.ts', weight: 3 },
+  ];
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it('should be empty when SPEC_TIMEOUT is 0', () => {
+    expect(getSpecTimeouts(files, false).size).toBe(0);
+  });
+
+  it('should scale SPEC_TIMEOUT by weight relative to the average', () => {
+    process.env.SPEC_TIMEOUT = '60';
+
+    expect(getSpecTimeouts(files, false)).toEqual(
+      new Map([
+        ['a.cy.ts', 60000],
+        ['b.cy.ts', 90000],
+      ])
+    );
+  });
+
+  it('should allow SPEC_TIMEOUT_FACTOR times the expected duration with timing history', () => {
+    process.env.SPEC_TIMEOUT = '5';
+    process.env.SPEC_TIMEOUT_FACTOR = '2';
+
+    expect(getSpecTimeouts(files, true)).toEqual(
+      new Map([
+        ['a.cy.ts', 5000],
+        ['b.cy.ts', 6000],
+      ])
+    );
+  });
+});
@@ -0,0 +1,348 @@
+import { validateDir, collectTestFiles } from '../utils/fileUtils';
+import { getFileInfo } from '../utils/weightUtils';
+import { getFileBucketsCustom } from '../utils/bucketUtils';
+import { FileInfo, RunOptions, RunPlan, TimingsData } from '../types';
+import { getConfig, setConfigOverrides } from '../utils/envUtils';
+import { log } from '../utils/logging';
+import {
+  applyTimingWeights,
+  createTimings,
+  getAverageDuration,
+  getSpecKey,
+  loadTimings,
+} from '../utils/timingUtils';
+import { resolveSpecPatterns } from '../utils/specPatternUtils';
+import { formatTable } from '../utils/reportUtils';
+import { splitSpecs } from '../utils/splitUtils';
+import { selectChangedSpecs } from '../utils/changedUtils';
+
+/**
+ * Validates DIR and collects the spec files matching the configured patterns.
+ * With CHANGED_SINCE, only the specs affected by the changes are kept.
+ * @returns {string[]} - The spec files to run.
+ */
+export function discoverTestFiles(): string[] {
+  const { DIR, GITIGNORE, CHANGED_SINCE, GLOBAL_FILES } = getConfig();
+  const testFiles = collectTestFiles(
+    validateDir(DIR),
+    resolveSpecPatterns(),
+    GITIGNORE
+  );
+  return CHANGED_SINCE
+    ? selectChangedSpecs(testFiles, CHANGED_SINCE, GLOBAL_FILES)
+    : testFiles;
+}
+
+/**
+ * Selects this machine's shard of the files.
+ * All files are first split across SHARD_TOTAL shards with the same weight logic
+ * as the local buckets; the split is deterministic, so every machine computes
+ * the same shards independently.
+ * @param {FileInfo[]} files - All weighted files.
+ * @param {number} shardIndex - The 1-based shard of this machine.
+ * @param {number} shardTotal - The number of shards.
+ * @returns {FileInfo[]} - The files of the selected shard, in their original order.
+ */
+function selectShard(
+  files: FileInfo[],
+  shardIndex: number,
+  shardTotal: number
+): FileInfo[] {
+  if (shardTotal < 1 || shardIndex < 1 || shardIndex > shardTotal) {
+    throw new Error(
+      `Invalid shard ${shardIndex}/${shardTotal}: SHARD_INDEX must be between 1 and SHARD_TOTAL.`
+    );
+  }
+  if (shardTotal === 1) {
+    return files;
+  }
+
+  const shard = new Set(
+    getFileBucketsCustom(shardTotal, [...files], 'Shard')[shardIndex - 1]
+  );
+  log(
+    `Running shard ${shardIndex}/${shardTotal}: ${shard.size} of ${files.length} test file(s).`,
+    { type: 'info' }
+  );
+  return files.filter((info) => shard.has(info.file));
+}
+
+/**
+ * Builds the execution plan for the given test files using the active configuration.
+ * When sharding, only this machine's shard is planned.
+ * In Weighted Bucketing Mode the files are distributed into one bucket per worker;
+ * in Polling Mode the workers share a queue, so no buckets are planned.
+ * @param {string[]} testFiles - Array of test file paths.
+ * @param {TimingsData} timings - Timing history used to weigh the files.
+ * @returns {RunPlan} - The planned mode, worker count, file weights and buckets.
+ */
+export function buildRunPlan(
+  testFiles: string[],
+  timings: TimingsData
+): RunPlan {
+  const {
+    WEIGHT_PER_TEST,
+    BASE_WEIGHT,
+    WORKERS,
+    POLL,
+    TIMINGS,
+    SHARD_INDEX,
+    SHARD_TOTAL,
+    GREP_TAGS,
+    SPLIT_TESTS,
+  } = getConfig();
+
+  // Files that can't be parsed still run (Cypress reports the error), with the base weight
+  const parsedFilesInfo: FileInfo[] = testFiles.map(
+    (file) =>
+      getFileInfo(file, BASE_WEIGHT, WEIGHT_PER_TEST, GREP_TAGS) ?? {
+        file,
+        weight: BASE_WEIGHT,
+      }
+  );
+  const astFilesInfo = GREP_TAGS
+    ? parsedFilesInfo.filter((info) => info.tests !== 0)
+    : parsedFilesInfo;
+  if (GREP_TAGS) {
+    log(
+      `GREP_TAGS "${GREP_TAGS}": ${astFilesInfo.length} of ${parsedFilesInfo.length} test file(s) have matching tests.`,
+      { type: 'info' }
+    );
+  }
+  // Without history for any spec, e.g. on a first run, weights stay test counts
+  const timed =
+    TIMINGS &&
+    astFilesInfo.some(
+      (info) => getAverageDuration(timings, info.file) !== undefined
+    );
+  const weightedFiles: FileInfo[] = TIMINGS
+    ? applyTimingWeights(astFilesInfo, timings)
+    : astFilesInfo;
+  // Units of a split spec are planned like spec files, across shards too
+  const allFiles =
+    SPLIT_TESTS > 0
+      ? splitSpecs(weightedFiles, SPLIT_TESTS, GREP_TAGS)
+      : weightedFiles;
+  const files = selectShard(allFiles, SHARD_INDEX, SHARD_TOTAL);
+  const shard = {
+    index: SHARD_INDEX,
+    total: SHARD_TOTAL,
+    totalFiles: allFiles.length,
+  };
+
+  if (POLL) {
+    return {
+      mode: 'polling',
+      workers: Math.min(WORKERS, files.length),
+      files,
+      buckets: [],
+      shard,
+      timed,
+    };
+  }
+
+  const weights = new Map(files.map((info) => [info.file, info.weight]));
+  const buckets = getFileBucketsCustom(WORKERS, [...files]).map(
+    (bucket, index) => {
+      const bucketFiles = bucket.map((file) => ({
+        file,
+        weight: weights.get(file) ?? 0,
+      }));
+      return {
+        index,
+        files: bucketFiles,
+        weight: bucketFiles.reduce((acc, info) => acc + info.weight, 0),
+      };
+    }
+  );
+
+  return {
+    mode: 'weighted',
+    workers: buckets.filter((bucket) => bucket.files.length > 0).length,
+    files,
+    buckets,
+    shard,
+    timed,
+  };
+}
+
+/**
+ * Computes the timeout of each spec file from SPEC_TIMEOUT.
+ * With timing history, weights are expected durations in seconds, so a spec may
+ * run SPEC_TIMEOUT_FACTOR times its expected duration. Without history, heavier
+ * specs get proportionally more than SPEC_TIMEOUT, relative to the average weight.
+ * @param {FileInfo[]} files - The weighted files of the plan.
+ * @param {boolean} timed - Whether the weights are seconds, see RunPlan.timed.
+ * @returns {Map<string, number>} - Timeout per file in milliseconds, or an empty map when disabled.
+ */
+export function getSpecTimeouts(
+  files: FileInfo[],
+  timed: boolean
+): Map<string, number> {
+  const { SPEC_TIMEOUT, SPEC_TIMEOUT_FACTOR } = getConfig();
+  const timeouts = new Map<string, number>();
+  if (SPEC_TIMEOUT === 0 || files.length === 0) {
+    return timeouts;
+  }
+
+  const averageWeight =
+    files.reduce((acc, info) => acc + info.weight, 0) / files.length;
+  files.forEach((info) => {
+    const seconds = timed
+      ? Math.max(SPEC_TIMEOUT, info.weight * SPEC_TIMEOUT_FACTOR)
+      : SPEC_TIMEOUT * Math.max(1, info.weight / (averageWeight || 1));
+    timeouts.set(info.file, Math.round(seconds * 1000));
+  });
+  return timeouts;
+}
+
+/**
+ * Discovers and weighs test files and plans their distribution without running Cypress.
+ * @param {RunOptions} options - Configuration overrides, same keys as Config.
+ * @returns {RunPlan} - The plan a run with the same options would follow.
+ */
+export function planParallel(options: RunOptions = {}): RunPlan {
+  const previousOverrides = setConfigOverrides(options);
+  try {
+    const { TIMINGS, TIMINGS_FILE } = getConfig();
+    const testFiles: string[] = discoverTestFiles();
+    const timings = TIMINGS ? loadTimings(TIMINGS_FILE) : createTimings();
+    return buildRunPlan(testFiles, timings);
+  } finally {
+    setConfigOverrides(previousOverrides);
+  }
+}
+
+export type PlanFormat = 'text' | 'json';
+
+export const PLAN_FORMATS: PlanFormat[] = ['text', 'json'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Computes how much heavier the heaviest bucket is than an even split.
+ * @param {RunPlan} plan - The plan.
+ * @returns {number} - The percentage above the average bucket weight; 0 in Polling Mode.
+ */
+export function getPlanImbalance(plan: RunPlan): number {
+  const weights = plan.buckets
+    .filter((bucket) => bucket.files.length > 0)
+    .map((bucket) => bucket.weight);
+  const total = weights.reduce((acc, weight) => acc + weight, 0);
+  if (weights.length === 0 || total === 0) {
+    return 0;
+  }
+  const average = total / weights.length;
+  return round(((Math.max(...weights) - average) / average) * 100);
+}
+
+/**
+ * Formats a run plan as human-readable text: a summary table of the buckets,
+ * then the specs of every bucket. Specs are shown relative to the current directory.
+ * @param {RunPlan} plan - The plan to format.
+ * @returns {string} - One section per bucket, or the queue in Polling Mode.
+ */
+export function formatPlan(plan: RunPlan): string {
+  const totalWeight = round(
+    plan.files.reduce((acc, info) => acc + info.weight, 0)
+  );
+  const shardLine =
+    plan.shard.total > 1
+      ? [
+          `Shard ${plan.shard.index}/${plan.shard.total}: ${plan.files.length} of ${plan.shard.totalFiles} test file(s).`,
+        ]
+      : [];
+
+  if (plan.mode === 'polling') {
+    return [
+      ...shardLine,
+      `Polling Mode: ${plan.workers} worker(s) sharing a queue of ${plan.files.length} test file(s), total weight: ${totalWeight}.`,
+      ...plan.files.map(
+        (info) => `  - ${getSpecKey(info.file)} (${round(info.weight)})`
+      ),
+    ].join('\n');
+  }
+
+  const buckets = plan.buckets.filter((bucket) => bucket.files.length > 0);
+  const share = (weight: number) =>
+    totalWeight > 0 ? `${round((weight / totalWeight) * 100)}%` : '-';
+  return [
+    ...shardLine,
+    `Weighted Bucketing Mode: ${plan.files.length} test file(s) in ${plan.workers} bucket(s), total weight: ${totalWeight}, imbalance: ${getPlanImbalance(plan)}%.`,
+    '',
+    ...formatTable([
+      ['Bucket', 'Files', 'Weight', 'Share'],
+      ...buckets.map((bucket) => [
+        `${bucket.index + 1}`,
+        `${bucket.files.length}`,
+        `${round(bucket.weight)}`,
+        share(bucket.weight),
+      ]),
+    ]),
+    ...buckets.map((bucket) =>
+      [
+        '',
+        `Bucket ${bucket.index + 1}: ${bucket.files.length} test file(s), weight: ${round(bucket.weight)}`,
+        ...bucket.files.map(
+          (info) => `  - ${getSpecKey(info.file)} (${round(info.weight)})`
+        ),
+      ].join('\n')
+    ),
+  ].join('\n');
+}
+
+/**
+ * Formats a run plan as JSON, e.g. to diff plans in code review.
+ * @param {RunPlan} plan - The plan to format.
+ * @returns {string} - The JSON document.
+ */
+export function formatPlanJson(plan: RunPlan): string {
+  const totalWeight = plan.files.reduce((acc, info) => acc + info.weight, 0);
+  const toSpec = (info: FileInfo) => ({
+    spec: getSpecKey(info.file),
+    weight: round(info.weight),
+  });
+  const json = {
+    mode: plan.mode,
+    workers: plan.workers,
+    shard: plan.shard,
+    files: plan.files.length,
+    totalWeight: round(totalWeight),
+    imbalance: getPlanImbalance(plan),
+    buckets: plan.buckets
+      .filter((bucket) => bucket.files.length > 0)
+      .map((bucket) => ({
+        bucket: bucket.index + 1,
+        weight: round(bucket.weight),
+        share: totalWeight > 0 ? round((bucket.weight / totalWeight) * 100) : 0,
+        specs: bucket.files.map(toSpec),
+      })),
+    // The shared queue in Polling Mode
+    queue: plan.mode === 'polling' ? plan.files.map(toSpec) : [],
+  };
+  return JSON.stringify(json, null, 2);
+}
+
+/**
+ * Plans a run and formats it in PLAN_FORMAT, for the plan command.
+ * Log lines are left out, so the output can be redirected or parsed as is.
+ * @param {RunOptions} options - Configuration overrides, same keys as Config.
+ * @returns {string} - The formatted plan.
+ */
+export function renderPlan(options: RunOptions = {}): string {
+  const previousOverrides = setConfigOverrides(options);
+  let format: PlanFormat;
+  try {
+    format = getConfig().PLAN_FORMAT as PlanFormat;
+  } finally {
+    setConfigOverrides(previousOverrides);
+  }
+  if (!PLAN_FORMATS.includes(format)) {
+    throw new Error(
+      `Invalid PLAN_FORMAT "${format}": use one of ${PLAN_FORMATS.join(', ')}.`
+    );
+  }
+
+  const plan = planParallel({ ...options, VERBOSE: false });
+  return format === 'json' ? formatPlanJson(plan) : formatPlan(plan);
+}
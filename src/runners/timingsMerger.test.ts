@@ -0,0 +1,71 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mergeTimingsFiles } from './timingsMerger';
+
+jest.mock('../utils/logging', () => ({
+  log: jest.fn(),
+}));
+
+describe('mergeTimingsFiles', () => {
+  let tmpDir: string;
+  const writeTimings = (name: string, specs: Record<string, number[]>) => {
+    const file = path.join(tmpDir, name);
+    const entries = Object.entries(specs).map(([spec, durations]) => [
+      spec,
+      { durations },
+    ]);
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ version: 1, specs: Object.fromEntries(entries) })
+    );
+    return file;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should add the shards' durations to TIMINGS_FILE", () => {
+    const timingsFile = writeTimings('timings.json', {
+      'a.cy.ts': [1000, 2000],
+      'c.cy.ts': [5000],
+    });
+    const shards = [
+      writeTimings('timings.shard-1.json', { 'a.cy.ts': [3000] }),
+      writeTimings('timings.shard-2.json', { 'b.cy.ts': [4000] }),
+    ];
+
+    mergeTimingsFiles(shards, {
+      TIMINGS_FILE: timingsFile,
+      TIMINGS_HISTORY: 2,
+    });
+
+    expect(JSON.parse(fs.readFileSync(timingsFile, 'utf8'))).toEqual({
+      version: 1,
+      specs: {
+        'a.cy.ts': { durations: [2000, 3000] },
+        'b.cy.ts': { durations: [4000] },
+        'c.cy.ts': { durations: [5000] },
+      },
+    });
+  });
+
+  it('should create TIMINGS_FILE from the shards on the first run', () => {
+    const timingsFile = path.join(tmpDir, 'timings.json');
+    const shard = writeTimings('timings.shard-1.json', { 'a.cy.ts': [3000] });
+
+    const timings = mergeTimingsFiles([shard], { TIMINGS_FILE: timingsFile });
+
+    expect(timings.specs).toEqual({ 'a.cy.ts': { durations: [3000] } });
+    expect(fs.existsSync(timingsFile)).toBe(true);
+  });
+
+  it('should reject without files to merge', () => {
+    expect(() => mergeTimingsFiles([])).toThrow('No timings files to merge.');
+  });
+});
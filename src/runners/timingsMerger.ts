@@ -0,0 +1,31 @@
+// src/runners/timingsMerger.ts
+import { RunOptions, TimingsData } from '../types';
+import { getConfig, setConfigOverrides } from '../utils/envUtils';
+import { loadTimings, mergeTimings, saveTimings } from '../utils/timingUtils';
+
+/**
+ * Merges the timings recorded by the shards of a run into TIMINGS_FILE, so the
+ * next run plans every shard from the same history.
+ * @param {string[]} files - The timings files written by the shards.
+ * @param {RunOptions} [options] - Settings that take precedence over the environment.
+ * @returns {TimingsData} - The merged timings, as saved to TIMINGS_FILE.
+ */
+export function mergeTimingsFiles(
+  files: string[],
+  options: RunOptions = {}
+): TimingsData {
+  if (files.length === 0) {
+    throw new Error('No timings files to merge.');
+  }
+
+  const previousOverrides = setConfigOverrides(options);
+  try {
+    const { TIMINGS_FILE, TIMINGS_HISTORY } = getConfig();
+    const timings = loadTimings(TIMINGS_FILE);
+    mergeTimings(timings, files.map(loadTimings), TIMINGS_HISTORY);
+    saveTimings(TIMINGS_FILE, timings);
+    return timings;
+  } finally {
+    setConfigOverrides(previousOverrides);
+  }
+}
@@ -1,10 +1,61 @@
+export type CypressBackend = 'command' | 'module';
+
+export interface CypressTestResult {
+  // The describe and it titles, outermost first
+  title: string[];
+  state: string;
+  duration: number;
+  // The error as Cypress prints it, for failed tests
+  error?: string;
+}
+
+// Results of one spec, as reported by the Cypress Module API
+export interface CypressSpecRun {
+  spec: string;
+  tests: number;
+  passes: number;
+  failures: number;
+  pending: number;
+  skipped: number;
+  duration: number;
+  // Set when the spec could not run, e.g. because of an error outside a test
+  error?: string;
+  testResults: CypressTestResult[];
+  screenshots: string[];
+  video?: string;
+}
+
 export interface CypressResult {
   status: 'fulfilled' | 'rejected';
   index: number;
   code?: number;
+  // Set when the process was killed by a spec or idle timeout
+  timedOut?: boolean;
+  // Per-spec results, only with the module backend
+  runs?: CypressSpecRun[];
+  // The number of failed tests, only with the module backend
+  failedTests?: number;
+}
+
+// A part of a spec file run on its own, its tests selected by title
+export interface SpecUnit {
+  // The spec file the unit belongs to
+  spec: string;
+  // 1-based
+  index: number;
+  total: number;
+  // Full titles of the unit's tests
+  titles: string[];
 }
 
 export interface FileInfo {
+  // The spec file, or the key of a unit when the spec is split
   file: string;
   weight: number;
+  // Tests matching GREP_TAGS, only set when filtering by tags
+  tests?: number;
+  // Share of the file's active tests that run: those matching GREP_TAGS, or those of a unit
+  share?: number;
+  // Set when SPLIT_TESTS split the spec file
+  unit?: SpecUnit;
 }
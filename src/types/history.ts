@@ -0,0 +1,35 @@
+// A spec whose failures don't fail the run, from QUARANTINE_FILE
+export interface QuarantineEntry {
+  // Relative to the current directory, like the keys of the timings file
+  spec: string;
+  reason: string;
+  // Last day of the quarantine, YYYY-MM-DD; never expires without it
+  expires?: string;
+}
+
+// What became of a spec in one run; cancelled specs are not recorded
+export type HistoryOutcome = 'passed' | 'failed' | 'flaky';
+
+export interface HistoryRun {
+  // The HEAD commit, when the run started in a git repository
+  commit?: string;
+  startedAt: number;
+  specs: Record<string, HistoryOutcome>;
+}
+
+export interface HistoryData {
+  version: number;
+  // Oldest first
+  runs: HistoryRun[];
+}
+
+export interface FlakySpec {
+  spec: string;
+  // Commits (or runs outside git) the spec ran on
+  commits: number;
+  // Commits on which it both passed and failed, in one run or across runs
+  flakyCommits: number;
+  // flakyCommits / commits
+  score: number;
+  quarantined: boolean;
+}
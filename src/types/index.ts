@@ -1 +1,4 @@
 export * from './cypress';
+export * from './history';
+export * from './run';
+export * from './timings';
@@ -0,0 +1,105 @@
+import { Config } from '../utils/envUtils';
+import { CypressResult, CypressSpecRun, FileInfo } from './cypress';
+import { FlakySpec, QuarantineEntry } from './history';
+
+export type RunOptions = Partial<Config>;
+
+export interface RunControl {
+  // Aborting interrupts the run: running specs are stopped and no new ones start.
+  // A signal name as the abort reason (e.g. 'SIGINT') is forwarded to Cypress.
+  signal?: AbortSignal;
+}
+
+export type RunMode = 'weighted' | 'polling';
+
+// 'timed-out': killed by a spec, idle or run timeout
+// 'cancelled': the spec was running when fail-fast or an interruption stopped the run
+export type SpecStatus =
+  | 'passed'
+  | 'flaky'
+  | 'failed'
+  | 'timed-out'
+  | 'cancelled';
+
+export interface SpecAttempt {
+  workerIndex: number;
+  status: 'passed' | 'failed' | 'timed-out' | 'cancelled';
+  code?: number;
+  duration: number;
+  // The attempt's Cypress output, when OUTPUT_DIR is set
+  logFile?: string;
+  // Test results of the attempt, with the module backend
+  run?: CypressSpecRun;
+  // The unit the attempt ran, when SPLIT_TESTS split the spec
+  unit?: number;
+}
+
+export interface SpecResult {
+  spec: string;
+  // workerIndex and code refer to the last attempt
+  workerIndex: number;
+  status: SpecStatus;
+  code?: number;
+  // Total duration of all attempts, in milliseconds
+  duration: number;
+  attempts: SpecAttempt[];
+  // Set when the spec is quarantined: its failure doesn't fail the run
+  quarantine?: QuarantineEntry;
+}
+
+export type CypressReporter = 'mochawesome' | 'junit';
+
+export interface MergedReport {
+  reporter: CypressReporter;
+  // The merged report, e.g. cypress/reports/mochawesome.json
+  file: string;
+  htmlFile?: string;
+  // Specs that ran but left no report
+  missing: string[];
+}
+
+// Why a run was stopped before all specs were run
+export type StopReason = 'fail-fast' | 'deadline' | 'interrupted';
+
+export interface RunSummary {
+  status: 'passed' | 'failed' | 'interrupted';
+  exitCode: number;
+  mode: RunMode;
+  // When the run started, in milliseconds since the epoch
+  startedAt: number;
+  duration: number;
+  stopReason?: StopReason;
+  workers: CypressResult[];
+  specs: SpecResult[];
+  // Specs that were never started because the run was stopped early
+  notRun: string[];
+  // The merged Cypress report, when REPORTER is set
+  report?: MergedReport;
+  // Specs that both passed and failed on a commit, from HISTORY_FILE, most flaky first
+  flakySpecs?: FlakySpec[];
+}
+
+export interface PlannedBucket {
+  index: number;
+  files: FileInfo[];
+  weight: number;
+}
+
+export interface PlannedShard {
+  // 1-based, like SHARD_INDEX
+  index: number;
+  total: number;
+  // Number of spec files across all shards
+  totalFiles: number;
+}
+
+export interface RunPlan {
+  mode: RunMode;
+  workers: number;
+  // The files run by this machine, i.e. only this shard's files when sharding
+  files: FileInfo[];
+  buckets: PlannedBucket[];
+  shard: PlannedShard;
+  // Whether timing history was applied, making the weights seconds
+  timed: boolean;
+}
@@ -0,0 +1,8 @@
+export interface SpecTimings {
+  durations: number[];
+}
+
+export interface TimingsData {
+  version: number;
+  specs: Record<string, SpecTimings>;
+}
@@ -0,0 +1,49 @@
+import { getFileBucketsCustom } from './bucketUtils';
+import { FileInfo } from '../types';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+describe('getFileBucketsCustom', () => {
+  it('should balance the total weight of each bucket', () => {
+    const filesInfo: FileInfo[] = [
+      { file: 'a.cy.ts', weight: 5 },
+      { file: 'b.cy.ts', weight: 4 },
+      { file: 'c.cy.ts', weight: 3 },
+      { file: 'd.cy.ts', weight: 2 },
+    ];
+
+    const result = getFileBucketsCustom(2, filesInfo);
+
+    expect(result).toEqual([
+      ['a.cy.ts', 'd.cy.ts'],
+      ['b.cy.ts', 'c.cy.ts'],
+    ]);
+  });
+
+  it('should break weight ties by relative path, independent of input order', () => {
+    const files = ['d.cy.ts', 'b.cy.ts', 'a.cy.ts', 'c.cy.ts'];
+    const toInfo = (file: string): FileInfo => ({ file, weight: 1 });
+
+    const result = getFileBucketsCustom(2, files.map(toInfo));
+
+    expect(result).toEqual([
+      ['a.cy.ts', 'c.cy.ts'],
+      ['b.cy.ts', 'd.cy.ts'],
+    ]);
+    expect(getFileBucketsCustom(2, [...files].reverse().map(toInfo))).toEqual(
+      result
+    );
+  });
+
+  it('should leave buckets empty when there are more buckets than files', () => {
+    const filesInfo: FileInfo[] = [{ file: 'a.cy.ts', weight: 1 }];
+
+    expect(getFileBucketsCustom(3, filesInfo)).toEqual([['a.cy.ts'], [], []]);
+  });
+
+  it('should return an empty array when filesInfo is not an array', () => {
+    expect(getFileBucketsCustom(2, null as unknown as FileInfo[])).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+// src/utils/bucketUtils.ts
+import { FileInfo } from '../types';
+import { log } from './logging';
+import { getSpecKey } from './timingUtils';
+
+/**
+ * Distributes test files into buckets to balance the total weight of each bucket.
+ * The result only depends on the weights and the cwd-relative file paths, so
+ * identical inputs produce the same buckets on every machine.
+ * @param {number} bucketsCount - The number of buckets to distribute files into.
+ * @param {FileInfo[]} filesInfo - Array of file information with weights.
+ * @param {string} [label='Bucket'] - Name of a bucket in the logged distribution.
+ * @returns {string[][]} - An array of buckets containing file paths.
+ */
+export function getFileBucketsCustom(
+  bucketsCount: number,
+  filesInfo: FileInfo[],
+  label: string = 'Bucket'
+): string[][] {
+  if (!Array.isArray(filesInfo)) {
+    log('Error: filesInfo is not an array.', { type: 'error' });
+    return [];
+  }
+
+  log(`Total Test Files Found: ${filesInfo.length}`, { type: 'info' });
+
+  // Sort files by descending weight (heaviest first), ties by relative path.
+  // Plain string comparison keeps the order independent of the machine's locale.
+  const sortedFiles = filesInfo.sort((a, b) => {
+    const keyA = getSpecKey(a.file);
+    const keyB = getSpecKey(b.file);
+    return b.weight - a.weight || (keyA < keyB ? -1 : keyA > keyB ? 1 : 0);
+  });
+
+  // Initialize buckets
+  const buckets = Array.from({ length: bucketsCount }, () => [] as string[]);
+  const bucketWeights = Array(bucketsCount).fill(0);
+
+  // Distribute files into buckets to balance total weights
+  for (const fileInfo of sortedFiles) {
+    // Find the bucket with the least total weight
+    let minIndex = 0;
+    for (let i = 1; i < bucketsCount; i++) {
+      if (bucketWeights[i] < bucketWeights[minIndex]) {
+        minIndex = i;
+      }
+    }
+
+    buckets[minIndex].push(fileInfo.file);
+    bucketWeights[minIndex] += fileInfo.weight;
+  }
+
+  // Log the distribution
+  buckets.forEach((bucket, idx) => {
+    const totalWeight = bucket.reduce(
+      (acc, file) =>
+        acc + (filesInfo.find((f) => f.file === file)?.weight || 0),
+      0
+    );
+    log(
+      `${label} ${idx + 1}: ${bucket.length} test file(s), weight: ${totalWeight}`,
+      {
+        type: 'info',
+      }
+    );
+    bucket.forEach((test) => log(`  - ${test}`, { type: 'info' }));
+  });
+
+  return buckets;
+}
@@ -0,0 +1,176 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createDependencyGraph,
+  getChangedFiles,
+  getFileImports,
+  selectChangedSpecs,
+} from './changedUtils';
+import { log } from './logging';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+const GLOBAL_FILES = 'cypress/support/e2e.*,./package.json';
+
+describe('changedUtils', () => {
+  let projectDir: string;
+
+  const write = (file: string, contents: string) => {
+    const fullPath = path.join(projectDir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, contents);
+  };
+  const git = (...args: string[]) =>
+    execFileSync(
+      'git',
+      ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+      { cwd: projectDir, stdio: 'ignore' }
+    );
+  const abs = (file: string) => path.join(projectDir, file);
+  const exists = (file: string) =>
+    fs.existsSync(file) && fs.statSync(file).isFile();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    projectDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-changed-'))
+    );
+    write('package.json', '{}');
+    write(
+      'cypress/support/e2e.ts',
+      "import './commands';\nimport 'cypress-plugin';"
+    );
+    write('cypress/support/commands.ts', 'export {};');
+    write('cypress/pages/login.ts', "export * from './base';");
+    write('cypress/pages/base.ts', 'export const base = 1;');
+    write('cypress/fixtures/user.json', '{}');
+    write(
+      'cypress/e2e/login.cy.ts',
+      "import { base } from '../pages/login';\nit('logs in', () => cy.fixture('user'));"
+    );
+    write(
+      'cypress/e2e/cart.cy.js',
+      "const { helper } = require('./helpers');\nit('adds', () => {});"
+    );
+    write('cypress/e2e/helpers/index.js', 'module.exports = {};');
+    git('init', '-q', '-b', 'main');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'initial');
+    git('checkout', '-q', '-b', 'feature');
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  const specs = () => [
+    abs('cypress/e2e/login.cy.ts'),
+    abs('cypress/e2e/cart.cy.js'),
+  ];
+
+  describe('getFileImports', () => {
+    it('should resolve relative imports, requires and fixtures', () => {
+      expect(
+        getFileImports(abs('cypress/e2e/login.cy.ts'), projectDir, exists)
+      ).toEqual([
+        abs('cypress/pages/login.ts'),
+        abs('cypress/fixtures/user.json'),
+      ]);
+      expect(
+        getFileImports(abs('cypress/e2e/cart.cy.js'), projectDir, exists)
+      ).toEqual([abs('cypress/e2e/helpers/index.js')]);
+    });
+  });
+
+  describe('createDependencyGraph', () => {
+    it('should follow imports transitively', () => {
+      const getDependencies = createDependencyGraph(projectDir, exists);
+
+      expect([...getDependencies(abs('cypress/e2e/login.cy.ts'))]).toEqual(
+        expect.arrayContaining([
+          abs('cypress/e2e/login.cy.ts'),
+          abs('cypress/pages/login.ts'),
+          abs('cypress/pages/base.ts'),
+          abs('cypress/fixtures/user.json'),
+        ])
+      );
+    });
+  });
+
+  describe('getChangedFiles', () => {
+    it('should list committed, uncommitted and untracked changes', () => {
+      write('cypress/pages/base.ts', 'export const base = 2;');
+      git('commit', '-q', '-am', 'change');
+      write('cypress/fixtures/user.json', '{ "name": "a" }');
+      write('cypress/e2e/new.cy.ts', '');
+
+      expect(getChangedFiles('main', projectDir).sort()).toEqual(
+        [
+          abs('cypress/pages/base.ts'),
+          abs('cypress/fixtures/user.json'),
+          abs('cypress/e2e/new.cy.ts'),
+        ].sort()
+      );
+    });
+  });
+
+  describe('selectChangedSpecs', () => {
+    it('should keep the specs depending on a changed file', () => {
+      write('cypress/pages/base.ts', 'export const base = 2;');
+
+      expect(
+        selectChangedSpecs(specs(), 'main', GLOBAL_FILES, projectDir)
+      ).toEqual([abs('cypress/e2e/login.cy.ts')]);
+      expect(log).toHaveBeenCalledWith(
+        'Running 1 of 2 spec file(s) affected by the changes since main.',
+        { type: 'info' }
+      );
+    });
+
+    it('should keep the specs that imported a deleted file', () => {
+      fs.rmSync(abs('cypress/e2e/helpers/index.js'));
+
+      expect(
+        selectChangedSpecs(specs(), 'main', GLOBAL_FILES, projectDir)
+      ).toEqual([abs('cypress/e2e/cart.cy.js')]);
+    });
+
+    it('should keep every spec when a file imported by a global file changed', () => {
+      write('cypress/support/commands.ts', 'export const a = 1;');
+
+      expect(
+        selectChangedSpecs(specs(), 'main', GLOBAL_FILES, projectDir)
+      ).toEqual(specs());
+      expect(log).toHaveBeenCalledWith(
+        expect.stringContaining(
+          `${path.join('cypress', 'support', 'commands.ts')} changed and affects every spec`
+        ),
+        { type: 'info' }
+      );
+    });
+
+    it('should keep no spec when nothing relevant changed', () => {
+      write('README.md', 'docs');
+
+      expect(
+        selectChangedSpecs(specs(), 'main', GLOBAL_FILES, projectDir)
+      ).toEqual([]);
+    });
+
+    it('should keep every spec when git cannot compute the changes', () => {
+      expect(
+        selectChangedSpecs(specs(), 'missing-ref', GLOBAL_FILES, projectDir)
+      ).toEqual(specs());
+      expect(log).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Could not compute the changes since missing-ref, running all 2 spec file(s)'
+        ),
+        { type: 'error' }
+      );
+    });
+  });
+});
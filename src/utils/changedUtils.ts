@@ -0,0 +1,249 @@
+// src/utils/changedUtils.ts
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { log } from './logging';
+import { matchesGlob, splitPatterns } from './globUtils';
+import { isCallTo } from './isCallTo';
+
+// Files parsed for imports; other dependencies (fixtures, JSON) are leaves
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Tried in order when an import or fixture has no extension
+const RESOLVE_EXTENSIONS = ['', ...SOURCE_EXTENSIONS, '.json'];
+
+// Cypress's default fixturesFolder, relative to the project
+const FIXTURES_FOLDER = 'cypress/fixtures';
+
+/**
+ * Runs git and returns its trimmed output lines.
+ * @param {string[]} args - The git arguments.
+ * @param {string} cwd - The directory to run git in.
+ * @returns {string[]} - The non-empty output lines.
+ */
+function git(args: string[], cwd: string): string[] {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+  })
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Reads the commit checked out in the current directory.
+ * @returns {string | undefined} - The HEAD commit hash, or undefined outside a git repository.
+ */
+export function getHeadCommit(): string | undefined {
+  try {
+    return git(['rev-parse', 'HEAD'], process.cwd())[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lists the files changed since the merge base of a ref and HEAD: committed,
+ * staged and unstaged changes to tracked files, deleted files and untracked files.
+ * @param {string} baseRef - The git ref to compare with, e.g. `origin/main`.
+ * @param {string} [cwd] - A directory inside the repository.
+ * @returns {string[]} - The absolute paths of the changed files.
+ */
+export function getChangedFiles(
+  baseRef: string,
+  cwd: string = process.cwd()
+): string[] {
+  const [root] = git(['rev-parse', '--show-toplevel'], cwd);
+  const [base] = git(['merge-base', baseRef, 'HEAD'], cwd);
+  const changed = [
+    ...git(['diff', '--name-only', base], root),
+    ...git(['ls-files', '--others', '--exclude-standard'], root),
+  ];
+  return [...new Set(changed.map((file) => path.resolve(root, file)))];
+}
+
+/**
+ * Resolves a file the way Node and bundlers do: as is, with an extension, or
+ * as a directory index.
+ * @param {string} target - The absolute path without or with extension.
+ * @param {(file: string) => boolean} exists - Whether a file exists.
+ * @returns {string | undefined} - The resolved file.
+ */
+function resolveFile(
+  target: string,
+  exists: (file: string) => boolean
+): string | undefined {
+  const candidates = [
+    ...RESOLVE_EXTENSIONS.map((extension) => `${target}${extension}`),
+    ...RESOLVE_EXTENSIONS.slice(1).map((extension) =>
+      path.join(target, `index${extension}`)
+    ),
+  ];
+  return candidates.find(exists);
+}
+
+/**
+ * Lists the project files a file depends on directly: relative `import`,
+ * `export ... from`, `require()` and `import()` targets, and `cy.fixture()` files.
+ * Imports of packages are ignored.
+ * @param {string} file - The absolute path of the file.
+ * @param {string} projectDir - The directory containing the fixtures folder.
+ * @param {(file: string) => boolean} exists - Whether a file exists.
+ * @returns {string[]} - The absolute paths of the dependencies.
+ */
+export function getFileImports(
+  file: string,
+  projectDir: string,
+  exists: (file: string) => boolean
+): string[] {
+  if (!SOURCE_EXTENSIONS.includes(path.extname(file))) {
+    return [];
+  }
+  const sourceFile = ts.createSourceFile(
+    file,
+    fs.readFileSync(file, 'utf8'),
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const targets: string[] = [];
+  const addModule = (specifier: ts.Node | undefined) => {
+    if (
+      specifier &&
+      ts.isStringLiteralLike(specifier) &&
+      specifier.text.startsWith('.')
+    ) {
+      targets.push(path.resolve(path.dirname(file), specifier.text));
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+      addModule(node.moduleSpecifier);
+    } else if (ts.isCallExpression(node)) {
+      if (
+        isCallTo(node, null, 'require') ||
+        node.expression.kind === ts.SyntaxKind.ImportKeyword
+      ) {
+        addModule(node.arguments[0]);
+      } else if (isCallTo(node, 'cy', 'fixture')) {
+        const [name] = node.arguments;
+        if (name && ts.isStringLiteralLike(name)) {
+          targets.push(path.resolve(projectDir, FIXTURES_FOLDER, name.text));
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return targets
+    .map((target) => resolveFile(target, exists))
+    .filter((target): target is string => target !== undefined);
+}
+
+/**
+ * Creates a function returning all files a file transitively depends on,
+ * including itself. Results are cached, so shared page objects are parsed once.
+ * @param {string} projectDir - The directory containing the fixtures folder.
+ * @param {(file: string) => boolean} exists - Whether a file exists.
+ * @returns {(file: string) => Set<string>} - The dependency lookup.
+ */
+export function createDependencyGraph(
+  projectDir: string,
+  exists: (file: string) => boolean
+): (file: string) => Set<string> {
+  const imports = new Map<string, string[]>();
+  const getImports = (file: string): string[] => {
+    if (!imports.has(file)) {
+      let found: string[] = [];
+      try {
+        found = getFileImports(file, projectDir, exists);
+      } catch {
+        // Deleted or unreadable files have no dependencies of their own
+      }
+      imports.set(file, found);
+    }
+    return imports.get(file) as string[];
+  };
+
+  return (file: string) => {
+    const seen = new Set<string>([file]);
+    const pending = [file];
+    while (pending.length > 0) {
+      getImports(pending.pop() as string).forEach((dependency) => {
+        if (!seen.has(dependency)) {
+          seen.add(dependency);
+          pending.push(dependency);
+        }
+      });
+    }
+    return seen;
+  };
+}
+
+/**
+ * Keeps the specs that depend, directly or through imports and fixtures, on a
+ * file changed since a git ref. All specs are kept when a global file (one
+ * matching GLOBAL_FILES, like the support file, or a file it imports) changed,
+ * or when git can't compute the changes.
+ * @param {string[]} specs - The absolute paths of the spec files.
+ * @param {string} baseRef - CHANGED_SINCE, the git ref to compare with.
+ * @param {string} globalFiles - GLOBAL_FILES, comma-separated globs relative to the current directory.
+ * @param {string} [cwd] - The project directory.
+ * @returns {string[]} - The affected specs, in their original order.
+ */
+export function selectChangedSpecs(
+  specs: string[],
+  baseRef: string,
+  globalFiles: string,
+  cwd: string = process.cwd()
+): string[] {
+  let changedFiles: string[];
+  let trackedFiles: string[];
+  try {
+    changedFiles = getChangedFiles(baseRef, cwd);
+    trackedFiles = git(['ls-files'], cwd).map((file) =>
+      path.resolve(cwd, file)
+    );
+  } catch (error) {
+    log(
+      `Could not compute the changes since ${baseRef}, running all ${specs.length} spec file(s): ${error}`,
+      { type: 'error' }
+    );
+    return specs;
+  }
+
+  const changed = new Set(changedFiles);
+  log(`${changed.size} file(s) changed since ${baseRef}.`, { type: 'info' });
+  // Deleted files still resolve, so the specs that imported them are affected
+  const exists = (file: string) =>
+    changed.has(file) || (fs.existsSync(file) && fs.statSync(file).isFile());
+  const getDependencies = createDependencyGraph(cwd, exists);
+  const isChanged = (file: string) =>
+    [...getDependencies(file)].find((dependency) => changed.has(dependency));
+
+  const patterns = splitPatterns(globalFiles);
+  const globalChange = [...trackedFiles, ...changedFiles]
+    .filter((file) =>
+      patterns.some((pattern) => matchesGlob(path.relative(cwd, file), pattern))
+    )
+    .map(isChanged)
+    .find((file) => file !== undefined);
+  if (globalChange) {
+    log(
+      `${path.relative(cwd, globalChange)} changed and affects every spec, running all ${specs.length} spec file(s).`,
+      { type: 'info' }
+    );
+    return specs;
+  }
+
+  const affected = specs.filter((spec) => isChanged(spec) !== undefined);
+  log(
+    `Running ${affected.length} of ${specs.length} spec file(s) affected by the changes since ${baseRef}.`,
+    { type: 'info' }
+  );
+  return affected;
+}
@@ -0,0 +1,113 @@
+import { formatHelp, parseCliArgs, toFlagName } from './cliUtils';
+import { CONFIG_OPTIONS } from './configOptions';
+
+describe('cliUtils', () => {
+  describe('parseCliArgs', () => {
+    it('should default to the run command without options', () => {
+      expect(parseCliArgs([])).toEqual({
+        command: 'run',
+        help: false,
+        version: false,
+        options: {},
+        files: [],
+      });
+    });
+
+    it('should parse subcommands', () => {
+      expect(parseCliArgs(['plan']).command).toBe('plan');
+      expect(parseCliArgs(['run']).command).toBe('run');
+    });
+
+    it('should collect the files of merge-timings', () => {
+      const args = parseCliArgs([
+        'merge-timings',
+        'timings.shard-1.json',
+        '--timings-file',
+        'timings.json',
+        'timings.shard-2.json',
+      ]);
+
+      expect(args.command).toBe('merge-timings');
+      expect(args.files).toEqual([
+        'timings.shard-1.json',
+        'timings.shard-2.json',
+      ]);
+      expect(args.options).toEqual({ TIMINGS_FILE: 'timings.json' });
+    });
+
+    it('should parse string and number flags in both forms', () => {
+      const { options } = parseCliArgs([
+        '--dir',
+        'tests/e2e',
+        '--command=yarn cypress run',
+        '--workers',
+        '3',
+        '--weight-per-test=2',
+      ]);
+
+      expect(options).toEqual({
+        DIR: 'tests/e2e',
+        COMMAND: 'yarn cypress run',
+        WORKERS: 3,
+        WEIGHT_PER_TEST: 2,
+      });
+    });
+
+    it('should parse boolean flags, their negations and explicit values', () => {
+      const { options } = parseCliArgs([
+        '--poll',
+        '--no-verbose',
+        '--cypress-log=false',
+      ]);
+
+      expect(options).toEqual({
+        POLL: true,
+        VERBOSE: false,
+        CYPRESS_LOG: false,
+      });
+    });
+
+    it('should parse --help and --version with their short forms', () => {
+      expect(parseCliArgs(['-h']).help).toBe(true);
+      expect(parseCliArgs(['--help']).help).toBe(true);
+      expect(parseCliArgs(['-v']).version).toBe(true);
+      expect(parseCliArgs(['--version']).version).toBe(true);
+    });
+
+    it('should accept options before and after the subcommand', () => {
+      const args = parseCliArgs(['--poll', 'plan', '--workers', '2']);
+
+      expect(args.command).toBe('plan');
+      expect(args.options).toEqual({ POLL: true, WORKERS: 2 });
+    });
+
+    it.each([
+      [['--bogus'], 'Unknown option: --bogus'],
+      [['-w', '2'], 'Unknown option: -w'],
+      [['deploy'], 'Unknown command: deploy'],
+      [['toString'], 'Unknown command: toString'],
+      [['run', 'plan'], 'Unexpected argument: plan'],
+      [['--workers'], 'Option --workers requires a value.'],
+      [
+        ['--workers', 'four'],
+        'Invalid value for --workers: expected a number.',
+      ],
+      [['--poll=yes'], 'Invalid value for --poll: expected true or false.'],
+      [['--no-dir'], 'Unknown option: --no-dir'],
+    ])('should reject %j', (argv, message) => {
+      expect(() => parseCliArgs(argv)).toThrow(message);
+    });
+  });
+
+  describe('formatHelp', () => {
+    it('should list every option with its environment variable', () => {
+      const help = formatHelp();
+
+      CONFIG_OPTIONS.forEach((option) => {
+        expect(help).toContain(`--${toFlagName(option.key)}`);
+        expect(help).toContain(`(env: ${option.key})`);
+      });
+      expect(help).toContain('plan');
+    });
+  });
+});
@@ -0,0 +1,184 @@
+// src/utils/cliUtils.ts
+import { Config, ConfigOption, CONFIG_OPTIONS } from './configOptions';
+import { RunOptions } from '../types';
+
+export type CliCommand = 'run' | 'plan' | 'merge-timings';
+
+export interface CliArgs {
+  command: CliCommand;
+  help: boolean;
+  version: boolean;
+  options: RunOptions;
+  // Arguments after the command, the timings files for merge-timings
+  files: string[];
+}
+
+const COMMANDS: Record<CliCommand, string> = {
+  run: 'Run the Cypress specs in parallel (default)',
+  plan: 'Print how the specs would be distributed, without running Cypress',
+  'merge-timings':
+    'Merge the timings files written by the shards into TIMINGS_FILE',
+};
+
+/**
+ * Converts a configuration key into its command-line flag name.
+ * @param {keyof Config} key - The configuration key, e.g. WEIGHT_PER_TEST.
+ * @returns {string} - The flag name without dashes, e.g. weight-per-test.
+ */
+export function toFlagName(key: keyof Config): string {
+  return key.toLowerCase().replace(/_/g, '-');
+}
+
+/**
+ * Parses a flag value according to the option type.
+ * @param {ConfigOption} option - The option definition.
+ * @param {string} value - The raw value from the command line.
+ * @returns {string | number | boolean} - The parsed value.
+ */
+function parseOptionValue(
+  option: ConfigOption,
+  value: string
+): string | number | boolean {
+  const flag = `--${toFlagName(option.key)}`;
+
+  if (option.type === 'number') {
+    const parsed = Number(value);
+    if (value.trim() === '' || !Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`Invalid value for ${flag}: expected a number.`);
+    }
+    return parsed;
+  } else if (option.type === 'boolean') {
+    if (value !== 'true' && value !== 'false') {
+      throw new Error(`Invalid value for ${flag}: expected true or false.`);
+    }
+    return value === 'true';
+  }
+
+  return value;
+}
+
+/**
+ * Parses command-line arguments into a subcommand and configuration overrides.
+ * Supports --flag value, --flag=value, and --flag / --no-flag for boolean options.
+ * @param {string[]} argv - Arguments without the node executable and script path.
+ * @returns {CliArgs} - The parsed command, its files, help/version switches and options.
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    command: 'run',
+    help: false,
+    version: false,
+    options: {},
+    files: [],
+  };
+  const options = args.options as Record<string, string | number | boolean>;
+  let commandSeen = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-h' || arg === '--help') {
+      args.help = true;
+      continue;
+    }
+    if (arg === '-v' || arg === '--version') {
+      args.version = true;
+      continue;
+    }
+
+    if (!arg.startsWith('-')) {
+      if (commandSeen && args.command === 'merge-timings') {
+        args.files.push(arg);
+        continue;
+      }
+      if (commandSeen) {
+        throw new Error(`Unexpected argument: ${arg}`);
+      }
+      if (!Object.prototype.hasOwnProperty.call(COMMANDS, arg)) {
+        throw new Error(`Unknown command: ${arg}`);
+      }
+      args.command = arg as CliCommand;
+      commandSeen = true;
+      continue;
+    }
+
+    const body = arg.replace(/^--/, '');
+    const separator = body.indexOf('=');
+    const rawName = separator === -1 ? body : body.slice(0, separator);
+    const inlineValue =
+      separator === -1 ? undefined : body.slice(separator + 1);
+    const negated = rawName.startsWith('no-');
+    const name = negated ? rawName.slice(3) : rawName;
+    const option = CONFIG_OPTIONS.find(
+      (candidate) => toFlagName(candidate.key) === name
+    );
+
+    if (!arg.startsWith('--') || !option) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+
+    if (option.type === 'boolean') {
+      if (negated && inlineValue !== undefined) {
+        throw new Error(`Option --no-${name} does not take a value.`);
+      }
+      options[option.key] =
+        inlineValue === undefined
+          ? !negated
+          : parseOptionValue(option, inlineValue);
+      continue;
+    }
+
+    if (negated) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+
+    let value = inlineValue;
+    if (value === undefined) {
+      value = argv[i + 1];
+      i += 1;
+    }
+    if (value === undefined) {
+      throw new Error(`Option --${name} requires a value.`);
+    }
+    options[option.key] = parseOptionValue(option, value);
+  }
+
+  return args;
+}
+
+/**
+ * Builds the text printed by --help.
+ * @returns {string} - The usage, commands and options.
+ */
+export function formatHelp(): string {
+  const optionRows = CONFIG_OPTIONS.map((option) => {
+    const flag = `--${toFlagName(option.key)}`;
+    const usage =
+      option.type === 'boolean'
+        ? `${flag}, --no-${toFlagName(option.key)}`
+        : `${flag} <${option.type === 'number' ? 'n' : 'value'}>`;
+    return [usage, `${option.description} (env: ${option.key})`];
+  });
+  optionRows.push(['-h, --help', 'Show this help']);
+  optionRows.push(['-v, --version', 'Show the cy-parallel version']);
+
+  const commandRows = Object.entries(COMMANDS);
+  const width =
+    Math.max(...[...optionRows, ...commandRows].map(([left]) => left.length)) +
+    2;
+  const formatRows = (rows: string[][]) =>
+    rows.map(([left, right]) => `  ${left.padEnd(width)}${right}`).join('\n');
+
+  return [
+    'Usage: cy-parallel [command] [options]',
+    '       cy-parallel merge-timings <files...> [options]',
+    '',
+    'Commands:',
+    formatRows(commandRows),
+    '',
+    'Options:',
+    formatRows(optionRows),
+    '',
+    'Precedence: command-line flag > environment variable > config file > default.',
+  ].join('\n');
+}
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  clearConfigFileCache,
+  findConfigFile,
+  getFileConfig,
+  loadConfigFile,
+  validateConfigFile,
+} from './configFileUtils';
+
+describe('configFileUtils', () => {
+  let tmpDir: string;
+
+  const writeFile = (name: string, contents: string): string => {
+    const file = path.join(tmpDir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, contents);
+    return file;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-config-'))
+    );
+    clearConfigFileCache();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    it('should find a config file in a parent directory', () => {
+      const file = writeFile('cy-parallel.config.json', '{}');
+      const nested = path.join(tmpDir, 'packages', 'app');
+      fs.mkdirSync(nested, { recursive: true });
+
+      expect(findConfigFile(nested)).toBe(file);
+    });
+
+    it('should prefer the nearest config file', () => {
+      writeFile('cy-parallel.config.json', '{}');
+      const nearest = writeFile(
+        'app/cy-parallel.config.ts',
+        'export default {};'
+      );
+
+      expect(findConfigFile(path.join(tmpDir, 'app'))).toBe(nearest);
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should load a JSON config file', () => {
+      const file = writeFile(
+        'cy-parallel.config.json',
+        JSON.stringify({ WORKERS: 2, POLL: true })
+      );
+
+      expect(loadConfigFile(file)).toEqual({ WORKERS: 2, POLL: true });
+    });
+
+    it('should load a TypeScript config file with a default export', () => {
+      const file = writeFile(
+        'cy-parallel.config.ts',
+        `const workers: number = 3;
+        export default { WORKERS: workers, DIR: 'tests/e2e' };`
+      );
+
+      expect(loadConfigFile(file)).toEqual({ WORKERS: 3, DIR: 'tests/e2e' });
+    });
+
+    it('should load a CommonJS config file', () => {
+      const file = writeFile(
+        'cy-parallel.config.js',
+        `module.exports = { COMMAND: 'yarn cypress run' };`
+      );
+
+      expect(loadConfigFile(file)).toEqual({ COMMAND: 'yarn cypress run' });
+    });
+
+    it('should throw when the file does not exist', () => {
+      const file = path.join(tmpDir, 'missing.json');
+
+      expect(() => loadConfigFile(file)).toThrow(
+        `Config file not found: ${file}`
+      );
+    });
+
+    it('should throw when the file cannot be parsed', () => {
+      const file = writeFile('cy-parallel.config.json', '{ nope');
+
+      expect(() => loadConfigFile(file)).toThrow(
+        `Error loading config file ${file}`
+      );
+    });
+  });
+
+  describe('validateConfigFile', () => {
+    it('should accept known options and profiles', () => {
+      const config = {
+        WORKERS: 2,
+        profiles: { ci: { POLL: true, VERBOSE: false } },
+      };
+
+      expect(validateConfigFile(config, 'config.json')).toBe(config);
+    });
+
+    it('should report every invalid setting', () => {
+      const config = {
+        WORKERS: 'two',
+        UNKNOWN: true,
+        PROFILE: 'ci',
+        profiles: { ci: { BASE_WEIGHT: -1 }, local: 'fast' },
+      };
+
+      expect(() => validateConfigFile(config, 'config.json')).toThrow(
+        [
+          'Invalid config file config.json:',
+          '  - WORKERS: expected a non-negative integer',
+          '  - UNKNOWN: unknown option',
+          '  - PROFILE: cannot be set in a config file',
+          '  - profiles.ci.BASE_WEIGHT: expected a non-negative integer',
+          '  - profiles.local: expected an object',
+        ].join('\n')
+      );
+    });
+
+    it('should reject a config file that does not export an object', () => {
+      expect(() => validateConfigFile([], 'config.json')).toThrow(
+        'the config file must export an object'
+      );
+    });
+  });
+
+  describe('getFileConfig', () => {
+    it('should apply the selected profile over the base settings', () => {
+      const file = writeFile(
+        'cy-parallel.config.json',
+        JSON.stringify({
+          WORKERS: 2,
+          DIR: 'cypress/e2e',
+          profiles: { ci: { WORKERS: 4, VERBOSE: false } },
+        })
+      );
+
+      expect(getFileConfig(file, '')).toEqual({
+        WORKERS: 2,
+        DIR: 'cypress/e2e',
+      });
+      expect(getFileConfig(file, 'ci')).toEqual({
+        WORKERS: 4,
+        DIR: 'cypress/e2e',
+        VERBOSE: false,
+      });
+    });
+
+    it('should throw for an unknown profile', () => {
+      const file = writeFile(
+        'cy-parallel.config.json',
+        JSON.stringify({ profiles: { ci: {}, local: {} } })
+      );
+
+      expect(() => getFileConfig(file, 'nightly')).toThrow(
+        `Unknown profile 'nightly' in ${file}. Available profiles: ci, local.`
+      );
+    });
+  });
+});
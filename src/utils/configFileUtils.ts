@@ -0,0 +1,239 @@
+// src/utils/configFileUtils.ts
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import ts from 'typescript';
+import { CONFIG_OPTIONS, ConfigFile, FileConfig } from './configOptions';
+
+export const CONFIG_FILE_NAMES = [
+  'cy-parallel.config.ts',
+  'cy-parallel.config.js',
+  'cy-parallel.config.json',
+];
+
+const discoveredFiles = new Map<string, string | null>();
+const loadedFiles = new Map<string, ConfigFile>();
+
+/**
+ * Clears the cached config file lookups, e.g. after changing directories.
+ */
+export function clearConfigFileCache(): void {
+  discoveredFiles.clear();
+  loadedFiles.clear();
+}
+
+/**
+ * Searches for a config file in the given directory and its parents.
+ * @param {string} startDir - The directory to start searching from.
+ * @returns {string | null} - The absolute path of the nearest config file, or null if none exists.
+ */
+export function findConfigFile(startDir: string): string | null {
+  const resolvedStart = path.resolve(startDir);
+  const cached = discoveredFiles.get(resolvedStart);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let dir = resolvedStart;
+  let found: string | null = null;
+  while (true) {
+    found =
+      CONFIG_FILE_NAMES.map((name) => path.join(dir, name)).find((file) =>
+        fs.existsSync(file)
+      ) ?? null;
+
+    const parent = path.dirname(dir);
+    if (found || parent === dir) {
+      break;
+    }
+    dir = parent;
+  }
+
+  discoveredFiles.set(resolvedStart, found);
+  return found;
+}
+
+/**
+ * Evaluates a JavaScript or TypeScript config file as a CommonJS module.
+ * Both `export default` and `module.exports` are supported.
+ * @param {string} filePath - The absolute path of the config file.
+ * @returns {unknown} - The exported configuration.
+ */
+function evaluateModule(filePath: string): unknown {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    fileName: filePath,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+    },
+  });
+
+  const module = { exports: {} as Record<string, unknown> };
+  const evaluate = new Function(
+    'exports',
+    'require',
+    'module',
+    '__filename',
+    '__dirname',
+    outputText
+  );
+  evaluate(
+    module.exports,
+    createRequire(filePath),
+    module,
+    filePath,
+    path.dirname(filePath)
+  );
+
+  return module.exports.default ?? module.exports;
+}
+
+/**
+ * Validates a set of settings against the config options schema.
+ * @param {unknown} value - The settings to validate.
+ * @param {string} location - Where the settings come from, used in error messages.
+ * @param {string[]} errors - Collected validation errors.
+ */
+function validateSettings(
+  value: Record<string, unknown>,
+  location: string,
+  errors: string[]
+): void {
+  Object.keys(value).forEach((key) => {
+    if (key === 'profiles') {
+      return;
+    }
+
+    const option = CONFIG_OPTIONS.find((candidate) => candidate.key === key);
+    if (!option) {
+      errors.push(`${location}${key}: unknown option`);
+    } else if (option.allowInFile === false) {
+      errors.push(`${location}${key}: cannot be set in a config file`);
+    } else {
+      const setting = value[key];
+      const isValid =
+        option.type === 'number'
+          ? typeof setting === 'number' &&
+            Number.isInteger(setting) &&
+            setting >= 0
+          : typeof setting === option.type;
+      if (!isValid) {
+        errors.push(
+          `${location}${key}: expected ${option.type === 'number' ? 'a non-negative integer' : `a ${option.type}`}`
+        );
+      }
+    }
+  });
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates the contents of a config file.
+ * @param {unknown} value - The parsed config file contents.
+ * @param {string} filePath - The config file path, used in error messages.
+ * @returns {ConfigFile} - The validated config file.
+ */
+export function validateConfigFile(
+  value: unknown,
+  filePath: string
+): ConfigFile {
+  const errors: string[] = [];
+
+  if (!isPlainObject(value)) {
+    errors.push('the config file must export an object');
+  } else {
+    validateSettings(value, '', errors);
+
+    if (value.profiles !== undefined) {
+      if (!isPlainObject(value.profiles)) {
+        errors.push('profiles: expected an object of named profiles');
+      } else {
+        Object.entries(value.profiles).forEach(([name, profile]) => {
+          if (!isPlainObject(profile)) {
+            errors.push(`profiles.${name}: expected an object`);
+          } else if (profile.profiles !== undefined) {
+            errors.push(`profiles.${name}.profiles: profiles cannot be nested`);
+          } else {
+            validateSettings(profile, `profiles.${name}.`, errors);
+          }
+        });
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid config file ${filePath}:\n${errors.map((error) => `  - ${error}`).join('\n')}`
+    );
+  }
+
+  return value as ConfigFile;
+}
+
+/**
+ * Loads and validates a config file. Results are cached per path.
+ * @param {string} filePath - The config file path.
+ * @returns {ConfigFile} - The validated config file.
+ */
+export function loadConfigFile(filePath: string): ConfigFile {
+  const resolvedPath = path.resolve(filePath);
+  const cached = loadedFiles.get(resolvedPath);
+  if (cached) {
+    return cached;
+  }
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Config file not found: ${resolvedPath}`);
+  }
+
+  let contents: unknown;
+  try {
+    contents =
+      path.extname(resolvedPath) === '.json'
+        ? JSON.parse(fs.readFileSync(resolvedPath, 'utf8'))
+        : evaluateModule(resolvedPath);
+  } catch (error) {
+    throw new Error(`Error loading config file ${resolvedPath}: ${error}`);
+  }
+
+  const configFile = validateConfigFile(contents, resolvedPath);
+  loadedFiles.set(resolvedPath, configFile);
+  return configFile;
+}
+
+/**
+ * Resolves the settings from the config file, with the selected profile applied.
+ * @param {string} configFile - Explicit config file path, or '' to search from the cwd.
+ * @param {string} profile - The profile to apply, or '' for none.
+ * @returns {FileConfig} - The settings from the file, or an empty object without a file.
+ */
+export function getFileConfig(configFile: string, profile: string): FileConfig {
+  const filePath = configFile || findConfigFile(process.cwd());
+
+  if (!filePath) {
+    if (profile) {
+      throw new Error(
+        `Profile '${profile}' requested, but no config file found.`
+      );
+    }
+    return {};
+  }
+
+  const { profiles = {}, ...settings } = loadConfigFile(filePath);
+  if (!profile) {
+    return settings;
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(profiles, profile)) {
+    const available = Object.keys(profiles);
+    throw new Error(
+      `Unknown profile '${profile}' in ${path.resolve(filePath)}. Available profiles: ${available.length > 0 ? available.join(', ') : 'none'}.`
+    );
+  }
+
+  return { ...settings, ...profiles[profile] };
+}
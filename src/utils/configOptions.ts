@@ -0,0 +1,392 @@
+// src/utils/configOptions.ts
+
+export type Config = {
+  WEIGHT_PER_TEST: number;
+  BASE_WEIGHT: number;
+  WORKERS: number;
+  DIR: string;
+  COMMAND: string;
+  POLL: boolean;
+  BASE_DISPLAY_NUMBER: number;
+  VERBOSE: boolean;
+  CYPRESS_LOG: boolean;
+  IS_LINUX: boolean;
+  TIMINGS: boolean;
+  TIMINGS_FILE: string;
+  TIMINGS_HISTORY: number;
+  TIMINGS_OUTPUT: string;
+  RETRIES: number;
+  SPEC_PATTERN: string;
+  EXCLUDE_SPEC_PATTERN: string;
+  GITIGNORE: boolean;
+  SHARD_INDEX: number;
+  SHARD_TOTAL: number;
+  FAIL_FAST: boolean;
+  FAIL_FAST_THRESHOLD: number;
+  SPEC_TIMEOUT: number;
+  SPEC_TIMEOUT_FACTOR: number;
+  IDLE_TIMEOUT: number;
+  RUN_TIMEOUT: number;
+  OUTPUT_DIR: string;
+  CYPRESS_LOG_FAILED_ONLY: boolean;
+  JUNIT_FILE: string;
+  SUMMARY_FILE: string;
+  REPORTER: string;
+  REPORT_DIR: string;
+  REPORT_HTML: boolean;
+  BACKEND: string;
+  CYPRESS_RUN_OPTIONS: string;
+  PLAN_FORMAT: string;
+  GREP_TAGS: string;
+  SPLIT_TESTS: number;
+  CHANGED_SINCE: string;
+  GLOBAL_FILES: string;
+  QUARANTINE_FILE: string;
+  HISTORY_FILE: string;
+  HISTORY_SIZE: number;
+  WORKER_PORTS: number;
+  WORKER_PORT_START: number;
+  WORKER_ENV: string;
+  WORKER_ENV_FILES: boolean;
+  GLOBAL_SETUP: string;
+  WAIT_ON: string;
+  WAIT_ON_TIMEOUT: number;
+  WORKER_SETUP: string;
+  WORKER_TEARDOWN: string;
+  GLOBAL_TEARDOWN: string;
+  PRINT_SUMMARY: boolean;
+  SLOWEST_SPECS: number;
+  DASHBOARD: string;
+  DASHBOARD_INTERVAL: number;
+  CONFIG_FILE: string;
+  PROFILE: string;
+};
+
+/**
+ * Settings that can be stored in a config file. IS_LINUX is detected, and
+ * CONFIG_FILE / PROFILE select the file itself, so none of them belong in it.
+ */
+export type FileConfig = Partial<
+  Omit<Config, 'IS_LINUX' | 'CONFIG_FILE' | 'PROFILE'>
+>;
+
+export type ConfigFile = FileConfig & {
+  profiles?: Record<string, FileConfig>;
+};
+
+export interface ConfigOption {
+  key: keyof Config;
+  type: 'string' | 'number' | 'boolean';
+  description: string;
+  allowInFile?: boolean;
+}
+
+/**
+ * Configuration values that can be set from the command line, the environment
+ * and (unless allowInFile is false) the config file.
+ * Each key is available as a kebab-case flag, e.g. WEIGHT_PER_TEST as --weight-per-test.
+ */
+export const CONFIG_OPTIONS: ConfigOption[] = [
+  { key: 'DIR', type: 'string', description: 'Directory of tests' },
+  { key: 'COMMAND', type: 'string', description: 'Cypress command' },
+  { key: 'WORKERS', type: 'number', description: 'Number of workers' },
+  {
+    key: 'POLL',
+    type: 'boolean',
+    description: 'Use Polling Mode instead of Weighted Bucketing',
+  },
+  {
+    key: 'WEIGHT_PER_TEST',
+    type: 'number',
+    description: 'Weight assigned to each test',
+  },
+  { key: 'BASE_WEIGHT', type: 'number', description: 'Base weight value' },
+  {
+    key: 'BASE_DISPLAY_NUMBER',
+    type: 'number',
+    description: 'First Xvfb display number',
+  },
+  {
+    key: 'VERBOSE',
+    type: 'boolean',
+    description: 'Enable logging for cy-parallel',
+  },
+  {
+    key: 'CYPRESS_LOG',
+    type: 'boolean',
+    description: 'Enable Cypress-specific logging',
+  },
+  {
+    key: 'TIMINGS',
+    type: 'boolean',
+    description: 'Record spec durations and use them as weights',
+  },
+  {
+    key: 'TIMINGS_FILE',
+    type: 'string',
+    description: 'Path of the timings history file',
+  },
+  {
+    key: 'TIMINGS_HISTORY',
+    type: 'number',
+    description: 'Number of past runs averaged per spec',
+  },
+  {
+    key: 'TIMINGS_OUTPUT',
+    type: 'string',
+    description:
+      'Path the recorded timings are written to, instead of TIMINGS_FILE or its shard file',
+  },
+  {
+    key: 'RETRIES',
+    type: 'number',
+    description: 'Number of times a failed spec file is re-run',
+  },
+  {
+    key: 'SPEC_PATTERN',
+    type: 'string',
+    description: 'Comma-separated globs of spec files to run',
+  },
+  {
+    key: 'EXCLUDE_SPEC_PATTERN',
+    type: 'string',
+    description: 'Comma-separated globs of spec files to skip',
+  },
+  {
+    key: 'GITIGNORE',
+    type: 'boolean',
+    description: 'Skip files ignored by .gitignore',
+  },
+  {
+    key: 'SHARD_INDEX',
+    type: 'number',
+    description: "This machine's shard, from 1 to SHARD_TOTAL",
+  },
+  {
+    key: 'SHARD_TOTAL',
+    type: 'number',
+    description: 'Number of machines the specs are split across',
+  },
+  {
+    key: 'FAIL_FAST',
+    type: 'boolean',
+    description: 'Stop the run once FAIL_FAST_THRESHOLD spec files have failed',
+  },
+  {
+    key: 'FAIL_FAST_THRESHOLD',
+    type: 'number',
+    description: 'Number of failed spec files that stops a FAIL_FAST run',
+  },
+  {
+    key: 'SPEC_TIMEOUT',
+    type: 'number',
+    description:
+      'Minimum time in seconds a spec file may run before it is killed (0 disables)',
+  },
+  {
+    key: 'SPEC_TIMEOUT_FACTOR',
+    type: 'number',
+    description:
+      'Multiple of the expected spec duration allowed before it times out',
+  },
+  {
+    key: 'IDLE_TIMEOUT',
+    type: 'number',
+    description:
+      'Seconds without Cypress output before a spec is killed (0 disables)',
+  },
+  {
+    key: 'RUN_TIMEOUT',
+    type: 'number',
+    description: 'Deadline in seconds for the whole run (0 disables)',
+  },
+  {
+    key: 'OUTPUT_DIR',
+    type: 'string',
+    description: 'Directory for per-worker and per-spec Cypress log files',
+  },
+  {
+    key: 'CYPRESS_LOG_FAILED_ONLY',
+    type: 'boolean',
+    description: 'Print Cypress output only for failed specs, after the run',
+  },
+  {
+    key: 'JUNIT_FILE',
+    type: 'string',
+    description: 'Path of a JUnit XML report with one test case per spec file',
+  },
+  {
+    key: 'SUMMARY_FILE',
+    type: 'string',
+    description: 'Path of a JSON summary of the run',
+  },
+  {
+    key: 'REPORTER',
+    type: 'string',
+    description:
+      'Cypress reporter whose per-worker reports are merged: mochawesome or junit',
+  },
+  {
+    key: 'REPORT_DIR',
+    type: 'string',
+    description: 'Directory of the merged report and the per-worker reports',
+  },
+  {
+    key: 'REPORT_HTML',
+    type: 'boolean',
+    description: 'Generate an HTML report from the merged mochawesome report',
+  },
+  {
+    key: 'BACKEND',
+    type: 'string',
+    description:
+      'How Cypress is run: command (COMMAND in a shell) or module (Module API)',
+  },
+  {
+    key: 'CYPRESS_RUN_OPTIONS',
+    type: 'string',
+    description: 'JSON options for cypress.run() with the module backend',
+  },
+  {
+    key: 'PLAN_FORMAT',
+    type: 'string',
+    description: 'Output format of the plan command: text or json',
+  },
+  {
+    key: 'GREP_TAGS',
+    type: 'string',
+    description:
+      "@cypress/grep tag expression selecting the tests to weigh and run, e.g. '@smoke+-@slow'",
+  },
+  {
+    key: 'SPLIT_TESTS',
+    type: 'number',
+    description:
+      'Split spec files with more than this many tests into units run by different workers, selected by title with @cypress/grep (0 disables)',
+  },
+  {
+    key: 'CHANGED_SINCE',
+    type: 'string',
+    description:
+      'Only run the specs affected by the changes since this git ref, e.g. origin/main',
+  },
+  {
+    key: 'GLOBAL_FILES',
+    type: 'string',
+    description:
+      'Comma-separated globs of files whose changes affect every spec, with CHANGED_SINCE',
+  },
+  {
+    key: 'QUARANTINE_FILE',
+    type: 'string',
+    description:
+      "Path of the checked-in list of quarantined specs, whose failures don't fail the run",
+  },
+  {
+    key: 'HISTORY_FILE',
+    type: 'string',
+    description:
+      'Path of the run history used to score flaky specs (default: disabled)',
+  },
+  {
+    key: 'HISTORY_SIZE',
+    type: 'number',
+    description: 'Number of runs kept in HISTORY_FILE',
+  },
+  {
+    key: 'WORKER_PORTS',
+    type: 'number',
+    description: 'Number of free TCP ports allocated to each worker',
+  },
+  {
+    key: 'WORKER_PORT_START',
+    type: 'number',
+    description: 'First port tried when allocating WORKER_PORTS',
+  },
+  {
+    key: 'WORKER_ENV',
+    type: 'string',
+    description:
+      'JSON object of environment variables set for each worker, with {worker}, {workers} and {port} placeholders',
+  },
+  {
+    key: 'WORKER_ENV_FILES',
+    type: 'boolean',
+    description: 'Load .env.worker-<n> files into the environment of worker n',
+  },
+  {
+    key: 'GLOBAL_SETUP',
+    type: 'string',
+    description: 'Shell command run once before the workers start',
+  },
+  {
+    key: 'WAIT_ON',
+    type: 'string',
+    description:
+      'Comma-separated URLs or ports that must be ready before the workers start',
+  },
+  {
+    key: 'WAIT_ON_TIMEOUT',
+    type: 'number',
+    description: 'Seconds WAIT_ON targets get to become ready',
+  },
+  {
+    key: 'WORKER_SETUP',
+    type: 'string',
+    description:
+      'Shell command run for each worker before its first spec, with its environment and display',
+  },
+  {
+    key: 'WORKER_TEARDOWN',
+    type: 'string',
+    description: 'Shell command run for each worker after its last spec',
+  },
+  {
+    key: 'GLOBAL_TEARDOWN',
+    type: 'string',
+    description:
+      'Shell command run once at the end of the run, also when it fails or is interrupted',
+  },
+  {
+    key: 'PRINT_SUMMARY',
+    type: 'boolean',
+    description: 'Print a summary table of the run at the end',
+  },
+  {
+    key: 'SLOWEST_SPECS',
+    type: 'number',
+    description: 'Number of slowest specs listed in the run summary',
+  },
+  {
+    key: 'DASHBOARD',
+    type: 'string',
+    description: 'Progress display: auto, live, lines or off',
+  },
+  {
+    key: 'DASHBOARD_INTERVAL',
+    type: 'number',
+    description:
+      'Seconds between status lines with DASHBOARD=lines; 0 logs none',
+  },
+  {
+    key: 'CONFIG_FILE',
+    type: 'string',
+    description: 'Path of the config file (default: discovered from the cwd)',
+    allowInFile: false,
+  },
+  {
+    key: 'PROFILE',
+    type: 'string',
+    description: 'Config file profile to apply',
+    allowInFile: false,
+  },
+];
+
+/**
+ * Identity helper that gives cy-parallel.config.{js,ts} files type checking.
+ * @param {ConfigFile} config - The project configuration.
+ * @returns {ConfigFile} - The same configuration.
+ */
+export function defineConfig(config: ConfigFile): ConfigFile {
+  return config;
+}
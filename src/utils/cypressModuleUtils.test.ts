@@ -0,0 +1,162 @@
+import {
+  getModuleExitCode,
+  MODULE_OPTIONS_ENV,
+  ModuleResult,
+  runCypressModule,
+  toModuleRunMessage,
+} from './cypressModuleUtils';
+
+jest.mock('cypress', () => ({
+  run: jest.fn(),
+}));
+
+describe('cypressModuleUtils', () => {
+  // Not imported, so Cypress's global types don't replace Jest's
+  const mockRun = jest.requireMock('cypress').run as jest.Mock;
+  const ORIGINAL_ENV = process.env;
+
+  const result: ModuleResult = {
+    totalFailed: 1,
+    runs: [
+      {
+        error: null,
+        spec: { relative: 'cypress/e2e/login.cy.ts' },
+        stats: {
+          tests: 3,
+          passes: 1,
+          failures: 1,
+          pending: 1,
+          skipped: 0,
+          startedAt: '2024-01-01T00:00:00.000Z',
+          endedAt: '2024-01-01T00:00:04.500Z',
+        },
+        tests: [
+          {
+            title: ['login', 'accepts valid credentials'],
+            state: 'passed',
+            duration: 1200,
+            displayError: null,
+          },
+          {
+            title: ['login', 'rejects a wrong password'],
+            state: 'failed',
+            duration: 3000,
+            displayError: 'AssertionError: expected 200 to equal 401',
+          },
+          {
+            title: ['login', 'remembers the user'],
+            state: 'pending',
+            displayError: null,
+          },
+        ],
+        screenshots: [{ path: '/project/cypress/screenshots/failed.png' }],
+        video: '/project/cypress/videos/login.cy.ts.mp4',
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  describe('toModuleRunMessage', () => {
+    it('should convert the Cypress results into spec runs', () => {
+      expect(toModuleRunMessage(result)).toEqual({
+        totalFailed: 1,
+        runs: [
+          {
+            spec: 'cypress/e2e/login.cy.ts',
+            tests: 3,
+            passes: 1,
+            failures: 1,
+            pending: 1,
+            skipped: 0,
+            duration: 4500,
+            testResults: [
+              {
+                title: ['login', 'accepts valid credentials'],
+                state: 'passed',
+                duration: 1200,
+              },
+              {
+                title: ['login', 'rejects a wrong password'],
+                state: 'failed',
+                duration: 3000,
+                error: 'AssertionError: expected 200 to equal 401',
+              },
+              {
+                title: ['login', 'remembers the user'],
+                state: 'pending',
+                duration: 0,
+              },
+            ],
+            screenshots: ['/project/cypress/screenshots/failed.png'],
+            video: '/project/cypress/videos/login.cy.ts.mp4',
+          },
+        ],
+      });
+    });
+
+    it('should report why Cypress could not run', () => {
+      expect(
+        toModuleRunMessage({
+          status: 'failed',
+          failures: 1,
+          message: 'Could not find Cypress test run results',
+        })
+      ).toEqual({ runs: [], error: 'Could not find Cypress test run results' });
+    });
+  });
+
+  describe('getModuleExitCode', () => {
+    it('should exit with 1 when tests failed, however many', () => {
+      expect(getModuleExitCode(result)).toBe(1);
+      expect(getModuleExitCode({ ...result, totalFailed: 256 })).toBe(1);
+      expect(getModuleExitCode({ ...result, totalFailed: 0 })).toBe(0);
+    });
+
+    it('should exit with 1 when Cypress could not run', () => {
+      expect(
+        getModuleExitCode({ status: 'failed', failures: 1, message: 'oops' })
+      ).toBe(1);
+    });
+  });
+
+  describe('runCypressModule', () => {
+    it('should run Cypress with the options from the environment', async () => {
+      process.env[MODULE_OPTIONS_ENV] = JSON.stringify({
+        spec: 'a.cy.ts',
+        browser: 'chrome',
+      });
+      mockRun.mockResolvedValue(result);
+      const send = jest.fn().mockResolvedValue(undefined);
+
+      const code = await runCypressModule(send);
+
+      expect(mockRun).toHaveBeenCalledWith({
+        spec: 'a.cy.ts',
+        browser: 'chrome',
+      });
+      expect(send).toHaveBeenCalledWith(toModuleRunMessage(result));
+      expect(code).toBe(1);
+    });
+
+    it('should report an error thrown by Cypress', async () => {
+      mockRun.mockRejectedValue(new Error('no browser'));
+      const send = jest.fn().mockResolvedValue(undefined);
+
+      const code = await runCypressModule(send);
+
+      expect(send).toHaveBeenCalledWith({
+        runs: [],
+        error: 'Error: no browser',
+      });
+      expect(code).toBe(1);
+    });
+  });
+});
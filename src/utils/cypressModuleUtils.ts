@@ -0,0 +1,127 @@
+// src/utils/cypressModuleUtils.ts
+import path from 'path';
+import { CypressSpecRun } from '../types';
+
+// Environment variable passing the cypress.run() options to the module worker
+export const MODULE_OPTIONS_ENV = 'CY_PARALLEL_CYPRESS_OPTIONS';
+
+// The module worker script, next to the bundled cli.js and index.js
+export const MODULE_WORKER_PATH = path.join(
+  __dirname,
+  'cypressModuleWorker.js'
+);
+
+// Sent by the module worker to cy-parallel once Cypress has finished
+export interface ModuleRunMessage {
+  runs: CypressSpecRun[];
+  // The number of failed tests, as the exit code only tells whether any failed
+  totalFailed?: number;
+  // Why Cypress could not run at all
+  error?: string;
+}
+
+// The parts of the Cypress Module API results that are used
+interface ModuleTestResult {
+  title: string[];
+  state: string;
+  duration?: number;
+  displayError: string | null;
+}
+
+interface ModuleRunResult {
+  error: string | null;
+  spec: { relative: string };
+  stats: {
+    tests: number;
+    passes: number;
+    failures: number;
+    pending: number;
+    skipped: number;
+    duration?: number;
+    startedAt?: string;
+    endedAt?: string;
+  };
+  tests: ModuleTestResult[] | null;
+  screenshots: { path: string }[];
+  video: string | null;
+}
+
+export type ModuleResult =
+  | { runs: ModuleRunResult[]; totalFailed: number }
+  | { status: 'failed'; failures: number; message: string };
+
+/**
+ * Converts the results of cypress.run() into per-spec runs.
+ * @param {ModuleResult} result - The resolved value of cypress.run().
+ * @returns {ModuleRunMessage} - The spec runs, or the reason Cypress did not run.
+ */
+export function toModuleRunMessage(result: ModuleResult): ModuleRunMessage {
+  if ('failures' in result) {
+    return { runs: [], error: result.message };
+  }
+
+  return {
+    totalFailed: result.totalFailed,
+    runs: result.runs.map((run) => {
+      const { stats } = run;
+      const duration =
+        stats.duration ??
+        (stats.startedAt && stats.endedAt
+          ? Date.parse(stats.endedAt) - Date.parse(stats.startedAt)
+          : 0);
+      return {
+        spec: run.spec.relative,
+        tests: stats.tests,
+        passes: stats.passes,
+        failures: stats.failures,
+        pending: stats.pending,
+        skipped: stats.skipped,
+        duration,
+        ...(run.error ? { error: run.error } : {}),
+        testResults: (run.tests ?? []).map((test) => ({
+          title: test.title,
+          state: test.state,
+          duration: test.duration ?? 0,
+          ...(test.displayError ? { error: test.displayError } : {}),
+        })),
+        screenshots: run.screenshots.map((screenshot) => screenshot.path),
+        ...(run.video ? { video: run.video } : {}),
+      };
+    }),
+  };
+}
+
+/**
+ * Derives the exit code of the worker process. Not the number of failed tests
+ * like the Cypress CLI, since exit codes wrap around at 256; the count is sent
+ * over IPC instead.
+ * @param {ModuleResult} result - The resolved value of cypress.run().
+ * @returns {number} - 1 if a test failed or Cypress did not run, 0 otherwise.
+ */
+export function getModuleExitCode(result: ModuleResult): number {
+  return 'failures' in result || result.totalFailed > 0 ? 1 : 0;
+}
+
+/**
+ * Runs Cypress through its Module API with the options from MODULE_OPTIONS_ENV.
+ * Cypress is loaded from the project, like the `cypress` binary of COMMAND.
+ * @param {(message: ModuleRunMessage) => Promise<void>} send - Reports the results.
+ * @returns {Promise<number>} - The exit code for the worker process.
+ */
+export async function runCypressModule(
+  send: (message: ModuleRunMessage) => Promise<void>
+): Promise<number> {
+  try {
+    const options = JSON.parse(process.env[MODULE_OPTIONS_ENV] ?? '{}');
+    const cypressPath = require.resolve('cypress', {
+      paths: [process.cwd()],
+    });
+    const cypress = await import(cypressPath);
+    const result: ModuleResult = await cypress.default.run(options);
+    await send(toModuleRunMessage(result));
+    return getModuleExitCode(result);
+  } catch (error) {
+    await send({ runs: [], error: `${error}` });
+    return 1;
+  }
+}
@@ -0,0 +1,75 @@
+import { createSpecOutputParser, findSpec } from './cypressOutputUtils';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+  logOutput: jest.fn(),
+}));
+
+describe('cypressOutputUtils', () => {
+  const specs = ['cypress/e2e/login.cy.ts', 'cypress/e2e/admin/login.cy.ts'];
+
+  describe('findSpec', () => {
+    it('should match the same file first, then the end of the path', () => {
+      expect(findSpec('cypress/e2e/login.cy.ts', specs)).toBe(specs[0]);
+      expect(findSpec('admin/login.cy.ts', specs)).toBe(specs[1]);
+      expect(findSpec('logout.cy.ts', specs)).toBeUndefined();
+    });
+  });
+
+  describe('createSpecOutputParser', () => {
+    const results = (name: string, failing: number) => [
+      '  (Results)',
+      '  ┌──────────────────────────────────┐',
+      `  │ Failing:      ${failing}                  │`,
+      `  │ Spec Ran:     ${name}      │`,
+      '  └──────────────────────────────────┘',
+    ];
+
+    it('should tell when each spec starts and ends', () => {
+      let time = 1000;
+      const onStart = jest.fn();
+      const onEnd = jest.fn();
+      const read = createSpecOutputParser(
+        ['cypress/e2e/a.cy.ts', 'cypress/e2e/b.cy.ts'],
+        { onStart, onEnd },
+        () => time
+      );
+
+      expect(read('  Cypress:  13.6.0')).toBeUndefined();
+      expect(
+        read('\u001b[90m  Running:  \u001b[39mb.cy.ts          (1 of 2)')
+      ).toBe('cypress/e2e/b.cy.ts');
+      expect(onStart).toHaveBeenCalledWith('cypress/e2e/b.cy.ts');
+      time = 4000;
+      results('b.cy.ts', 2).forEach((line) =>
+        expect(read(line)).toBe('cypress/e2e/b.cy.ts')
+      );
+      expect(onEnd).toHaveBeenCalledWith({
+        spec: 'cypress/e2e/b.cy.ts',
+        failures: 2,
+        duration: 3000,
+      });
+
+      read('  Running:  a.cy.ts          (2 of 2)');
+      time = 5000;
+      results('a.cy.ts', 0).forEach(read);
+      expect(onEnd).toHaveBeenLastCalledWith({
+        spec: 'cypress/e2e/a.cy.ts',
+        failures: 0,
+        duration: 1000,
+      });
+      expect(onEnd).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore specs it was not given', () => {
+      const onStart = jest.fn();
+      const read = createSpecOutputParser(['cypress/e2e/a.cy.ts'], {
+        onStart,
+        onEnd: jest.fn(),
+      });
+
+      expect(read('  Running:  other.cy.ts          (1 of 1)')).toBeUndefined();
+      expect(onStart).not.toHaveBeenCalled();
+    });
+  });
+});
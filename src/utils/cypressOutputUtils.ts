@@ -0,0 +1,79 @@
+// src/utils/cypressOutputUtils.ts
+import { stripAnsi } from './outputUtils';
+import { getSpecKey } from './timingUtils';
+
+// "  Running:  login.cy.ts                (1 of 3)", as Cypress starts a spec
+const RUNNING_PATTERN = /^\s*Running:\s+(.+?)\s+\(\d+ of \d+\)\s*$/;
+// Rows of the "(Results)" table Cypress prints once a spec is done
+const FAILING_PATTERN = /^\s*│\s*Failing:\s+(\d+)/;
+const SPEC_RAN_PATTERN = /^\s*│\s*Spec Ran:\s/;
+
+export interface ParsedSpecResult {
+  spec: string;
+  failures: number;
+  // From the spec's "Running:" line to its results, without Cypress's startup
+  duration: number;
+}
+
+export interface SpecOutputEvents {
+  onStart(spec: string): void;
+  onEnd(result: ParsedSpecResult): void;
+}
+
+/**
+ * Finds the spec Cypress printed a name for: the same file, or the one whose
+ * path ends with the name, as Cypress prints paths relative to the specs' common root.
+ * @param {string} name - The spec path printed by Cypress.
+ * @param {string[]} specs - The specs the name may stand for.
+ * @returns {string | undefined} - The spec, if any matches.
+ */
+export function findSpec(name: string, specs: string[]): string | undefined {
+  const key = getSpecKey(name);
+  return (
+    specs.find((spec) => getSpecKey(spec) === key) ??
+    specs.find((spec) => getSpecKey(spec).endsWith(`/${name}`))
+  );
+}
+
+/**
+ * Follows the output of a Cypress process running several specs, to tell
+ * when each spec starts and ends and how many of its tests failed.
+ * @param {string[]} specs - The specs the process runs.
+ * @param {SpecOutputEvents} events - Called as each spec starts and ends.
+ * @param {() => number} [now] - The clock, in milliseconds.
+ * @returns {(line: string) => string | undefined} - Reads a line of output and returns the spec it belongs to, if one has started.
+ */
+export function createSpecOutputParser(
+  specs: string[],
+  events: SpecOutputEvents,
+  now: () => number = Date.now
+): (line: string) => string | undefined {
+  const waiting = [...specs];
+  let current:
+    | { spec: string; startedAt: number; failures: number; ended: boolean }
+    | undefined;
+
+  return (line: string) => {
+    const plainLine = stripAnsi(line);
+    const running = RUNNING_PATTERN.exec(plainLine);
+    const spec = running ? findSpec(running[1], waiting) : undefined;
+    if (spec) {
+      waiting.splice(waiting.indexOf(spec), 1);
+      current = { spec, startedAt: now(), failures: 0, ended: false };
+      events.onStart(spec);
+    } else if (current && !current.ended) {
+      const failing = FAILING_PATTERN.exec(plainLine);
+      if (failing) {
+        current.failures = Number(failing[1]);
+      } else if (SPEC_RAN_PATTERN.test(plainLine)) {
+        current.ended = true;
+        events.onEnd({
+          spec: current.spec,
+          failures: current.failures,
+          duration: now() - current.startedAt,
+        });
+      }
+    }
+    return current?.spec;
+  };
+}
@@ -0,0 +1,300 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  cleanWorkerReports,
+  getBatchReportDir,
+  getReporterArgs,
+  getReportSpec,
+  getSpecReportDir,
+  mergeCypressReports,
+  mergeJUnitReports,
+  mergeMochawesomeReports,
+  parseReporter,
+} from './cypressReportUtils';
+import { log } from './logging';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+const mochawesomeReport = (
+  title: string,
+  states: string[],
+  start: string,
+  end: string
+) => ({
+  stats: { start, end, tests: states.length },
+  results: [
+    {
+      title,
+      tests: states.map((state) => ({ title: state, state })),
+      suites: [],
+    },
+  ],
+  meta: { mocha: { version: '7.0.1' } },
+});
+
+const junitReport = (name: string, tests: number, failures: number) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="Mocha Tests" time="1.5" tests="${tests}" failures="${failures}">
+  <testsuite name="${name}" tests="${tests}" failures="${failures}">
+  </testsuite>
+</testsuites>`;
+
+describe('cypressReportUtils', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-reports-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('parseReporter', () => {
+    it('should accept the supported reporters and an empty value', () => {
+      expect(parseReporter('mochawesome')).toBe('mochawesome');
+      expect(parseReporter('junit')).toBe('junit');
+      expect(parseReporter('')).toBeUndefined();
+    });
+
+    it('should reject other reporters', () => {
+      expect(() => parseReporter('spec')).toThrow(
+        'Invalid REPORTER "spec": use one of mochawesome, junit.'
+      );
+    });
+  });
+
+  describe('getSpecReportDir', () => {
+    it('should give every attempt its own directory in its worker directory', () => {
+      expect(getSpecReportDir(tmpDir, 1, 'cypress/e2e/a.cy.ts', 2)).toBe(
+        path.join(
+          tmpDir,
+          'workers',
+          'worker-2',
+          'cypress__e2e__a.cy.ts.attempt-2'
+        )
+      );
+    });
+  });
+
+  describe('getBatchReportDir', () => {
+    it('should number the processes of a worker', () => {
+      expect(getBatchReportDir(tmpDir, 1, 3)).toBe(
+        path.join(tmpDir, 'workers', 'worker-2', 'batch-3')
+      );
+    });
+  });
+
+  describe('getReportSpec', () => {
+    it('should read the spec of a mochawesome or JUnit report', () => {
+      const report = mochawesomeReport('', [], '', '');
+      expect(
+        getReportSpec(
+          'mochawesome',
+          JSON.stringify({
+            ...report,
+            results: [{ ...report.results[0], file: 'cypress/e2e/a.cy.ts' }],
+          })
+        )
+      ).toBe('cypress/e2e/a.cy.ts');
+      expect(
+        getReportSpec(
+          'junit',
+          '<testsuites><testsuite name="Root Suite" file="cypress/e2e/b.cy.ts"></testsuite></testsuites>'
+        )
+      ).toBe('cypress/e2e/b.cy.ts');
+      expect(getReportSpec('junit', junitReport('a', 1, 0))).toBeUndefined();
+    });
+  });
+
+  describe('cleanWorkerReports', () => {
+    it('should only remove the worker reports', () => {
+      fs.mkdirSync(path.join(tmpDir, 'workers', 'worker-1'), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(tmpDir, 'mochawesome.json'), '{}');
+
+      cleanWorkerReports(tmpDir);
+
+      expect(fs.readdirSync(tmpDir)).toEqual(['mochawesome.json']);
+    });
+  });
+
+  describe('getReporterArgs', () => {
+    it('should point mochawesome at the directory', () => {
+      expect(getReporterArgs('mochawesome', '/reports/a')).toBe(
+        ' --reporter mochawesome --reporter-options "reportDir=/reports/a,overwrite=false,html=false,json=true"'
+      );
+    });
+
+    it('should point the junit reporter at the directory', () => {
+      expect(getReporterArgs('junit', '/reports/a')).toBe(
+        ' --reporter junit --reporter-options "mochaFile=/reports/a/results-[hash].xml"'
+      );
+    });
+  });
+
+  describe('mergeMochawesomeReports', () => {
+    it('should combine the suites and recompute the stats', () => {
+      const merged = mergeMochawesomeReports([
+        mochawesomeReport(
+          'a',
+          ['passed', 'failed'],
+          '2024-01-01T00:00:00.000Z',
+          '2024-01-01T00:00:05.000Z'
+        ),
+        mochawesomeReport(
+          'b',
+          ['passed', 'pending'],
+          '2024-01-01T00:00:02.000Z',
+          '2024-01-01T00:00:10.000Z'
+        ),
+      ]);
+
+      expect(merged.results).toHaveLength(2);
+      expect(merged.stats).toMatchObject({
+        suites: 2,
+        tests: 4,
+        passes: 2,
+        failures: 1,
+        pending: 1,
+        passPercent: 50,
+        start: '2024-01-01T00:00:00.000Z',
+        end: '2024-01-01T00:00:10.000Z',
+        duration: 10000,
+      });
+      expect(merged.meta).toEqual({ mocha: { version: '7.0.1' } });
+    });
+  });
+
+  describe('mergeJUnitReports', () => {
+    it('should copy the test suites and sum the totals', () => {
+      const merged = mergeJUnitReports([
+        junitReport('a', 2, 1),
+        junitReport('b', 3, 0),
+      ]);
+
+      expect(merged).toContain(
+        '<testsuites name="Cypress Tests" tests="5" failures="1" errors="0" skipped="0" time="3.000">'
+      );
+      expect(merged).toContain('<testsuite name="a" tests="2" failures="1">');
+      expect(merged).toContain('<testsuite name="b" tests="3" failures="0">');
+      expect(merged.match(/<\?xml/g)).toHaveLength(1);
+    });
+
+    it('should accept a report without a testsuites element', () => {
+      const merged = mergeJUnitReports([
+        '<testsuite name="a" tests="2" failures="2" time="4"></testsuite>',
+      ]);
+
+      expect(merged).toContain('tests="2" failures="2" errors="0"');
+    });
+  });
+
+  describe('mergeCypressReports', () => {
+    const writeReport = (dir: string, name: string, content: unknown) => {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(
+        path.join(dir, name),
+        typeof content === 'string' ? content : JSON.stringify(content)
+      );
+    };
+
+    it('should merge the reports into REPORT_DIR and list specs without one', async () => {
+      const dirA = path.join(tmpDir, 'workers', 'worker-1', 'a');
+      writeReport(
+        dirA,
+        'mochawesome.json',
+        mochawesomeReport(
+          'a',
+          ['passed'],
+          '2024-01-01T00:00:00.000Z',
+          '2024-01-01T00:00:01.000Z'
+        )
+      );
+
+      const merged = await mergeCypressReports(
+        'mochawesome',
+        tmpDir,
+        [
+          { spec: 'a.cy.ts', dir: dirA },
+          { spec: 'b.cy.ts', dir: path.join(tmpDir, 'workers', 'missing') },
+        ],
+        false
+      );
+
+      expect(merged).toEqual({
+        reporter: 'mochawesome',
+        file: path.join(tmpDir, 'mochawesome.json'),
+        missing: ['b.cy.ts'],
+      });
+      const report = JSON.parse(fs.readFileSync(merged.file, 'utf8'));
+      expect(report.stats.tests).toBe(1);
+      expect(log).toHaveBeenCalledWith(
+        'Missing mochawesome report(s) for 1 spec(s) that ran:\n- b.cy.ts',
+        { type: 'error' }
+      );
+    });
+
+    it('should tell apart the reports of specs sharing a directory', async () => {
+      const dir = path.join(tmpDir, 'workers', 'worker-1', 'batch-1');
+      const junitSpecReport = (spec: string) =>
+        `<testsuites tests="1" failures="0"><testsuite name="Root Suite" file="${spec}" tests="1" failures="0"></testsuite></testsuites>`;
+      writeReport(dir, 'results-1.xml', junitSpecReport('cypress/e2e/a.cy.ts'));
+      // b.cy.ts was retried, its final report is in another directory
+      writeReport(dir, 'results-2.xml', junitSpecReport('cypress/e2e/b.cy.ts'));
+
+      const merged = await mergeCypressReports(
+        'junit',
+        tmpDir,
+        [
+          { spec: 'cypress/e2e/a.cy.ts', dir },
+          { spec: 'cypress/e2e/c.cy.ts', dir },
+        ],
+        false
+      );
+
+      expect(merged.missing).toEqual(['cypress/e2e/c.cy.ts']);
+      const report = fs.readFileSync(merged.file, 'utf8');
+      expect(report).toContain('file="cypress/e2e/a.cy.ts"');
+      expect(report).not.toContain('file="cypress/e2e/b.cy.ts"');
+    });
+
+    it('should count an unreadable report as missing', async () => {
+      const dirA = path.join(tmpDir, 'a');
+      writeReport(dirA, 'mochawesome.json', '{ not json');
+
+      const merged = await mergeCypressReports(
+        'mochawesome',
+        tmpDir,
+        [{ spec: 'a.cy.ts', dir: dirA }],
+        false
+      );
+
+      expect(merged.missing).toEqual(['a.cy.ts']);
+    });
+
+    it('should merge JUnit reports into junit.xml', async () => {
+      const dirA = path.join(tmpDir, 'a');
+      writeReport(dirA, 'results-1.xml', junitReport('a', 1, 0));
+
+      const merged = await mergeCypressReports(
+        'junit',
+        tmpDir,
+        [{ spec: 'a.cy.ts', dir: dirA }],
+        true
+      );
+
+      expect(merged.file).toBe(path.join(tmpDir, 'junit.xml'));
+      expect(fs.readFileSync(merged.file, 'utf8')).toContain('tests="1"');
+      expect(log).toHaveBeenCalledWith(
+        'REPORT_HTML is only supported with the mochawesome reporter.',
+        { type: 'warn' }
+      );
+    });
+  });
+});
@@ -0,0 +1,449 @@
+// src/utils/cypressReportUtils.ts
+import fs from 'fs';
+import path from 'path';
+import { findSpec } from './cypressOutputUtils';
+import { log } from './logging';
+import { getSpecFileName } from './outputUtils';
+import { getSpecKey } from './timingUtils';
+import { CypressReporter, MergedReport } from '../types';
+
+export const CYPRESS_REPORTERS: CypressReporter[] = ['mochawesome', 'junit'];
+
+// Subdirectory of REPORT_DIR with the reports of every worker
+const WORKERS_DIR = 'workers';
+
+interface MochawesomeTest {
+  state?: string;
+}
+
+interface MochawesomeSuite {
+  // The spec file, on the root suite
+  file?: string;
+  tests: MochawesomeTest[];
+  suites: MochawesomeSuite[];
+}
+
+interface MochawesomeReport {
+  stats: { start: string; end: string } & Record<string, unknown>;
+  results: (MochawesomeSuite | false)[];
+  meta?: unknown;
+}
+
+export interface SpecReportDir {
+  spec: string;
+  dir: string;
+}
+
+/**
+ * Checks the REPORTER setting.
+ * @param {string} reporter - The REPORTER value.
+ * @returns {CypressReporter | undefined} - The reporter, or undefined if none is set.
+ */
+export function parseReporter(reporter: string): CypressReporter | undefined {
+  if (!reporter) {
+    return undefined;
+  }
+  if (!CYPRESS_REPORTERS.includes(reporter as CypressReporter)) {
+    throw new Error(
+      `Invalid REPORTER "${reporter}": use one of ${CYPRESS_REPORTERS.join(', ')}.`
+    );
+  }
+  return reporter as CypressReporter;
+}
+
+/**
+ * Removes the per-worker reports of a previous run.
+ * @param {string} reportDir - The REPORT_DIR.
+ */
+export function cleanWorkerReports(reportDir: string): void {
+  fs.rmSync(path.resolve(reportDir, WORKERS_DIR), {
+    recursive: true,
+    force: true,
+  });
+}
+
+/**
+ * Returns the report directory of a spec attempt, inside its worker's directory.
+ * @param {string} reportDir - The REPORT_DIR.
+ * @param {number} workerIndex - The worker running the spec.
+ * @param {string} spec - The spec file path.
+ * @param {number} attempt - The 1-based attempt number.
+ * @returns {string} - The absolute directory path.
+ */
+export function getSpecReportDir(
+  reportDir: string,
+  workerIndex: number,
+  spec: string,
+  attempt: number
+): string {
+  return path.resolve(
+    reportDir,
+    WORKERS_DIR,
+    `worker-${workerIndex + 1}`,
+    getSpecFileName(spec, attempt)
+  );
+}
+
+/**
+ * Returns the report directory of specs run together in one Cypress process,
+ * inside its worker's directory.
+ * @param {string} reportDir - The REPORT_DIR.
+ * @param {number} workerIndex - The worker running the specs.
+ * @param {number} batch - The 1-based number of the process in the run.
+ * @returns {string} - The absolute directory path.
+ */
+export function getBatchReportDir(
+  reportDir: string,
+  workerIndex: number,
+  batch: number
+): string {
+  return path.resolve(
+    reportDir,
+    WORKERS_DIR,
+    `worker-${workerIndex + 1}`,
+    `batch-${batch}`
+  );
+}
+
+/**
+ * Builds the reporter settings that send a spec's report to its own directory.
+ * They replace the reporter options of the project's Cypress config.
+ * @param {CypressReporter} reporter - The reporter.
+ * @param {string} dir - The report directory of the spec attempt.
+ * @returns {{ reporter: CypressReporter; reporterOptions: Record<string, string | boolean> }}
+ */
+export function getReporterOptions(
+  reporter: CypressReporter,
+  dir: string
+): {
+  reporter: CypressReporter;
+  reporterOptions: Record<string, string | boolean>;
+} {
+  return {
+    reporter,
+    reporterOptions:
+      reporter === 'mochawesome'
+        ? { reportDir: dir, overwrite: false, html: false, json: true }
+        : { mochaFile: path.join(dir, 'results-[hash].xml') },
+  };
+}
+
+/**
+ * Builds the Cypress arguments that send a spec's report to its own directory.
+ * @param {CypressReporter} reporter - The reporter.
+ * @param {string} dir - The report directory of the spec attempt.
+ * @returns {string} - The arguments, with a leading space.
+ */
+export function getReporterArgs(
+  reporter: CypressReporter,
+  dir: string
+): string {
+  const { reporterOptions } = getReporterOptions(reporter, dir);
+  const options = Object.entries(reporterOptions)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(',');
+  return ` --reporter ${reporter} --reporter-options "${options}"`;
+}
+
+/**
+ * Lists the report files a reporter wrote to a directory.
+ * @param {CypressReporter} reporter - The reporter.
+ * @param {string} dir - The report directory.
+ * @returns {string[]} - The report files, sorted.
+ */
+function findReportFiles(reporter: CypressReporter, dir: string): string[] {
+  const extension = reporter === 'mochawesome' ? '.json' : '.xml';
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(extension))
+    .sort()
+    .map((name) => path.join(dir, name));
+}
+
+/**
+ * Reads the spec file a report is about: the file of mochawesome's root
+ * suite, or the file attribute of a JUnit testsuite.
+ * @param {CypressReporter} reporter - The reporter.
+ * @param {string} content - The report file's content.
+ * @returns {string | undefined} - The spec file, if the report names one.
+ */
+export function getReportSpec(
+  reporter: CypressReporter,
+  content: string
+): string | undefined {
+  if (reporter === 'junit') {
+    return /<testsuite\b[^>]*\sfile="([^"]+)"/.exec(content)?.[1];
+  }
+  try {
+    const report: MochawesomeReport = JSON.parse(content);
+    return report.results.find(
+      (result): result is MochawesomeSuite =>
+        result !== false && result.file !== undefined
+    )?.file;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Collects the tests of a mochawesome suite and its nested suites.
+ */
+function getAllTests(suites: MochawesomeSuite[]): MochawesomeTest[] {
+  return suites.flatMap((suite) => [
+    ...(suite.tests ?? []),
+    ...getAllTests(suite.suites ?? []),
+  ]);
+}
+
+/**
+ * Merges mochawesome JSON reports into one, like mochawesome-merge.
+ * @param {MochawesomeReport[]} reports - The parsed reports.
+ * @returns {MochawesomeReport} - The merged report.
+ */
+export function mergeMochawesomeReports(
+  reports: MochawesomeReport[]
+): MochawesomeReport {
+  const suites = reports.flatMap((report) =>
+    report.results.filter(
+      (result): result is MochawesomeSuite => result !== false
+    )
+  );
+  const tests = getAllTests(suites);
+  const count = (state: string) =>
+    tests.filter((test) => test.state === state).length;
+  const now = Date.now();
+  const start = new Date(
+    reports.length > 0
+      ? Math.min(...reports.map((report) => Date.parse(report.stats.start)))
+      : now
+  );
+  const end = new Date(
+    reports.length > 0
+      ? Math.max(...reports.map((report) => Date.parse(report.stats.end)))
+      : now
+  );
+  const percent = (value: number) =>
+    tests.length > 0 ? (value * 100) / tests.length : 0;
+
+  return {
+    stats: {
+      suites: suites.length,
+      tests: tests.length,
+      passes: count('passed'),
+      pending: count('pending'),
+      failures: count('failed'),
+      testsRegistered: tests.length,
+      passPercent: percent(count('passed')),
+      pendingPercent: percent(count('pending')),
+      other: 0,
+      hasOther: false,
+      skipped: count('skipped'),
+      hasSkipped: count('skipped') > 0,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      duration: end.getTime() - start.getTime(),
+    },
+    results: suites,
+    meta: reports[0]?.meta,
+  };
+}
+
+/**
+ * Reads the numeric attributes of an XML start tag.
+ */
+function readCounts(attributes: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const attributePattern = /(\w+)="([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(attributes)) !== null) {
+    const value = Number(match[2]);
+    if (match[2] !== '' && !isNaN(value)) {
+      counts[match[1]] = value;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Merges JUnit XML reports into one testsuites document. The testsuite elements
+ * are copied as they are; the totals are summed.
+ * @param {string[]} documents - The JUnit XML documents.
+ * @returns {string} - The merged JUnit XML document.
+ */
+export function mergeJUnitReports(documents: string[]): string {
+  const totals: Record<string, number> = {
+    tests: 0,
+    failures: 0,
+    errors: 0,
+    skipped: 0,
+    time: 0,
+  };
+  const suites: string[] = [];
+
+  documents.forEach((document) => {
+    const body = document.replace(/<\?xml[^>]*\?>/, '').trim();
+    const wrapper = /^<testsuites\b([^>]*)>([\s\S]*)<\/testsuites>$/.exec(body);
+    let counts: Record<string, number>;
+    if (wrapper) {
+      counts = readCounts(wrapper[1]);
+      suites.push(wrapper[2].trim());
+    } else {
+      // A single testsuite: the totals are its own
+      counts = readCounts(/^<testsuite\b([^>]*)>/.exec(body)?.[1] ?? '');
+      suites.push(body);
+    }
+    Object.keys(totals).forEach((key) => {
+      totals[key] += counts[key] ?? 0;
+    });
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="Cypress Tests" tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" skipped="${totals.skipped}" time="${totals.time.toFixed(3)}">`,
+    ...suites.filter((suite) => suite !== ''),
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generates an HTML report with the project's mochawesome-report-generator.
+ * @param {MochawesomeReport} report - The merged report.
+ * @param {string} reportDir - The REPORT_DIR.
+ * @returns {Promise<string | undefined>} - The HTML file, if it could be generated.
+ */
+async function generateHtmlReport(
+  report: MochawesomeReport,
+  reportDir: string
+): Promise<string | undefined> {
+  let generatorPath: string;
+  try {
+    generatorPath = require.resolve('mochawesome-report-generator', {
+      paths: [process.cwd()],
+    });
+  } catch {
+    log(
+      'REPORT_HTML needs mochawesome-report-generator: yarn add -D mochawesome-report-generator',
+      { type: 'error' }
+    );
+    return undefined;
+  }
+
+  try {
+    const generator = await import(generatorPath);
+    const [htmlFile] = await generator.create(report, {
+      reportDir: path.resolve(reportDir),
+      reportFilename: 'mochawesome',
+      saveJson: false,
+    });
+    return htmlFile;
+  } catch (error) {
+    log(`Error generating the HTML report. Error: ${error}`, {
+      type: 'error',
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Merges the reports of the specs that ran into one report in REPORT_DIR:
+ * mochawesome.json (and optionally mochawesome.html) or junit.xml.
+ * Specs without a readable report are listed in `missing`.
+ * @param {CypressReporter} reporter - The reporter.
+ * @param {string} reportDir - The REPORT_DIR.
+ * @param {SpecReportDir[]} specs - The report directory of each spec's final attempt.
+ * @param {boolean} html - Whether to generate an HTML report.
+ * @returns {Promise<MergedReport>} - The merged report files and missing specs.
+ */
+export async function mergeCypressReports(
+  reporter: CypressReporter,
+  reportDir: string,
+  specs: SpecReportDir[],
+  html: boolean
+): Promise<MergedReport> {
+  const missing: string[] = [];
+  const reports: { spec: string; file: string; content: string }[] = [];
+
+  // Specs run in one Cypress process share a directory; their reports are
+  // told apart by the spec they name, leaving out those of retried specs
+  const dirSpecs = new Map<string, string[]>();
+  specs.forEach(({ spec, dir }) =>
+    dirSpecs.set(dir, [...(dirSpecs.get(dir) ?? []), spec])
+  );
+  dirSpecs.forEach((dirSpecList, dir) => {
+    const reported = new Set<string>();
+    findReportFiles(reporter, dir).forEach((file) => {
+      const content = fs.readFileSync(file, 'utf8');
+      const name =
+        dirSpecList.length > 1 ? getReportSpec(reporter, content) : undefined;
+      const spec =
+        name === undefined ? dirSpecList[0] : findSpec(name, dirSpecList);
+      if (spec === undefined) {
+        return;
+      }
+      // A report naming no spec may be any spec's
+      dirSpecList
+        .filter((dirSpec) => name === undefined || dirSpec === spec)
+        .forEach((dirSpec) => reported.add(dirSpec));
+      reports.push({ spec, file, content });
+    });
+    missing.push(...dirSpecList.filter((spec) => !reported.has(spec)));
+  });
+
+  const resolvedDir = path.resolve(reportDir);
+  fs.mkdirSync(resolvedDir, { recursive: true });
+  const merged: MergedReport = {
+    reporter,
+    file: path.join(
+      resolvedDir,
+      reporter === 'mochawesome' ? 'mochawesome.json' : 'junit.xml'
+    ),
+    missing,
+  };
+
+  if (reporter === 'mochawesome') {
+    const parsed: MochawesomeReport[] = [];
+    reports.forEach(({ spec, file, content }) => {
+      try {
+        parsed.push(JSON.parse(content));
+      } catch (error) {
+        log(`Unreadable mochawesome report ${file}. Error: ${error}`, {
+          type: 'error',
+        });
+        if (!missing.includes(spec)) {
+          missing.push(spec);
+        }
+      }
+    });
+    const report = mergeMochawesomeReports(parsed);
+    fs.writeFileSync(merged.file, `${JSON.stringify(report, null, 2)}\n`);
+    if (html) {
+      merged.htmlFile = await generateHtmlReport(report, reportDir);
+    }
+  } else {
+    fs.writeFileSync(
+      merged.file,
+      mergeJUnitReports(reports.map(({ content }) => content))
+    );
+    if (html) {
+      log('REPORT_HTML is only supported with the mochawesome reporter.', {
+        type: 'warn',
+      });
+    }
+  }
+
+  log(
+    `Merged ${reports.length} ${reporter} report(s) into ${merged.file}${merged.htmlFile ? ` and ${merged.htmlFile}` : ''}.`,
+    { type: 'info' }
+  );
+  if (missing.length > 0) {
+    log(
+      `Missing ${reporter} report(s) for ${missing.length} spec(s) that ran:\n${missing.map((spec) => `- ${getSpecKey(spec)}`).join('\n')}`,
+      { type: 'error' }
+    );
+  }
+  return merged;
+}
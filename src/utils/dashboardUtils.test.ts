@@ -0,0 +1,247 @@
+import {
+  createDashboard,
+  estimateRemaining,
+  formatDashboard,
+  parseDashboardMode,
+} from './dashboardUtils';
+import { log, setLiveArea } from './logging';
+import { SpecResult } from '../types';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+  setLiveArea: jest.fn(),
+}));
+
+describe('dashboardUtils', () => {
+  const files = [
+    { file: 'cypress/e2e/a.cy.ts', weight: 2 },
+    { file: 'cypress/e2e/b.cy.ts', weight: 1 },
+    { file: 'cypress/e2e/c.cy.ts', weight: 1 },
+  ];
+
+  const result = (
+    spec: string,
+    status: SpecResult['status'],
+    duration: number
+  ): SpecResult => ({
+    spec,
+    workerIndex: 0,
+    status,
+    duration,
+    attempts: [
+      {
+        workerIndex: 0,
+        status: status === 'flaky' ? 'passed' : status,
+        duration,
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2024-06-15T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('parseDashboardMode', () => {
+    it('should resolve auto from the terminal and VERBOSE', () => {
+      expect(parseDashboardMode('auto', true, true)).toBe('live');
+      expect(parseDashboardMode('auto', false, true)).toBe('lines');
+      expect(parseDashboardMode('auto', true, false)).toBe('off');
+      expect(parseDashboardMode('lines', true, false)).toBe('lines');
+    });
+
+    it('should reject unknown modes', () => {
+      expect(() => parseDashboardMode('fancy', true, true)).toThrow(
+        'Invalid DASHBOARD "fancy": use one of auto, live, lines, off.'
+      );
+    });
+  });
+
+  describe('estimateRemaining', () => {
+    const weights = new Map(files.map((info) => [info.file, info.weight]));
+    const now = Date.now();
+
+    it('should wait for a first duration without timing history', () => {
+      expect(
+        estimateRemaining(
+          {
+            weights,
+            done: new Set(),
+            running: new Map(),
+            observed: { duration: 0, weight: 0 },
+            workers: 2,
+          },
+          now
+        )
+      ).toBeUndefined();
+    });
+
+    it('should use timing history before any spec has finished', () => {
+      expect(
+        estimateRemaining(
+          {
+            weights,
+            done: new Set(),
+            running: new Map([
+              [0, { spec: 'cypress/e2e/a.cy.ts', startedAt: now - 500 }],
+            ]),
+            observed: { duration: 0, weight: 0 },
+            workers: 2,
+            secondsPerWeight: 1,
+          },
+          now
+        )
+      ).toBe((1500 + 1000 + 1000) / 2);
+    });
+
+    it('should prefer the durations observed during the run', () => {
+      expect(
+        estimateRemaining(
+          {
+            weights,
+            done: new Set(['cypress/e2e/b.cy.ts']),
+            running: new Map([
+              [0, { spec: 'cypress/e2e/a.cy.ts', startedAt: now - 5000 }],
+            ]),
+            observed: { duration: 3000, weight: 1 },
+            workers: 2,
+            secondsPerWeight: 1,
+          },
+          now
+        )
+      ).toBe((6000 - 5000 + 3000) / 2);
+    });
+  });
+
+  describe('formatDashboard', () => {
+    it('should show the progress and one row per worker', () => {
+      const now = Date.now();
+
+      expect(
+        formatDashboard(
+          {
+            startedAt: now - 65000,
+            total: 5,
+            done: 2,
+            passed: 1,
+            flaky: 0,
+            failed: 1,
+            running: new Map([
+              [
+                0,
+                {
+                  spec: 'cypress/e2e/a.cy.ts',
+                  attempt: 2,
+                  startedAt: now - 4200,
+                },
+              ],
+              [2, { spec: 'cypress/e2e/c.cy.ts', attempt: 1, startedAt: now }],
+            ]),
+            workers: 3,
+            eta: 90000,
+          },
+          now
+        )
+      ).toEqual([
+        '2/5 done, 2 running, 1 queued | 1 passed, 1 failed, 0 flaky | 1m 05s elapsed, ETA 1m 30s',
+        '  Worker 1  cypress/e2e/a.cy.ts (attempt 2)  4.2s',
+        '  Worker 2  idle',
+        '  Worker 3  cypress/e2e/c.cy.ts              0.0s',
+      ]);
+    });
+  });
+
+  describe('createDashboard', () => {
+    const createStream = () =>
+      ({ write: jest.fn(), columns: 88 }) as unknown as NodeJS.WriteStream & {
+        write: jest.Mock;
+      };
+
+    it('should redraw the live dashboard in place', () => {
+      const stream = createStream();
+      const dashboard = createDashboard({
+        mode: 'live',
+        workers: 2,
+        files,
+        interval: 30000,
+        stream,
+      });
+
+      expect(setLiveArea).toHaveBeenCalledWith({
+        clear: expect.any(Function),
+        draw: expect.any(Function),
+      });
+      expect(stream.write).toHaveBeenCalledTimes(1);
+      expect(stream.write.mock.calls[0][0]).toContain('0/3 done');
+
+      dashboard.startSpec(0, 'cypress/e2e/a.cy.ts', 1);
+      jest.advanceTimersByTime(3000);
+      const [lastDraw] = stream.write.mock.calls.slice(-1)[0];
+      // Cleared the 3 lines drawn before
+      expect(stream.write).toHaveBeenCalledWith('\u001b[3A\u001b[0J');
+      expect(lastDraw).toContain('  Worker 1  cypress/e2e/a.cy.ts  3.0s');
+      // Truncated to the terminal width
+      expect(lastDraw.split('\n')[0]).toMatch(/^0\/3 done, .*…$/);
+      lastDraw
+        .split('\n')
+        .forEach((line: string) => expect(line.length).toBeLessThan(88));
+
+      dashboard.endSpec(0, result('cypress/e2e/a.cy.ts', 'passed', 4000), true);
+      dashboard.stop();
+
+      expect(setLiveArea).toHaveBeenLastCalledWith(undefined);
+      const [finalDraw] = stream.write.mock.calls.slice(-1)[0];
+      expect(finalDraw).toContain('1/3 done, 0 running, 2 queued');
+      expect(finalDraw).toContain('ETA 2.0s');
+      const writes = stream.write.mock.calls.length;
+      jest.advanceTimersByTime(5000);
+      expect(stream.write).toHaveBeenCalledTimes(writes);
+    });
+
+    it('should log status lines at the interval without a terminal', () => {
+      const dashboard = createDashboard({
+        mode: 'lines',
+        workers: 1,
+        files,
+        interval: 30000,
+      });
+
+      dashboard.startSpec(0, 'cypress/e2e/a.cy.ts', 1);
+      dashboard.endSpec(
+        0,
+        result('cypress/e2e/a.cy.ts', 'failed', 1000),
+        false
+      );
+      dashboard.startSpec(0, 'cypress/e2e/b.cy.ts', 1);
+      dashboard.endSpec(0, result('cypress/e2e/b.cy.ts', 'flaky', 1000), true);
+      expect(log).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(30000);
+
+      expect(log).toHaveBeenCalledWith(
+        'Status: 1/3 done, 0 running, 2 queued | 0 passed, 0 failed, 1 flaky | 30.0s elapsed, ETA 2.0s\n  Worker 1  idle',
+        { type: 'info' }
+      );
+      expect(setLiveArea).not.toHaveBeenCalled();
+      dashboard.stop();
+    });
+
+    it('should log no status lines with an interval of 0', () => {
+      const dashboard = createDashboard({
+        mode: 'lines',
+        workers: 1,
+        files,
+        interval: 0,
+      });
+
+      dashboard.startSpec(0, 'cypress/e2e/a.cy.ts', 1);
+      jest.advanceTimersByTime(60000);
+
+      expect(log).not.toHaveBeenCalled();
+      dashboard.stop();
+    });
+  });
+});
@@ -0,0 +1,293 @@
+// src/utils/dashboardUtils.ts
+import { FileInfo, SpecResult } from '../types';
+import { log, setLiveArea } from './logging';
+import { formatDuration } from './reportUtils';
+import { getSpecKey } from './timingUtils';
+
+export type DashboardMode = 'auto' | 'live' | 'lines' | 'off';
+
+export const DASHBOARD_MODES: DashboardMode[] = [
+  'auto',
+  'live',
+  'lines',
+  'off',
+];
+
+// How often the live dashboard is redrawn, and how long it waits to redraw after a log line
+const LIVE_REFRESH_INTERVAL = 1000;
+const LIVE_REDRAW_DELAY = 100;
+
+export interface DashboardOptions {
+  // 'live' redraws rows in place, 'lines' logs the status every interval
+  mode: 'live' | 'lines';
+  workers: number;
+  // The planned spec files and units, for their weights
+  files: FileInfo[];
+  // Seconds per weight unit before any spec has finished; weights are
+  // seconds with timing history, undefined when they are test counts
+  secondsPerWeight?: number;
+  // Milliseconds between status lines in 'lines' mode; 0 logs none
+  interval: number;
+  // Where the live dashboard is drawn
+  stream?: NodeJS.WriteStream;
+}
+
+export interface Dashboard {
+  startSpec(workerIndex: number, spec: string, attempt: number): void;
+  // done is false when the spec will be retried
+  endSpec(
+    workerIndex: number,
+    result: SpecResult | undefined,
+    done: boolean
+  ): void;
+  // Stops refreshing; the live dashboard stays on screen in its final state
+  stop(): void;
+}
+
+// What the dashboard shows, at a point in time
+export interface DashboardState {
+  startedAt: number;
+  total: number;
+  done: number;
+  passed: number;
+  flaky: number;
+  failed: number;
+  // The spec each worker is running, by worker index
+  running: Map<number, { spec: string; attempt: number; startedAt: number }>;
+  workers: number;
+  // Estimated milliseconds until the run ends; undefined until it can be estimated
+  eta?: number;
+}
+
+/**
+ * Checks the DASHBOARD setting and resolves `auto`: the live dashboard when
+ * stdout is a terminal, status lines otherwise, nothing without VERBOSE.
+ * @param {string} mode - The DASHBOARD value.
+ * @param {boolean} isTTY - Whether stdout is a terminal.
+ * @param {boolean} verbose - VERBOSE.
+ * @returns {'live' | 'lines' | 'off'} - The mode to use.
+ */
+export function parseDashboardMode(
+  mode: string,
+  isTTY: boolean,
+  verbose: boolean
+): 'live' | 'lines' | 'off' {
+  if (!DASHBOARD_MODES.includes(mode as DashboardMode)) {
+    throw new Error(
+      `Invalid DASHBOARD "${mode}": use one of ${DASHBOARD_MODES.join(', ')}.`
+    );
+  }
+  if (mode !== 'auto') {
+    return mode as 'live' | 'lines' | 'off';
+  }
+  if (!verbose) {
+    return 'off';
+  }
+  return isTTY ? 'live' : 'lines';
+}
+
+/**
+ * Formats the status line: progress, tallies, elapsed time and ETA.
+ * @param {DashboardState} state - The dashboard state.
+ * @param {number} now - The current time, in milliseconds since the epoch.
+ * @returns {string} - The status line.
+ */
+export function formatStatusLine(state: DashboardState, now: number): string {
+  const queued = Math.max(state.total - state.done - state.running.size, 0);
+  const eta =
+    state.eta !== undefined ? formatDuration(state.eta) : 'estimating';
+  return `${state.done}/${state.total} done, ${state.running.size} running, ${queued} queued | ${state.passed} passed, ${state.failed} failed, ${state.flaky} flaky | ${formatDuration(now - state.startedAt)} elapsed, ETA ${eta}`;
+}
+
+/**
+ * Formats the dashboard: the status line, then one row per worker with its
+ * current spec and how long it has been running.
+ * @param {DashboardState} state - The dashboard state.
+ * @param {number} now - The current time, in milliseconds since the epoch.
+ * @returns {string[]} - The lines of the dashboard.
+ */
+export function formatDashboard(state: DashboardState, now: number): string[] {
+  const rows = Array.from({ length: state.workers }, (_, workerIndex) => {
+    const running = state.running.get(workerIndex);
+    return {
+      worker: `Worker ${workerIndex + 1}`,
+      spec: running
+        ? `${getSpecKey(running.spec)}${running.attempt > 1 ? ` (attempt ${running.attempt})` : ''}`
+        : 'idle',
+      elapsed: running ? formatDuration(now - running.startedAt) : '',
+    };
+  });
+  const specWidth = Math.max(0, ...rows.map((row) => row.spec.length));
+  return [
+    formatStatusLine(state, now),
+    ...rows.map((row) =>
+      `  ${row.worker}  ${row.spec.padEnd(specWidth)}  ${row.elapsed}`.trimEnd()
+    ),
+  ];
+}
+
+/**
+ * Estimates how long the run still takes: the expected duration of every spec
+ * not done yet, minus the time running specs have already had, spread over the
+ * workers. Expected durations are weights times the time per weight unit
+ * observed so far, or secondsPerWeight before any spec has finished.
+ * @param {object} progress - What is known about the run.
+ * @param {Map<string, number>} progress.weights - The weight of every spec.
+ * @param {Set<string>} progress.done - The specs that won't run again.
+ * @param {Map<number, { spec: string; startedAt: number }>} progress.running - The running specs by worker.
+ * @param {{ duration: number; weight: number }} progress.observed - Total duration and weight of finished attempts.
+ * @param {number} progress.workers - The number of workers.
+ * @param {number} [progress.secondsPerWeight] - The time per weight unit before any spec has finished.
+ * @param {number} now - The current time, in milliseconds since the epoch.
+ * @returns {number | undefined} - Milliseconds; undefined when nothing is known about durations yet.
+ */
+export function estimateRemaining(
+  progress: {
+    weights: Map<string, number>;
+    done: Set<string>;
+    running: Map<number, { spec: string; startedAt: number }>;
+    observed: { duration: number; weight: number };
+    workers: number;
+    secondsPerWeight?: number;
+  },
+  now: number
+): number | undefined {
+  const { weights, done, running, observed, workers, secondsPerWeight } =
+    progress;
+  const msPerWeight =
+    observed.weight > 0
+      ? observed.duration / observed.weight
+      : secondsPerWeight !== undefined
+        ? secondsPerWeight * 1000
+        : undefined;
+  if (msPerWeight === undefined || workers <= 0) {
+    return undefined;
+  }
+  const elapsed = new Map(
+    [...running.values()].map((run) => [run.spec, now - run.startedAt])
+  );
+  let remaining = 0;
+  weights.forEach((weight, spec) => {
+    if (!done.has(spec)) {
+      remaining += Math.max(weight * msPerWeight - (elapsed.get(spec) ?? 0), 0);
+    }
+  });
+  return remaining / workers;
+}
+
+/**
+ * Creates the progress display of a run: a live dashboard redrawn in place
+ * below the logs, or status lines logged every interval for CI logs.
+ * @param {DashboardOptions} options - Mode, workers and planned specs.
+ * @returns {Dashboard} - Receives the progress of the workers.
+ */
+export function createDashboard(options: DashboardOptions): Dashboard {
+  const { mode, workers, files, secondsPerWeight, interval } = options;
+  const stream = options.stream ?? process.stdout;
+  const weights = new Map(files.map((info) => [info.file, info.weight]));
+  const done = new Set<string>();
+  const running: DashboardState['running'] = new Map();
+  const observed = { duration: 0, weight: 0 };
+  const tallies = { passed: 0, flaky: 0, failed: 0 };
+  const startedAt = Date.now();
+
+  const getState = (now: number): DashboardState => ({
+    startedAt,
+    total: files.length,
+    done: done.size,
+    ...tallies,
+    running,
+    workers,
+    eta: estimateRemaining(
+      { weights, done, running, observed, workers, secondsPerWeight },
+      now
+    ),
+  });
+
+  // Lines of the live dashboard currently on screen
+  let drawnLines = 0;
+  let redrawTimer: NodeJS.Timeout | undefined;
+  const clear = () => {
+    if (drawnLines > 0) {
+      // Back to the first line of the dashboard, then erase to the end of the screen
+      stream.write(`\u001b[${drawnLines}A\u001b[0J`);
+      drawnLines = 0;
+    }
+  };
+  const draw = () => {
+    clearTimeout(redrawTimer);
+    redrawTimer = undefined;
+    clear();
+    const now = Date.now();
+    // Wrapped lines would throw off the number of lines to go back
+    const width = stream.columns ? stream.columns - 1 : Infinity;
+    const lines = formatDashboard(getState(now), now).map((line) =>
+      line.length > width ? `${line.slice(0, width - 1)}…` : line
+    );
+    stream.write(`${lines.join('\n')}\n`);
+    drawnLines = lines.length;
+  };
+  const scheduleDraw = () => {
+    if (!redrawTimer) {
+      redrawTimer = setTimeout(draw, LIVE_REDRAW_DELAY);
+      redrawTimer.unref();
+    }
+  };
+  const logStatus = () => {
+    const now = Date.now();
+    const [status, ...rows] = formatDashboard(getState(now), now);
+    log(`Status: ${status}\n${rows.join('\n')}`, { type: 'info' });
+  };
+
+  let timer: NodeJS.Timeout | undefined;
+  if (mode === 'live') {
+    timer = setInterval(draw, LIVE_REFRESH_INTERVAL);
+  } else if (interval > 0) {
+    timer = setInterval(logStatus, interval);
+  }
+  timer?.unref();
+  if (mode === 'live') {
+    setLiveArea({ clear, draw: scheduleDraw });
+    draw();
+  }
+
+  return {
+    startSpec(workerIndex, spec, attempt) {
+      running.set(workerIndex, { spec, attempt, startedAt: Date.now() });
+      if (mode === 'live') {
+        scheduleDraw();
+      }
+    },
+    endSpec(workerIndex, result, isDone) {
+      running.delete(workerIndex);
+      const attempt = result?.attempts[result.attempts.length - 1];
+      if (!result || !attempt) {
+        return;
+      }
+      if (attempt.status !== 'cancelled') {
+        observed.duration += attempt.duration;
+        observed.weight += weights.get(result.spec) ?? 0;
+      }
+      if (isDone && !done.has(result.spec)) {
+        done.add(result.spec);
+        if (result.status === 'passed') {
+          tallies.passed += 1;
+        } else if (result.status === 'flaky') {
+          tallies.flaky += 1;
+        } else if (['failed', 'timed-out'].includes(result.status)) {
+          tallies.failed += 1;
+        }
+      }
+      if (mode === 'live') {
+        scheduleDraw();
+      }
+    },
+    stop() {
+      clearInterval(timer);
+      if (mode === 'live') {
+        setLiveArea(undefined);
+        draw();
+      }
+    },
+  };
+}
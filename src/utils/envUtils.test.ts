@@ -1,7 +1,9 @@
 // src/utils/__tests__/envUtils.test.ts
 
-import { getConfig, Config } from './envUtils';
+import { getConfig, setConfigOverrides, Config } from './envUtils';
+import fs from 'fs';
 import os from 'os';
+import path from 'path';
 
 describe('getConfig', () => {
   const ORIGINAL_ENV = process.env;
@@ -48,6 +50,56 @@ describe('getConfig', () => {
       VERBOSE: true,
       CYPRESS_LOG: true,
       IS_LINUX: true,
+      TIMINGS: false,
+      TIMINGS_FILE: 'cy-parallel-timings.json',
+      TIMINGS_HISTORY: 5,
+      TIMINGS_OUTPUT: '',
+      RETRIES: 0,
+      SPEC_PATTERN: '',
+      EXCLUDE_SPEC_PATTERN: '',
+      GITIGNORE: true,
+      SHARD_INDEX: 1,
+      SHARD_TOTAL: 1,
+      FAIL_FAST: false,
+      FAIL_FAST_THRESHOLD: 1,
+      SPEC_TIMEOUT: 0,
+      SPEC_TIMEOUT_FACTOR: 3,
+      IDLE_TIMEOUT: 0,
+      RUN_TIMEOUT: 0,
+      OUTPUT_DIR: '',
+      CYPRESS_LOG_FAILED_ONLY: false,
+      JUNIT_FILE: '',
+      SUMMARY_FILE: '',
+      REPORTER: '',
+      REPORT_DIR: 'cypress/reports',
+      REPORT_HTML: false,
+      BACKEND: 'command',
+      CYPRESS_RUN_OPTIONS: '',
+      PLAN_FORMAT: 'text',
+      GREP_TAGS: '',
+      SPLIT_TESTS: 0,
+      CHANGED_SINCE: '',
+      GLOBAL_FILES:
+        'cypress/support/e2e.*,cypress/support/component.*,cypress.config.*,./package.json',
+      QUARANTINE_FILE: 'cy-parallel-quarantine.json',
+      HISTORY_FILE: '',
+      HISTORY_SIZE: 50,
+      WORKER_PORTS: 0,
+      WORKER_PORT_START: 20000,
+      WORKER_ENV: '',
+      WORKER_ENV_FILES: false,
+      GLOBAL_SETUP: '',
+      WAIT_ON: '',
+      WAIT_ON_TIMEOUT: 60,
+      WORKER_SETUP: '',
+      WORKER_TEARDOWN: '',
+      GLOBAL_TEARDOWN: '',
+      PRINT_SUMMARY: true,
+      SLOWEST_SPECS: 5,
+      DASHBOARD: 'auto',
+      DASHBOARD_INTERVAL: 30,
+      CONFIG_FILE: '',
+      PROFILE: '',
     });
   });
 
@@ -61,6 +113,9 @@ describe('getConfig', () => {
     process.env.BASE_DISPLAY_NUMBER = '100';
     process.env.VERBOSE = 'false';
     process.env.CYPRESS_LOG = 'false';
+    process.env.TIMINGS = 'true';
+    process.env.TIMINGS_FILE = '.cache/timings.json';
+    process.env.TIMINGS_HISTORY = '10';
 
     // Mock os.cpus() to return a specific number of CPUs
     const mockCpus = [{}, {}, {}, {}]; // 4 CPUs
@@ -82,6 +137,56 @@ describe('getConfig', () => {
       VERBOSE: false,
       CYPRESS_LOG: false,
       IS_LINUX: false, // process.platform is 'darwin'
+      TIMINGS: true,
+      TIMINGS_FILE: '.cache/timings.json',
+      TIMINGS_HISTORY: 10,
+      TIMINGS_OUTPUT: '',
+      RETRIES: 0,
+      SPEC_PATTERN: '',
+      EXCLUDE_SPEC_PATTERN: '',
+      GITIGNORE: true,
+      SHARD_INDEX: 1,
+      SHARD_TOTAL: 1,
+      FAIL_FAST: false,
+      FAIL_FAST_THRESHOLD: 1,
+      SPEC_TIMEOUT: 0,
+      SPEC_TIMEOUT_FACTOR: 3,
+      IDLE_TIMEOUT: 0,
+      RUN_TIMEOUT: 0,
+      OUTPUT_DIR: '',
+      CYPRESS_LOG_FAILED_ONLY: false,
+      JUNIT_FILE: '',
+      SUMMARY_FILE: '',
+      REPORTER: '',
+      REPORT_DIR: 'cypress/reports',
+      REPORT_HTML: false,
+      BACKEND: 'command',
+      CYPRESS_RUN_OPTIONS: '',
+      PLAN_FORMAT: 'text',
+      GREP_TAGS: '',
+      SPLIT_TESTS: 0,
+      CHANGED_SINCE: '',
+      GLOBAL_FILES:
+        'cypress/support/e2e.*,cypress/support/component.*,cypress.config.*,./package.json',
+      QUARANTINE_FILE: 'cy-parallel-quarantine.json',
+      HISTORY_FILE: '',
+      HISTORY_SIZE: 50,
+      WORKER_PORTS: 0,
+      WORKER_PORT_START: 20000,
+      WORKER_ENV: '',
+      WORKER_ENV_FILES: false,
+      GLOBAL_SETUP: '',
+      WAIT_ON: '',
+      WAIT_ON_TIMEOUT: 60,
+      WORKER_SETUP: '',
+      WORKER_TEARDOWN: '',
+      GLOBAL_TEARDOWN: '',
+      PRINT_SUMMARY: true,
+      SLOWEST_SPECS: 5,
+      DASHBOARD: 'auto',
+      DASHBOARD_INTERVAL: 30,
+      CONFIG_FILE: '',
+      PROFILE: '',
     });
   });
 
@@ -182,4 +287,92 @@ describe('getConfig', () => {
 
     expect(config.WORKERS).toBe(6);
   });
+
+  it('should let overrides take precedence over environment variables', () => {
+    process.env.COMMAND = 'npm run cypress';
+    process.env.POLL = 'true';
+
+    const previous = setConfigOverrides({ COMMAND: 'yarn cypress run' });
+    const config: Config = getConfig();
+    setConfigOverrides(previous);
+
+    expect(config.COMMAND).toBe('yarn cypress run');
+    expect(config.POLL).toBe(true);
+    expect(getConfig().COMMAND).toBe('npm run cypress');
+  });
+
+  it('should ignore undefined overrides', () => {
+    process.env.DIR = 'tests/cypress';
+
+    const previous = setConfigOverrides({ DIR: undefined });
+    const config: Config = getConfig();
+    setConfigOverrides(previous);
+
+    expect(config.DIR).toBe('tests/cypress');
+  });
+
+  it('should not let overrides exceed the number of CPUs', () => {
+    const mockCpus = [{}, {}]; // 2 CPUs
+    jest.spyOn(os, 'cpus').mockReturnValue(mockCpus as unknown as os.CpuInfo[]);
+
+    const previous = setConfigOverrides({ WORKERS: 8 });
+    const config: Config = getConfig();
+    setConfigOverrides(previous);
+
+    expect(config.WORKERS).toBe(2);
+  });
+
+  describe('config file', () => {
+    let tmpDir: string;
+    let configFile: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-env-'));
+      configFile = path.join(tmpDir, 'cy-parallel.config.json');
+      fs.writeFileSync(
+        configFile,
+        JSON.stringify({
+          DIR: 'file/e2e',
+          COMMAND: 'file command',
+          TIMINGS_HISTORY: 3,
+          profiles: { ci: { COMMAND: 'ci command', VERBOSE: false } },
+        })
+      );
+      process.env.CONFIG_FILE = configFile;
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should use config file values over defaults', () => {
+      const config: Config = getConfig();
+
+      expect(config.DIR).toBe('file/e2e');
+      expect(config.COMMAND).toBe('file command');
+      expect(config.TIMINGS_HISTORY).toBe(3);
+      expect(config.CONFIG_FILE).toBe(configFile);
+    });
+
+    it('should let environment variables and overrides win over the config file', () => {
+      process.env.DIR = 'env/e2e';
+
+      const previous = setConfigOverrides({ COMMAND: 'flag command' });
+      const config: Config = getConfig();
+      setConfigOverrides(previous);
+
+      expect(config.DIR).toBe('env/e2e');
+      expect(config.COMMAND).toBe('flag command');
+    });
+
+    it('should apply the profile selected by PROFILE', () => {
+      process.env.PROFILE = 'ci';
+
+      const config: Config = getConfig();
+
+      expect(config.COMMAND).toBe('ci command');
+      expect(config.VERBOSE).toBe(false);
+      expect(config.DIR).toBe('file/e2e');
+    });
+  });
 });
@@ -1,17 +1,28 @@
 import os from 'os';
+import { Config } from './configOptions';
+import { getFileConfig } from './configFileUtils';
 
-export type Config = {
-  WEIGHT_PER_TEST: number;
-  BASE_WEIGHT: number;
-  WORKERS: number;
-  DIR: string;
-  COMMAND: string;
-  POLL: boolean;
-  BASE_DISPLAY_NUMBER: number;
-  VERBOSE: boolean;
-  CYPRESS_LOG: boolean;
-  IS_LINUX: boolean;
-};
+export type { Config };
+
+let configOverrides: Partial<Config> = {};
+
+/**
+ * Sets configuration values that take precedence over environment variables.
+ * @param {Partial<Config>} overrides - The values to override.
+ * @returns {Partial<Config>} - The previously active overrides, so they can be restored.
+ */
+export function setConfigOverrides(
+  overrides: Partial<Config>
+): Partial<Config> {
+  const previous = configOverrides;
+  configOverrides = {};
+  (Object.keys(overrides) as (keyof Config)[]).forEach((key) => {
+    if (overrides[key] !== undefined) {
+      (configOverrides as Record<string, unknown>)[key] = overrides[key];
+    }
+  });
+  return previous;
+}
 
 /**
  * Retrieves and parses an environment variable based on the type of the default value.
@@ -44,20 +55,121 @@ function getEnvVar(
 
 /**
  * Retrieves and parses all environment variables into a configuration object.
+ * Precedence: overrides (flags / API options) > environment > config file > default.
  * @returns {Config} - Configuration object with environment variables.
  */
 export function getConfig(): Config {
+  // The config file location can't come from the config file itself
+  const CONFIG_FILE =
+    configOverrides.CONFIG_FILE ?? getEnvVar('CONFIG_FILE', '');
+  const PROFILE = configOverrides.PROFILE ?? getEnvVar('PROFILE', '');
+  const file = getFileConfig(CONFIG_FILE, PROFILE);
+
   // Gather configuration values
-  return {
-    WEIGHT_PER_TEST: getEnvVar('WEIGHT_PER_TEST', 1),
-    BASE_WEIGHT: getEnvVar('BASE_WEIGHT', 1),
-    WORKERS: Math.min(getEnvVar('WORKERS', os.cpus().length), os.cpus().length),
-    DIR: getEnvVar('DIR', 'cypress/e2e'),
-    COMMAND: getEnvVar('COMMAND', 'npx cypress run'),
-    POLL: getEnvVar('POLL', false) as boolean,
-    BASE_DISPLAY_NUMBER: getEnvVar('BASE_DISPLAY_NUMBER', 99),
-    VERBOSE: getEnvVar('VERBOSE', true) as boolean,
-    CYPRESS_LOG: getEnvVar('CYPRESS_LOG', true) as boolean,
+  const config: Config = {
+    WEIGHT_PER_TEST: getEnvVar('WEIGHT_PER_TEST', file.WEIGHT_PER_TEST ?? 1),
+    BASE_WEIGHT: getEnvVar('BASE_WEIGHT', file.BASE_WEIGHT ?? 1),
+    WORKERS: getEnvVar('WORKERS', file.WORKERS ?? os.cpus().length),
+    DIR: getEnvVar('DIR', file.DIR ?? 'cypress/e2e'),
+    COMMAND: getEnvVar('COMMAND', file.COMMAND ?? 'npx cypress run'),
+    POLL: getEnvVar('POLL', file.POLL ?? false) as boolean,
+    BASE_DISPLAY_NUMBER: getEnvVar(
+      'BASE_DISPLAY_NUMBER',
+      file.BASE_DISPLAY_NUMBER ?? 99
+    ),
+    VERBOSE: getEnvVar('VERBOSE', file.VERBOSE ?? true) as boolean,
+    CYPRESS_LOG: getEnvVar('CYPRESS_LOG', file.CYPRESS_LOG ?? true) as boolean,
     IS_LINUX: process.platform === 'linux',
+    TIMINGS: getEnvVar('TIMINGS', file.TIMINGS ?? false) as boolean,
+    TIMINGS_FILE: getEnvVar(
+      'TIMINGS_FILE',
+      file.TIMINGS_FILE ?? 'cy-parallel-timings.json'
+    ),
+    TIMINGS_HISTORY: getEnvVar('TIMINGS_HISTORY', file.TIMINGS_HISTORY ?? 5),
+    TIMINGS_OUTPUT: getEnvVar('TIMINGS_OUTPUT', file.TIMINGS_OUTPUT ?? ''),
+    RETRIES: getEnvVar('RETRIES', file.RETRIES ?? 0),
+    SPEC_PATTERN: getEnvVar('SPEC_PATTERN', file.SPEC_PATTERN ?? ''),
+    EXCLUDE_SPEC_PATTERN: getEnvVar(
+      'EXCLUDE_SPEC_PATTERN',
+      file.EXCLUDE_SPEC_PATTERN ?? ''
+    ),
+    GITIGNORE: getEnvVar('GITIGNORE', file.GITIGNORE ?? true) as boolean,
+    SHARD_INDEX: getEnvVar('SHARD_INDEX', file.SHARD_INDEX ?? 1),
+    SHARD_TOTAL: getEnvVar('SHARD_TOTAL', file.SHARD_TOTAL ?? 1),
+    FAIL_FAST: getEnvVar('FAIL_FAST', file.FAIL_FAST ?? false) as boolean,
+    FAIL_FAST_THRESHOLD: getEnvVar(
+      'FAIL_FAST_THRESHOLD',
+      file.FAIL_FAST_THRESHOLD ?? 1
+    ),
+    SPEC_TIMEOUT: getEnvVar('SPEC_TIMEOUT', file.SPEC_TIMEOUT ?? 0),
+    SPEC_TIMEOUT_FACTOR: getEnvVar(
+      'SPEC_TIMEOUT_FACTOR',
+      file.SPEC_TIMEOUT_FACTOR ?? 3
+    ),
+    IDLE_TIMEOUT: getEnvVar('IDLE_TIMEOUT', file.IDLE_TIMEOUT ?? 0),
+    RUN_TIMEOUT: getEnvVar('RUN_TIMEOUT', file.RUN_TIMEOUT ?? 0),
+    OUTPUT_DIR: getEnvVar('OUTPUT_DIR', file.OUTPUT_DIR ?? ''),
+    CYPRESS_LOG_FAILED_ONLY: getEnvVar(
+      'CYPRESS_LOG_FAILED_ONLY',
+      file.CYPRESS_LOG_FAILED_ONLY ?? false
+    ) as boolean,
+    JUNIT_FILE: getEnvVar('JUNIT_FILE', file.JUNIT_FILE ?? ''),
+    SUMMARY_FILE: getEnvVar('SUMMARY_FILE', file.SUMMARY_FILE ?? ''),
+    REPORTER: getEnvVar('REPORTER', file.REPORTER ?? ''),
+    REPORT_DIR: getEnvVar('REPORT_DIR', file.REPORT_DIR ?? 'cypress/reports'),
+    REPORT_HTML: getEnvVar('REPORT_HTML', file.REPORT_HTML ?? false) as boolean,
+    BACKEND: getEnvVar('BACKEND', file.BACKEND ?? 'command'),
+    CYPRESS_RUN_OPTIONS: getEnvVar(
+      'CYPRESS_RUN_OPTIONS',
+      file.CYPRESS_RUN_OPTIONS ?? ''
+    ),
+    PLAN_FORMAT: getEnvVar('PLAN_FORMAT', file.PLAN_FORMAT ?? 'text'),
+    GREP_TAGS: getEnvVar('GREP_TAGS', file.GREP_TAGS ?? ''),
+    SPLIT_TESTS: getEnvVar('SPLIT_TESTS', file.SPLIT_TESTS ?? 0),
+    CHANGED_SINCE: getEnvVar('CHANGED_SINCE', file.CHANGED_SINCE ?? ''),
+    GLOBAL_FILES: getEnvVar(
+      'GLOBAL_FILES',
+      file.GLOBAL_FILES ??
+        'cypress/support/e2e.*,cypress/support/component.*,cypress.config.*,./package.json'
+    ),
+    QUARANTINE_FILE: getEnvVar(
+      'QUARANTINE_FILE',
+      file.QUARANTINE_FILE ?? 'cy-parallel-quarantine.json'
+    ),
+    HISTORY_FILE: getEnvVar('HISTORY_FILE', file.HISTORY_FILE ?? ''),
+    HISTORY_SIZE: getEnvVar('HISTORY_SIZE', file.HISTORY_SIZE ?? 50),
+    WORKER_PORTS: getEnvVar('WORKER_PORTS', file.WORKER_PORTS ?? 0),
+    WORKER_PORT_START: getEnvVar(
+      'WORKER_PORT_START',
+      file.WORKER_PORT_START ?? 20000
+    ),
+    WORKER_ENV: getEnvVar('WORKER_ENV', file.WORKER_ENV ?? ''),
+    WORKER_ENV_FILES: getEnvVar(
+      'WORKER_ENV_FILES',
+      file.WORKER_ENV_FILES ?? false
+    ) as boolean,
+    GLOBAL_SETUP: getEnvVar('GLOBAL_SETUP', file.GLOBAL_SETUP ?? ''),
+    WAIT_ON: getEnvVar('WAIT_ON', file.WAIT_ON ?? ''),
+    WAIT_ON_TIMEOUT: getEnvVar('WAIT_ON_TIMEOUT', file.WAIT_ON_TIMEOUT ?? 60),
+    WORKER_SETUP: getEnvVar('WORKER_SETUP', file.WORKER_SETUP ?? ''),
+    WORKER_TEARDOWN: getEnvVar('WORKER_TEARDOWN', file.WORKER_TEARDOWN ?? ''),
+    GLOBAL_TEARDOWN: getEnvVar('GLOBAL_TEARDOWN', file.GLOBAL_TEARDOWN ?? ''),
+    PRINT_SUMMARY: getEnvVar(
+      'PRINT_SUMMARY',
+      file.PRINT_SUMMARY ?? true
+    ) as boolean,
+    SLOWEST_SPECS: getEnvVar('SLOWEST_SPECS', file.SLOWEST_SPECS ?? 5),
+    DASHBOARD: getEnvVar('DASHBOARD', file.DASHBOARD ?? 'auto'),
+    DASHBOARD_INTERVAL: getEnvVar(
+      'DASHBOARD_INTERVAL',
+      file.DASHBOARD_INTERVAL ?? 30
+    ),
+    CONFIG_FILE,
+    PROFILE,
   };
+
+  const merged: Config = { ...config, ...configOverrides };
+  // Never start more workers than there are CPU cores
+  merged.WORKERS = Math.min(merged.WORKERS, os.cpus().length);
+  return merged;
 }
@@ -80,14 +80,14 @@ describe('fileUtils', () => {
       expect(mockProcessExit).not.toHaveBeenCalled();
     });
 
-    it('should log an error and exit if the directory does not exist', () => {
+    it('should log an error and throw if the directory does not exist', () => {
       const error = new Error('ENOENT: no such file or directory');
       mockedFs.statSync.mockImplementation(() => {
         throw error;
       });
 
       expect(() => fileUtils.validateDir(invalidDir)).toThrow(
-        `process.exit: 1`
+        `Error accessing DIR directory: ${resolvedInvalidPath}. Error: ${error}`
       );
 
       expect(mockedFs.statSync).toHaveBeenCalledWith(resolvedInvalidPath);
@@ -95,23 +95,25 @@ describe('fileUtils', () => {
         `Error accessing DIR directory: ${resolvedInvalidPath}. Error: ${error}`,
         { type: 'error' }
       );
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(mockProcessExit).not.toHaveBeenCalled();
     });
 
-    it('should log an error and exit if the path is not a directory', () => {
+    it('should log an error and throw if the path is not a directory', () => {
       mockedFs.statSync.mockReturnValue({
         isDirectory: jest.fn().mockReturnValue(false),
         // Mock other necessary properties/methods if needed
       } as unknown as fs.Stats);
 
-      expect(() => fileUtils.validateDir(notADir)).toThrow(`process.exit: 1`);
+      expect(() => fileUtils.validateDir(notADir)).toThrow(
+        `Provided DIR is not a directory: ${resolvedNotADirPath}`
+      );
 
       expect(mockedFs.statSync).toHaveBeenCalledWith(resolvedNotADirPath);
       expect(mockedLog).toHaveBeenCalledWith(
         `Provided DIR is not a directory: ${resolvedNotADirPath}`,
         { type: 'error' }
       );
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(mockProcessExit).not.toHaveBeenCalled();
     });
   });
 
@@ -131,8 +133,14 @@ describe('fileUtils', () => {
         createMockDirent('file4.test.ts', false),
         createMockDirent('file5.js', false),
       ],
-      '/root/subdir2': [createMockDirent('subsubdir1', true)],
+      '/root/subdir2': [
+        createMockDirent('subsubdir1', true),
+        createMockDirent('node_modules', true),
+        createMockDirent('.git', true),
+      ],
       '/root/subdir2/subsubdir1': [createMockDirent('file6.test.ts', false)],
+      '/root/subdir2/node_modules': [createMockDirent('dep.cy.js', false)],
+      '/root/subdir2/.git': [createMockDirent('HEAD', false)],
     };
 
     beforeEach(() => {
@@ -152,7 +160,7 @@ describe('fileUtils', () => {
       );
     });
 
-    it('should collect all *.test.ts and *.test.tsx files recursively', () => {
+    it('should collect all files recursively', () => {
       const expectedFiles = [
         path.join(rootDir, 'file1.test.ts'),
         path.join(rootDir, 'file2.test.tsx'),
@@ -174,6 +182,42 @@ describe('fileUtils', () => {
 
       expect(result).toEqual([]);
     });
+
+    it('should skip node_modules and .git directories', () => {
+      const result = fileUtils.getTestFiles(rootDir);
+
+      expect(mockedFs.readdirSync).not.toHaveBeenCalledWith(
+        path.join(rootDir, 'subdir2', 'node_modules'),
+        expect.anything()
+      );
+      expect(result).not.toContain(
+        path.join(rootDir, 'subdir2', 'node_modules', 'dep.cy.js')
+      );
+      expect(result).not.toContain(
+        path.join(rootDir, 'subdir2', '.git', 'HEAD')
+      );
+    });
+
+    it('should skip paths ignored by .gitignore files found while walking', () => {
+      const gitignores: Record<string, string> = {
+        '/root/.gitignore': 'subdir2/\n*.js\n',
+        '/root/subdir1/.gitignore': 'file4.test.ts\n',
+      };
+      mockedFs.existsSync.mockImplementation(
+        (filePath: fs.PathLike) => filePath.toString() in gitignores
+      );
+      mockedFs.readFileSync.mockImplementation(
+        (filePath: fs.PathOrFileDescriptor) => gitignores[filePath.toString()]
+      );
+
+      const result = fileUtils.getTestFiles(rootDir, []);
+
+      expect(result).toEqual([
+        path.join(rootDir, 'file1.test.ts'),
+        path.join(rootDir, 'file2.test.tsx'),
+        path.join(rootDir, 'file3.ts'),
+      ]);
+    });
   });
 
   describe('collectTestFiles', () => {
@@ -223,16 +267,34 @@ describe('fileUtils', () => {
       expect(result).toEqual(expectedFiles);
     });
 
-    it('should log an error and exit when no test files are found', () => {
+    it('should keep only the files matching the spec patterns', () => {
+      const result = fileUtils.collectTestFiles(e2eDir, {
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['file2.*'],
+      });
+
+      expect(result).toEqual([path.join(e2eDir, 'file1.test.ts')]);
+    });
+
+    it('should throw when no file matches the spec patterns', () => {
+      expect(() =>
+        fileUtils.collectTestFiles(e2eDir, {
+          include: ['**/*.cy.js'],
+          exclude: [],
+        })
+      ).toThrow('No test files found in the provided DIR directory.');
+    });
+
+    it('should log an error and throw when no test files are found', () => {
       expect(() => fileUtils.collectTestFiles(noTestsDir)).toThrow(
-        'process.exit: 1'
+        'No test files found in the provided DIR directory.'
       );
 
       expect(mockedLog).toHaveBeenCalledWith(
         'No test files found in the provided DIR directory.',
         { type: 'error' }
       );
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(mockProcessExit).not.toHaveBeenCalled();
     });
   });
 });
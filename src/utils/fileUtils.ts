@@ -2,10 +2,15 @@
 import fs from 'fs';
 import path from 'path';
 import { log } from './logging';
+import { IgnoreRule, isIgnored, parseGitignore } from './globUtils';
+import { matchesSpecPatterns, SpecPatterns } from './specPatternUtils';
+
+// Directories that never contain specs to run
+const SKIPPED_DIRECTORIES = ['node_modules', '.git'];
 
 /**
  * Resolves and validates the directory path.
- * Exits the process if the directory is invalid.
+ * Throws if the directory is invalid.
  *
  * @param {string} dir - The directory path to validate.
  * @returns {string} - The resolved absolute directory path.
@@ -16,35 +21,89 @@ export function validateDir(dir: string): string {
   let stats: fs.Stats;
   try {
     stats = fs.statSync(resolvedPath);
-    if (!stats.isDirectory()) {
-      log(`Provided DIR is not a directory: ${resolvedPath}`, {
-        type: 'error',
-      });
-      process.exit(1);
-    }
   } catch (error) {
-    log(`Error accessing DIR directory: ${resolvedPath}. Error: ${error}`, {
-      type: 'error',
-    });
-    process.exit(1);
+    const message = `Error accessing DIR directory: ${resolvedPath}. Error: ${error}`;
+    log(message, { type: 'error' });
+    throw new Error(message);
+  }
+
+  if (!stats.isDirectory()) {
+    const message = `Provided DIR is not a directory: ${resolvedPath}`;
+    log(message, { type: 'error' });
+    throw new Error(message);
   }
 
   return resolvedPath;
 }
 
 /**
- * Recursively collects all *.test.ts and *.test.tsx files from the given directory.
+ * Reads the .gitignore rules of a directory.
+ * @param {string} dir - The directory that may contain a .gitignore file.
+ * @returns {IgnoreRule[]} - The parsed rules, or an empty array without a .gitignore.
+ */
+function readGitignore(dir: string): IgnoreRule[] {
+  const gitignorePath = path.join(dir, '.gitignore');
+  if (!fs.existsSync(gitignorePath)) {
+    return [];
+  }
+  return parseGitignore(fs.readFileSync(gitignorePath, 'utf8'), dir);
+}
+
+/**
+ * Collects the .gitignore rules of the ancestors of a directory, up to the
+ * repository root (the nearest directory containing .git) or the filesystem root.
+ * @param {string} dir - The directory whose ancestors are searched.
+ * @returns {IgnoreRule[]} - The rules, ordered from the outermost .gitignore inwards.
+ */
+export function getAncestorGitignoreRules(dir: string): IgnoreRule[] {
+  const ancestors: string[] = [];
+  let current = path.resolve(dir);
+
+  while (!fs.existsSync(path.join(current, '.git'))) {
+    const parent = path.dirname(current);
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+    ancestors.unshift(current);
+  }
+
+  return ancestors.reduce<IgnoreRule[]>(
+    (rules, ancestor) => rules.concat(readGitignore(ancestor)),
+    []
+  );
+}
+
+/**
+ * Recursively collects all files from the given directory, skipping node_modules and .git.
+ * When ignore rules are given, paths matched by them or by any .gitignore found
+ * along the way are skipped as well.
  * @param {string} dir - The directory path to search for test files.
- * @returns {string[]} - An array of test file paths ending with *.test.ts or *.test.tsx.
+ * @param {IgnoreRule[]} [ignoreRules] - .gitignore rules inherited from parent directories.
+ * @returns {string[]} - An array of file paths.
  */
-export function getTestFiles(dir: string): string[] {
+export function getTestFiles(
+  dir: string,
+  ignoreRules?: IgnoreRule[]
+): string[] {
+  const rules = ignoreRules
+    ? ignoreRules.concat(readGitignore(dir))
+    : undefined;
   let testFiles: string[] = [];
   const entries = fs.readdirSync(dir, { withFileTypes: true });
 
   for (const entry of entries) {
     const fullPath = path.join(dir, entry.name);
-    if (entry.isDirectory()) {
-      testFiles = testFiles.concat(getTestFiles(fullPath));
+    const isDirectory = entry.isDirectory();
+    if (
+      (isDirectory && SKIPPED_DIRECTORIES.includes(entry.name)) ||
+      (rules && isIgnored(fullPath, isDirectory, rules))
+    ) {
+      continue;
+    }
+
+    if (isDirectory) {
+      testFiles = testFiles.concat(getTestFiles(fullPath, rules));
     } else {
       testFiles.push(fullPath);
     }
@@ -55,17 +114,29 @@ export function getTestFiles(dir: string): string[] {
 
 /**
  * Collects and validates test files based on the provided directory.
+ * Throws if no test files are found.
  * @param {string} directory - The directory path containing test files.
+ * @param {SpecPatterns} [patterns] - Include/exclude globs; all files are collected without them.
+ * @param {boolean} [gitignore=false] - Whether to skip files ignored by .gitignore.
  * @returns {string[]} - An array of valid test file paths.
  */
-export function collectTestFiles(directory: string): string[] {
-  const testFiles: string[] = getTestFiles(directory);
+export function collectTestFiles(
+  directory: string,
+  patterns?: SpecPatterns,
+  gitignore: boolean = false
+): string[] {
+  const allFiles: string[] = getTestFiles(
+    directory,
+    gitignore ? getAncestorGitignoreRules(directory) : undefined
+  );
+  const testFiles = patterns
+    ? allFiles.filter((file) => matchesSpecPatterns(file, directory, patterns))
+    : allFiles;
 
   if (testFiles.length === 0) {
-    log('No test files found in the provided DIR directory.', {
-      type: 'error',
-    });
-    process.exit(1);
+    const message = 'No test files found in the provided DIR directory.';
+    log(message, { type: 'error' });
+    throw new Error(message);
   }
 
   log(`Found ${testFiles.length} test files in '${directory}'.`, {
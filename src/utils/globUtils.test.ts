@@ -0,0 +1,81 @@
+import path from 'path';
+import {
+  globToRegExp,
+  isIgnored,
+  matchesGlob,
+  parseGitignore,
+  splitPatterns,
+} from './globUtils';
+
+describe('globUtils', () => {
+  describe('splitPatterns', () => {
+    it('should split on commas outside braces and trim the patterns', () => {
+      expect(splitPatterns('**/*.cy.{js,ts}, e2e/**/*.spec.js,')).toEqual([
+        '**/*.cy.{js,ts}',
+        'e2e/**/*.spec.js',
+      ]);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it.each([
+      ['*.cy.js', 'login.cy.js', true],
+      ['*.cy.js', 'auth/login.cy.js', false],
+      ['**/*.cy.js', 'login.cy.js', true],
+      ['**/*.cy.js', 'auth/deep/login.cy.js', true],
+      ['e2e/**', 'e2e/auth/login.cy.js', true],
+      ['*.cy.{js,ts}', 'login.cy.ts', true],
+      ['*.cy.{js,ts}', 'login.cy.tsx', false],
+      ['spec-?.js', 'spec-1.js', true],
+      ['spec-[!0-9].js', 'spec-1.js', false],
+      ['spec-[a-c].js', 'spec-b.js', true],
+      ['a+b.js', 'a+b.js', true],
+    ])('%s should match %s: %s', (pattern, file, expected) => {
+      expect(globToRegExp(pattern).test(file)).toBe(expected);
+    });
+  });
+
+  describe('matchesGlob', () => {
+    it('should match patterns without a slash against the file name', () => {
+      expect(matchesGlob('cypress/e2e/login.cy.js', '*.cy.js')).toBe(true);
+    });
+
+    it('should match patterns with a slash against the whole path', () => {
+      expect(matchesGlob('cypress/e2e/login.cy.js', 'e2e/*.cy.js')).toBe(false);
+      expect(
+        matchesGlob('cypress/e2e/login.cy.js', './cypress/e2e/*.cy.js')
+      ).toBe(true);
+    });
+  });
+
+  describe('gitignore rules', () => {
+    const baseDir = path.resolve('/repo');
+    const rules = parseGitignore(
+      '# build output\ndist/\n*.log\n/cypress/generated\n!keep.log\n\n',
+      baseDir
+    );
+
+    it('should skip comments and blank lines', () => {
+      expect(rules).toHaveLength(4);
+    });
+
+    it.each([
+      ['dist', true, true],
+      ['dist', false, false],
+      ['packages/app/dist', true, true],
+      ['debug.log', false, true],
+      ['keep.log', false, false],
+      ['cypress/generated', true, true],
+      ['src/cypress/generated', true, false],
+      ['cypress/e2e/login.cy.js', false, false],
+    ])('%s (directory: %s) should be ignored: %s', (file, isDir, expected) => {
+      expect(isIgnored(path.join(baseDir, file), isDir, rules)).toBe(expected);
+    });
+
+    it('should not apply rules to paths outside their base directory', () => {
+      expect(isIgnored(path.resolve('/other/debug.log'), false, rules)).toBe(
+        false
+      );
+    });
+  });
+});
@@ -0,0 +1,162 @@
+// src/utils/globUtils.ts
+import path from 'path';
+
+export interface IgnoreRule {
+  baseDir: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Splits a comma-separated list of glob patterns, keeping commas inside braces.
+ * @param {string} value - e.g. "**\/*.cy.{js,ts},**\/*.spec.js".
+ * @returns {string[]} - The individual, trimmed patterns.
+ */
+export function splitPatterns(value: string): string[] {
+  const patterns: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '{') {
+      depth += 1;
+    } else if (char === '}') {
+      depth = Math.max(depth - 1, 0);
+    }
+
+    if (char === ',' && depth === 0) {
+      patterns.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  patterns.push(current);
+
+  return patterns.map((pattern) => pattern.trim()).filter(Boolean);
+}
+
+/**
+ * Converts a glob pattern into a regular expression matching forward-slash paths.
+ * Supports **, *, ?, {a,b} alternatives and [abc] / [!abc] character classes.
+ * @param {string} pattern - The glob pattern.
+ * @returns {RegExp} - A regular expression matching the whole path.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  let groupDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      regex += `\\${pattern[++i]}`;
+    } else if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        i += 1;
+        if (pattern[i + 1] === '/') {
+          // "**/" matches zero or more directories
+          i += 1;
+          regex += '(?:.*/)?';
+        } else {
+          regex += '.*';
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      groupDepth += 1;
+      regex += '(?:';
+    } else if (char === '}' && groupDepth > 0) {
+      groupDepth -= 1;
+      regex += ')';
+    } else if (char === ',' && groupDepth > 0) {
+      regex += '|';
+    } else if (char === '[' && pattern.indexOf(']', i + 1) > i + 1) {
+      const end = pattern.indexOf(']', i + 1);
+      const body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      regex += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else {
+      regex += char.replace(/[.+^$()|\\[\]{}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Checks whether a path matches a glob pattern.
+ * Patterns without a slash are matched against the file name only.
+ * @param {string} filePath - A relative path; backslashes are treated as separators.
+ * @param {string} pattern - The glob pattern.
+ * @returns {boolean} - True if the path matches.
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const normalized = filePath.split(path.sep).join('/');
+  const target = pattern.includes('/')
+    ? normalized
+    : normalized.slice(normalized.lastIndexOf('/') + 1);
+  return globToRegExp(pattern.replace(/^\.\//, '')).test(target);
+}
+
+/**
+ * Parses the contents of a .gitignore file.
+ * @param {string} contents - The .gitignore contents.
+ * @param {string} baseDir - The directory containing the .gitignore file.
+ * @returns {IgnoreRule[]} - The parsed rules, in file order.
+ */
+export function parseGitignore(
+  contents: string,
+  baseDir: string
+): IgnoreRule[] {
+  return contents
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+$/, ''))
+    .filter((line) => line !== '' && !line.startsWith('#'))
+    .map((line) => {
+      const negate = line.startsWith('!');
+      let pattern = negate ? line.slice(1) : line;
+      const dirOnly = pattern.endsWith('/');
+      pattern = pattern.replace(/\/+$/, '');
+      // A pattern with a slash (other than a trailing one) is relative to baseDir,
+      // otherwise it matches at any depth
+      pattern = pattern.includes('/')
+        ? pattern.replace(/^\//, '')
+        : `**/${pattern}`;
+      return { baseDir, regex: globToRegExp(pattern), negate, dirOnly };
+    });
+}
+
+/**
+ * Checks whether a path is ignored by a set of .gitignore rules.
+ * The last matching rule wins, so negated rules can re-include paths.
+ * @param {string} fullPath - The absolute path to check.
+ * @param {boolean} isDirectory - Whether the path is a directory.
+ * @param {IgnoreRule[]} rules - Rules ordered from the outermost .gitignore inwards.
+ * @returns {boolean} - True if the path is ignored.
+ */
+export function isIgnored(
+  fullPath: string,
+  isDirectory: boolean,
+  rules: IgnoreRule[]
+): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    const relativePath = path.relative(rule.baseDir, fullPath);
+    if (
+      relativePath.startsWith('..') ||
+      (rule.dirOnly && !isDirectory) ||
+      !rule.regex.test(relativePath.split(path.sep).join('/'))
+    ) {
+      continue;
+    }
+    ignored = !rule.negate;
+  }
+
+  return ignored;
+}
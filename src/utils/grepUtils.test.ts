@@ -0,0 +1,54 @@
+import { matchesGrepTags, parseGrepTags } from './grepUtils';
+
+describe('grepUtils', () => {
+  describe('parseGrepTags', () => {
+    it('should parse alternatives, required and inverted tags', () => {
+      expect(parseGrepTags('@smoke+-@slow @critical')).toEqual([
+        [
+          { tag: '@smoke', invert: false },
+          { tag: '@slow', invert: true },
+        ],
+        [{ tag: '@critical', invert: false }],
+      ]);
+    });
+
+    it('should add globally excluded tags to every alternative', () => {
+      expect(parseGrepTags('@smoke,@critical --@flaky')).toEqual([
+        [
+          { tag: '@smoke', invert: false },
+          { tag: '@flaky', invert: true },
+        ],
+        [
+          { tag: '@critical', invert: false },
+          { tag: '@flaky', invert: true },
+        ],
+      ]);
+      expect(parseGrepTags('--@flaky')).toEqual([
+        [{ tag: '@flaky', invert: true }],
+      ]);
+    });
+
+    it('should parse an empty expression as no alternatives', () => {
+      expect(parseGrepTags('  ')).toEqual([]);
+    });
+  });
+
+  describe('matchesGrepTags', () => {
+    it('should match when every tag of one alternative is satisfied', () => {
+      const expression = parseGrepTags('@smoke+-@slow @critical');
+
+      expect(matchesGrepTags(expression, ['@smoke'])).toBe(true);
+      expect(matchesGrepTags(expression, ['@smoke', '@slow'])).toBe(false);
+      expect(matchesGrepTags(expression, ['@critical', '@slow'])).toBe(true);
+      expect(matchesGrepTags(expression, [])).toBe(false);
+    });
+
+    it('should match everything with an empty expression', () => {
+      expect(matchesGrepTags([], [])).toBe(true);
+    });
+
+    it('should match untagged tests when only excluding tags', () => {
+      expect(matchesGrepTags(parseGrepTags('-@slow'), [])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+// src/utils/grepUtils.ts
+
+// A tag of a grep expression; inverted tags must be absent
+export interface GrepTag {
+  tag: string;
+  invert: boolean;
+}
+
+/**
+ * Parses a tag expression with the syntax of @cypress/grep's `grepTags`:
+ * space- or comma-separated alternatives, `+` between tags that must all be
+ * present, `-@tag` for a tag that must be absent and `--@tag` for a tag that
+ * excludes a test whatever the alternative.
+ * @param {string} expression - The tag expression, e.g. `@smoke+-@slow @critical`.
+ * @returns {GrepTag[][]} - The alternatives; empty when the expression is empty.
+ */
+export function parseGrepTags(expression: string): GrepTag[][] {
+  const excluded: GrepTag[] = [];
+  const alternatives: GrepTag[][] = [];
+
+  expression
+    .split(/[ ,]/)
+    .filter(Boolean)
+    .forEach((part) => {
+      if (part.startsWith('--')) {
+        excluded.push({ tag: part.slice(2), invert: true });
+        return;
+      }
+      alternatives.push(
+        part
+          .split('+')
+          .filter(Boolean)
+          .map((tag) =>
+            tag.startsWith('-')
+              ? { tag: tag.slice(1), invert: true }
+              : { tag, invert: false }
+          )
+      );
+    });
+
+  if (excluded.length === 0) {
+    return alternatives;
+  }
+  return alternatives.length > 0
+    ? alternatives.map((alternative) => [...alternative, ...excluded])
+    : [excluded];
+}
+
+/**
+ * Checks whether a test with the given tags is selected by a tag expression.
+ * @param {GrepTag[][]} expression - The parsed tag expression.
+ * @param {string[]} tags - The tags of the test, including those of its suites.
+ * @returns {boolean} - True if the test runs; always true for an empty expression.
+ */
+export function matchesGrepTags(
+  expression: GrepTag[][],
+  tags: string[]
+): boolean {
+  if (expression.length === 0) {
+    return true;
+  }
+  return expression.some((alternative) =>
+    alternative.every(({ tag, invert }) => tags.includes(tag) !== invert)
+  );
+}
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createHistory,
+  getFlakySpecs,
+  loadHistory,
+  recordRun,
+  saveHistory,
+} from './historyUtils';
+import { HistoryData, SpecResult } from '../types';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+const result = (spec: string, status: SpecResult['status']): SpecResult => ({
+  spec,
+  workerIndex: 0,
+  status,
+  duration: 1000,
+  attempts: [],
+});
+
+describe('historyUtils', () => {
+  describe('recordRun', () => {
+    it('should record the outcome of each spec that was not cancelled', () => {
+      const history = createHistory();
+
+      recordRun(
+        history,
+        [
+          result('a.cy.ts', 'passed'),
+          result('b.cy.ts', 'flaky'),
+          result('c.cy.ts', 'timed-out'),
+          result('d.cy.ts', 'cancelled'),
+        ],
+        1000,
+        'abc',
+        10
+      );
+
+      expect(history.runs).toEqual([
+        {
+          commit: 'abc',
+          startedAt: 1000,
+          specs: {
+            'a.cy.ts': 'passed',
+            'b.cy.ts': 'flaky',
+            'c.cy.ts': 'failed',
+          },
+        },
+      ]);
+    });
+
+    it('should keep only the most recent runs', () => {
+      const history = createHistory();
+      [1, 2, 3].forEach((startedAt) =>
+        recordRun(history, [], startedAt, undefined, 2)
+      );
+
+      expect(history.runs.map((run) => run.startedAt)).toEqual([2, 3]);
+    });
+  });
+
+  describe('getFlakySpecs', () => {
+    it('should score the commits on which a spec both passed and failed', () => {
+      const history: HistoryData = {
+        version: 1,
+        runs: [
+          { commit: 'c1', startedAt: 1, specs: { 'a.cy.ts': 'failed' } },
+          // Re-run of c1
+          {
+            commit: 'c1',
+            startedAt: 2,
+            specs: { 'a.cy.ts': 'passed', 'b.cy.ts': 'passed' },
+          },
+          {
+            commit: 'c2',
+            startedAt: 3,
+            specs: { 'a.cy.ts': 'passed', 'b.cy.ts': 'failed' },
+          },
+          // Passed on retry within one run, outside git
+          { startedAt: 4, specs: { 'b.cy.ts': 'flaky', 'c.cy.ts': 'failed' } },
+        ],
+      };
+
+      expect(getFlakySpecs(history, new Map())).toEqual([
+        {
+          spec: 'a.cy.ts',
+          commits: 2,
+          flakyCommits: 1,
+          score: 0.5,
+          quarantined: false,
+        },
+        {
+          spec: 'b.cy.ts',
+          commits: 3,
+          flakyCommits: 1,
+          score: 0.33,
+          quarantined: false,
+        },
+      ]);
+    });
+
+    it('should flag the specs already quarantined', () => {
+      const history: HistoryData = {
+        version: 1,
+        runs: [{ startedAt: 1, specs: { 'a.cy.ts': 'flaky' } }],
+      };
+
+      expect(
+        getFlakySpecs(
+          history,
+          new Map([['a.cy.ts', { spec: 'a.cy.ts', reason: 'flaky' }]])
+        )[0].quarantined
+      ).toBe(true);
+    });
+  });
+
+  describe('loadHistory and saveHistory', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-history-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should round-trip the history', () => {
+      const historyFile = path.join(tmpDir, 'nested', 'history.json');
+      const history = createHistory();
+      recordRun(history, [result('a.cy.ts', 'passed')], 1, 'abc', 10);
+
+      saveHistory(historyFile, history);
+
+      expect(loadHistory(historyFile)).toEqual(history);
+    });
+
+    it('should start over from a missing or unsupported file', () => {
+      const historyFile = path.join(tmpDir, 'history.json');
+      expect(loadHistory(historyFile)).toEqual(createHistory());
+
+      fs.writeFileSync(historyFile, JSON.stringify({ version: 2, runs: [] }));
+      expect(loadHistory(historyFile)).toEqual(createHistory());
+    });
+  });
+});
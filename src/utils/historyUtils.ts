@@ -0,0 +1,153 @@
+// src/utils/historyUtils.ts
+import fs from 'fs';
+import path from 'path';
+import {
+  FlakySpec,
+  HistoryData,
+  HistoryOutcome,
+  QuarantineEntry,
+  SpecResult,
+} from '../types';
+import { log } from './logging';
+import { getSpecKey } from './timingUtils';
+
+const HISTORY_VERSION = 1;
+
+/**
+ * Creates an empty run history.
+ * @returns {HistoryData} - History without any runs.
+ */
+export function createHistory(): HistoryData {
+  return { version: HISTORY_VERSION, runs: [] };
+}
+
+/**
+ * Loads the run history from disk.
+ * Returns an empty history if the file does not exist or cannot be parsed.
+ * @param {string} historyFile - Path to the history file.
+ * @returns {HistoryData} - The loaded history.
+ */
+export function loadHistory(historyFile: string): HistoryData {
+  const resolvedPath = path.resolve(historyFile);
+
+  if (!fs.existsSync(resolvedPath)) {
+    log(`No history file found at ${resolvedPath}.`, { type: 'info' });
+    return createHistory();
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(resolvedPath, 'utf8'));
+    if (
+      !parsed ||
+      parsed.version !== HISTORY_VERSION ||
+      !Array.isArray(parsed.runs)
+    ) {
+      log(`Ignoring history file with unsupported format: ${resolvedPath}`, {
+        type: 'warn',
+      });
+      return createHistory();
+    }
+    return parsed as HistoryData;
+  } catch (error) {
+    log(`Error reading history file: ${resolvedPath}. Error: ${error}`, {
+      type: 'warn',
+    });
+    return createHistory();
+  }
+}
+
+/**
+ * Writes the run history to disk, creating parent directories as needed.
+ * @param {string} historyFile - Path to the history file.
+ * @param {HistoryData} history - The history to persist.
+ */
+export function saveHistory(historyFile: string, history: HistoryData): void {
+  const resolvedPath = path.resolve(historyFile);
+
+  try {
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+    fs.writeFileSync(resolvedPath, `${JSON.stringify(history, null, 2)}\n`);
+    log(`Saved the run history to ${resolvedPath}.`, { type: 'info' });
+  } catch (error) {
+    log(`Error writing history file: ${resolvedPath}. Error: ${error}`, {
+      type: 'error',
+    });
+  }
+}
+
+/**
+ * Records the outcome of each spec of a run, keeping only the most recent runs.
+ * Cancelled specs are left out: they say nothing about the spec.
+ * @param {HistoryData} history - The history to update.
+ * @param {SpecResult[]} specs - The results of the run.
+ * @param {number} startedAt - When the run started, in milliseconds since the epoch.
+ * @param {string | undefined} commit - The commit the run tested.
+ * @param {number} historySize - The number of runs to keep.
+ */
+export function recordRun(
+  history: HistoryData,
+  specs: SpecResult[],
+  startedAt: number,
+  commit: string | undefined,
+  historySize: number
+): void {
+  const outcomes: Record<string, HistoryOutcome> = {};
+  specs.forEach((spec) => {
+    if (spec.status === 'passed' || spec.status === 'flaky') {
+      outcomes[getSpecKey(spec.spec)] = spec.status;
+    } else if (spec.status === 'failed' || spec.status === 'timed-out') {
+      outcomes[getSpecKey(spec.spec)] = 'failed';
+    }
+  });
+  history.runs = [
+    ...history.runs,
+    { ...(commit ? { commit } : {}), startedAt, specs: outcomes },
+  ].slice(-Math.max(historySize, 1));
+}
+
+/**
+ * Scores the flakiness of the specs: the share of the commits a spec ran on
+ * where it both passed and failed, within one run (a pass on retry) or across
+ * runs of the same commit. Runs without a commit count as commits of their own.
+ * @param {HistoryData} history - The run history.
+ * @param {Map<string, QuarantineEntry>} quarantine - The active quarantine, by spec key.
+ * @returns {FlakySpec[]} - The specs that were flaky at least once, most flaky first.
+ */
+export function getFlakySpecs(
+  history: HistoryData,
+  quarantine: Map<string, QuarantineEntry>
+): FlakySpec[] {
+  // Outcomes of each spec, by commit
+  const outcomes = new Map<string, Map<string, Set<HistoryOutcome>>>();
+  history.runs.forEach((run, index) => {
+    const commit = run.commit ?? `run-${index}`;
+    Object.entries(run.specs).forEach(([spec, outcome]) => {
+      const byCommit =
+        outcomes.get(spec) ?? new Map<string, Set<HistoryOutcome>>();
+      outcomes.set(spec, byCommit);
+      byCommit.set(commit, (byCommit.get(commit) ?? new Set()).add(outcome));
+    });
+  });
+
+  const flakySpecs: FlakySpec[] = [];
+  outcomes.forEach((byCommit, spec) => {
+    const flakyCommits = [...byCommit.values()].filter(
+      (seen) => seen.has('flaky') || (seen.has('passed') && seen.has('failed'))
+    ).length;
+    if (flakyCommits > 0) {
+      flakySpecs.push({
+        spec,
+        commits: byCommit.size,
+        flakyCommits,
+        score: Math.round((flakyCommits / byCommit.size) * 100) / 100,
+        quarantined: quarantine.has(spec),
+      });
+    }
+  });
+  return flakySpecs.sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.flakyCommits - a.flakyCommits ||
+      a.spec.localeCompare(b.spec)
+  );
+}
@@ -0,0 +1,216 @@
+import http from 'http';
+import net from 'net';
+import {
+  isTargetReady,
+  parseWaitOn,
+  runHook,
+  startGlobalSetup,
+  stopHook,
+} from './hookUtils';
+import { log } from './logging';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+// Runs a script with the Node binary running the tests, quoted for the shell
+const node = (script: string) =>
+  `"${process.execPath}" -e ${JSON.stringify(script)}`;
+
+const getFreePort = async (): Promise<number> => {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+};
+
+describe('hookUtils', () => {
+  const mockLog = log as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseWaitOn', () => {
+    it('should parse URLs and ports', () => {
+      expect(parseWaitOn('')).toEqual([]);
+      expect(
+        parseWaitOn(
+          'http://localhost:3000/health, 4000,db:5432,tcp:127.0.0.1:6379'
+        )
+      ).toEqual([
+        { url: 'http://localhost:3000/health' },
+        { host: 'localhost', port: 4000 },
+        { host: 'db', port: 5432 },
+        { host: '127.0.0.1', port: 6379 },
+      ]);
+    });
+
+    it('should reject anything else', () => {
+      expect(() => parseWaitOn('localhost')).toThrow(
+        'Invalid WAIT_ON "localhost": use URLs like http://localhost:3000 or ports like localhost:3000.'
+      );
+    });
+  });
+
+  describe('isTargetReady', () => {
+    let server: http.Server;
+    let port: number;
+    let status: number;
+
+    beforeEach(async () => {
+      status = 404;
+      server = http.createServer((_request, response) => {
+        response.statusCode = status;
+        response.end();
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      ({ port } = server.address() as net.AddressInfo);
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should accept URLs answering without a server error', async () => {
+      const url = `http://localhost:${port}/`;
+      await expect(isTargetReady({ url })).resolves.toBe(true);
+      status = 503;
+      await expect(isTargetReady({ url })).resolves.toBe(false);
+    });
+
+    it('should accept ports accepting connections', async () => {
+      await expect(isTargetReady({ host: 'localhost', port })).resolves.toBe(
+        true
+      );
+      const closed = await getFreePort();
+      await expect(
+        isTargetReady({ host: 'localhost', port: closed })
+      ).resolves.toBe(false);
+      await expect(
+        isTargetReady({ url: `http://localhost:${closed}/` })
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('runHook', () => {
+    it('should log the output with the environment of the worker', async () => {
+      await runHook(
+        'worker setup',
+        node(
+          'console.log("seeding " + process.env.DB_NAME); console.error("partial")'
+        ),
+        { env: { DB_NAME: 'e2e_2' }, workerId: 2 }
+      );
+
+      expect(mockLog).toHaveBeenCalledWith('worker setup: seeding e2e_2', {
+        type: 'info',
+        workerId: 2,
+      });
+      expect(mockLog).toHaveBeenCalledWith('worker setup: partial', {
+        type: 'info',
+        workerId: 2,
+      });
+      expect(mockLog).toHaveBeenCalledWith(
+        'The worker setup command completed.',
+        { type: 'success', workerId: 2 }
+      );
+    });
+
+    it('should reject when the command fails', async () => {
+      await expect(
+        runHook('global teardown', node('process.exit(3)'))
+      ).rejects.toThrow('The global teardown command failed with exit code 3.');
+    });
+
+    it('should stop the command when aborted', async () => {
+      const controller = new AbortController();
+      const hook = runHook(
+        'worker setup',
+        node('setInterval(() => {}, 1000)'),
+        {
+          signal: controller.signal,
+        }
+      );
+      setTimeout(() => controller.abort(), 200);
+
+      await expect(hook).resolves.toBeUndefined();
+      expect(mockLog).toHaveBeenCalledWith(
+        'The worker setup command was stopped.',
+        { type: 'warn', workerId: undefined }
+      );
+    });
+
+    it('should not start when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await runHook('worker setup', node('process.exit(1)'), {
+        signal: controller.signal,
+      });
+
+      expect(mockLog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startGlobalSetup', () => {
+    it('should run the command to completion without targets', async () => {
+      await expect(
+        startGlobalSetup(node('console.log("migrated")'), [], 1000)
+      ).resolves.toBeUndefined();
+      expect(mockLog).toHaveBeenCalledWith('global setup: migrated', {
+        type: 'info',
+        workerId: undefined,
+      });
+    });
+
+    it('should keep a server running once it is ready', async () => {
+      const port = await getFreePort();
+      const hook = await startGlobalSetup(
+        node(
+          `setTimeout(() => require('http').createServer((q, r) => r.end()).listen(${port}), 300)`
+        ),
+        [{ url: `http://localhost:${port}/` }],
+        10000
+      );
+
+      expect(hook?.process.exitCode).toBeNull();
+      expect(mockLog).toHaveBeenCalledWith(`http://localhost:${port}/ ready.`, {
+        type: 'success',
+      });
+      await stopHook(hook as NonNullable<typeof hook>);
+      await expect(isTargetReady({ host: 'localhost', port })).resolves.toBe(
+        false
+      );
+    });
+
+    it('should fail when the command exits before the targets are ready', async () => {
+      const port = await getFreePort();
+
+      await expect(
+        startGlobalSetup(
+          node('process.exit(2)'),
+          [{ host: 'localhost', port }],
+          10000
+        )
+      ).rejects.toThrow(
+        `The global setup command failed with exit code 2 before localhost:${port} was ready.`
+      );
+    });
+
+    it('should stop the command when the targets time out', async () => {
+      const port = await getFreePort();
+
+      await expect(
+        startGlobalSetup(
+          node('setInterval(() => {}, 1000)'),
+          [{ host: 'localhost', port }],
+          300
+        )
+      ).rejects.toThrow(
+        `localhost:${port} was not ready within 0.3s (WAIT_ON_TIMEOUT).`
+      );
+    });
+  });
+});
@@ -0,0 +1,293 @@
+// src/utils/hookUtils.ts
+import { spawn, ChildProcess } from 'child_process';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { log } from './logging';
+import {
+  killProcessTree,
+  trackChildProcess,
+  USE_PROCESS_GROUPS,
+} from './processUtils';
+
+// A resource WAIT_ON waits for: a URL that answers or a port that accepts connections
+export type WaitTarget = { url: string } | { host: string; port: number };
+
+export interface HookOptions {
+  // Extra environment variables, e.g. those of the worker
+  env?: NodeJS.ProcessEnv;
+  // The 1-based worker the hook runs for, for the logs
+  workerId?: number;
+  // Aborting kills the hook and everything it spawned
+  signal?: AbortSignal;
+}
+
+export interface HookProcess {
+  process: ChildProcess;
+  // Resolves with the exit code once the hook has exited, null if it was killed
+  exited: Promise<number | null>;
+}
+
+// How often WAIT_ON targets are checked, and how long a single check may take
+const WAIT_POLL_INTERVAL = 500;
+const CHECK_TIMEOUT = 2000;
+// Time a hook gets to exit after SIGTERM before it is killed
+const KILL_GRACE_PERIOD = 5000;
+
+/**
+ * Parses the WAIT_ON setting.
+ * @param {string} value - Comma-separated URLs (`http://localhost:3000`) and
+ * ports (`3000`, `localhost:3000` or `tcp:localhost:3000`).
+ * @returns {WaitTarget[]} - The targets; empty for an empty value.
+ */
+export function parseWaitOn(value: string): WaitTarget[] {
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part): WaitTarget => {
+      if (/^https?:\/\//.test(part)) {
+        return { url: part };
+      }
+      const match = /^(?:tcp:)?(?:([^:/]+):)?(\d+)$/.exec(part);
+      if (!match) {
+        throw new Error(
+          `Invalid WAIT_ON "${part}": use URLs like http://localhost:3000 or ports like localhost:3000.`
+        );
+      }
+      return { host: match[1] ?? 'localhost', port: Number(match[2]) };
+    });
+}
+
+/**
+ * Describes a WAIT_ON target for the logs.
+ * @param {WaitTarget} target - The target.
+ * @returns {string} - Its URL or `host:port`.
+ */
+function describeTarget(target: WaitTarget): string {
+  return 'url' in target ? target.url : `${target.host}:${target.port}`;
+}
+
+/**
+ * Checks whether a WAIT_ON target is ready: a URL must answer with a status
+ * below 500, so that e.g. a 404 still counts as a running server, and a port
+ * must accept connections.
+ * @param {WaitTarget} target - The target.
+ * @returns {Promise<boolean>} - True if the target is ready.
+ */
+export function isTargetReady(target: WaitTarget): Promise<boolean> {
+  return new Promise((resolve) => {
+    if ('url' in target) {
+      const client = target.url.startsWith('https:') ? https : http;
+      const request = client.get(target.url, (response) => {
+        response.resume();
+        resolve((response.statusCode ?? 500) < 500);
+      });
+      request.setTimeout(CHECK_TIMEOUT, () => request.destroy());
+      request.on('error', () => resolve(false));
+      return;
+    }
+    const socket = net.connect({ host: target.host, port: target.port });
+    socket.setTimeout(CHECK_TIMEOUT, () => socket.destroy());
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+    socket.once('close', () => resolve(false));
+  });
+}
+
+/**
+ * Logs output of a hook line by line, keeping partial lines until they end.
+ * @param {string} name - The hook, e.g. `global setup`.
+ * @param {number} [workerId] - The worker the hook runs for.
+ * @returns {{ write: (data: Buffer) => void; end: () => void }} - The line logger.
+ */
+function createLineLogger(
+  name: string,
+  workerId?: number
+): { write: (data: Buffer) => void; end: () => void } {
+  let partial = '';
+  const logLine = (line: string) => {
+    if (line.trim()) {
+      log(`${name}: ${line}`, { type: 'info', workerId });
+    }
+  };
+  return {
+    write: (data: Buffer) => {
+      const lines = (partial + data.toString()).split(/\r?\n/);
+      partial = lines.pop() ?? '';
+      lines.forEach(logLine);
+    },
+    end: () => {
+      logLine(partial);
+      partial = '';
+    },
+  };
+}
+
+/**
+ * Starts a hook command in a shell, in its own process group, and logs its
+ * output through log.
+ * @param {string} name - The hook, e.g. `global setup`.
+ * @param {string} command - The shell command.
+ * @param {HookOptions} [options] - Environment and worker.
+ * @returns {HookProcess} - The running hook.
+ */
+export function startHook(
+  name: string,
+  command: string,
+  options: HookOptions = {}
+): HookProcess {
+  const { env = {}, workerId } = options;
+  log(`Running the ${name} command: ${command}`, { type: 'info', workerId });
+  const child = trackChildProcess(
+    spawn(command, {
+      shell: true,
+      env: { ...process.env, ...env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: USE_PROCESS_GROUPS,
+    })
+  );
+  const stdout = createLineLogger(name, workerId);
+  const stderr = createLineLogger(name, workerId);
+  child.stdout?.on('data', stdout.write);
+  child.stderr?.on('data', stderr.write);
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.once('close', (code: number | null) => {
+      stdout.end();
+      stderr.end();
+      resolve(code);
+    });
+    child.once('error', reject);
+  });
+  return { process: child, exited };
+}
+
+/**
+ * Stops a hook and everything it spawned, killing it if it does not exit in time.
+ * @param {HookProcess} hook - The hook.
+ * @returns {Promise<void>} - Resolves once the hook has exited.
+ */
+export async function stopHook(hook: HookProcess): Promise<void> {
+  if (hook.process.exitCode !== null || hook.process.signalCode !== null) {
+    return;
+  }
+  killProcessTree(hook.process, 'SIGTERM');
+  const killTimer = setTimeout(
+    () => killProcessTree(hook.process, 'SIGKILL'),
+    KILL_GRACE_PERIOD
+  );
+  await hook.exited.catch(() => null);
+  clearTimeout(killTimer);
+}
+
+/**
+ * Runs a hook command to completion. A hook stopped by options.signal resolves,
+ * since the run is stopping anyway.
+ * @param {string} name - The hook, e.g. `worker setup`.
+ * @param {string} command - The shell command.
+ * @param {HookOptions} [options] - Environment, worker and abort signal.
+ * @returns {Promise<void>} - Rejects when the command fails.
+ */
+export async function runHook(
+  name: string,
+  command: string,
+  options: HookOptions = {}
+): Promise<void> {
+  const { signal, workerId } = options;
+  if (signal?.aborted) {
+    return;
+  }
+  const hook = startHook(name, command, options);
+  const onAbort = () => stopHook(hook);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  let code: number | null;
+  try {
+    code = await hook.exited;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+  if (signal?.aborted) {
+    log(`The ${name} command was stopped.`, { type: 'warn', workerId });
+  } else if (code !== 0) {
+    throw new Error(`The ${name} command failed with exit code ${code}.`);
+  } else {
+    log(`The ${name} command completed.`, { type: 'success', workerId });
+  }
+}
+
+/**
+ * Runs the global setup command and waits for the WAIT_ON targets. With
+ * targets the command may keep running, e.g. a dev server; it is returned
+ * so that it can be stopped at the end of the run. Without targets it must
+ * complete successfully.
+ * @param {string} command - GLOBAL_SETUP, or an empty string to only wait.
+ * @param {WaitTarget[]} targets - The parsed WAIT_ON.
+ * @param {number} timeout - Milliseconds the targets get to become ready.
+ * @param {AbortSignal} [signal] - Aborting stops the command and the wait.
+ * @returns {Promise<HookProcess | undefined>} - The command, if it was started with targets.
+ */
+export async function startGlobalSetup(
+  command: string,
+  targets: WaitTarget[],
+  timeout: number,
+  signal?: AbortSignal
+): Promise<HookProcess | undefined> {
+  if (targets.length === 0) {
+    if (command) {
+      await runHook('global setup', command, { signal });
+    }
+    return undefined;
+  }
+
+  const hook = command ? startHook('global setup', command) : undefined;
+  // undefined while the command runs
+  let exitCode: number | null | undefined;
+  hook?.exited.then(
+    (code) => (exitCode = code),
+    () => (exitCode = null)
+  );
+  const startedAt = Date.now();
+  let pending = targets;
+  log(`Waiting for ${targets.map(describeTarget).join(', ')}.`, {
+    type: 'info',
+  });
+
+  try {
+    for (;;) {
+      if (signal?.aborted) {
+        log('Stopped waiting for WAIT_ON.', { type: 'warn' });
+        return hook;
+      }
+      const ready = await Promise.all(pending.map(isTargetReady));
+      pending = pending.filter((_, index) => !ready[index]);
+      if (pending.length === 0) {
+        break;
+      }
+      const waiting = pending.map(describeTarget).join(', ');
+      if (exitCode !== undefined && exitCode !== 0) {
+        throw new Error(
+          `The global setup command failed with exit code ${exitCode} before ${waiting} was ready.`
+        );
+      }
+      if (Date.now() - startedAt >= timeout) {
+        throw new Error(
+          `${waiting} was not ready within ${timeout / 1000}s (WAIT_ON_TIMEOUT).`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, WAIT_POLL_INTERVAL));
+    }
+  } catch (error) {
+    if (hook) {
+      await stopHook(hook);
+    }
+    throw error;
+  }
+
+  log(`${targets.map(describeTarget).join(', ')} ready.`, {
+    type: 'success',
+  });
+  return hook;
+}
@@ -0,0 +1,60 @@
+import { log, logOutput, printSummary } from './logging';
+import { getConfig } from './envUtils';
+
+jest.mock('./envUtils', () => ({
+  getConfig: jest.fn(() => ({ VERBOSE: true })),
+}));
+
+jest.mock('chalk', () => {
+  const color = (text: string) => text;
+  return {
+    __esModule: true,
+    default: {
+      red: color,
+      greenBright: color,
+      yellow: color,
+      blue: color,
+      gray: color,
+    },
+  };
+});
+
+describe('logging', () => {
+  let printed: string[];
+
+  beforeEach(() => {
+    printed = [];
+    jest
+      .spyOn(console, 'log')
+      .mockImplementation((line: string) => printed.push(line));
+    jest
+      .spyOn(console, 'error')
+      .mockImplementation((line: string) => printed.push(line));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should print the summary after the lines logged before it', async () => {
+    log('Stopped Xvfb.');
+    logOutput('Spec Ran: a.cy.ts', { workerId: 1, spec: 'a.cy.ts' });
+    log('All Cypress tests completed successfully.', { type: 'success' });
+    await printSummary('Run summary:');
+
+    expect(printed).toEqual([
+      'cy-parallel(info): Stopped Xvfb.',
+      'cy-parallel(cypress) - Worker #1 a.cy.ts : Spec Ran: a.cy.ts',
+      'cy-parallel(success): All Cypress tests completed successfully.',
+      'Run summary:',
+    ]);
+  });
+
+  it('should print the summary without VERBOSE', async () => {
+    (getConfig as jest.Mock).mockReturnValueOnce({ VERBOSE: false });
+    log('Hidden');
+    await printSummary('Run summary:');
+
+    expect(printed).toEqual(['Run summary:']);
+  });
+});
@@ -8,37 +8,125 @@ interface LogOptions {
   type?: LogType;
 }
 
+// Output kept below the logs, e.g. the live dashboard: it is cleared before
+// each printed line and drawn again after
+interface LiveArea {
+  clear(): void;
+  draw(): void;
+}
+
+type Chalk = Awaited<typeof import('chalk')>['default'];
+
+let liveArea: LiveArea | undefined;
+
+// Lines are printed one after another in the order they were logged, each
+// once chalk is loaded
+let printQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Queues the printing of a line, after the lines logged before it.
+ * @param {(chalk: Chalk) => void} print - Prints the line with the loaded chalk.
+ * @returns {Promise<void>} - Resolves once the line is printed.
+ */
+function enqueuePrint(print: (chalk: Chalk) => void): Promise<void> {
+  const printed = printQueue.then(async () => {
+    // Dynamically import chalk
+    const chalk = await import('chalk');
+    print(chalk.default);
+  });
+  printQueue = printed.catch(() => undefined);
+  return printed;
+}
+
+/**
+ * Sets the output kept below the logs, or removes it.
+ * @param {LiveArea} [area] - The live area, undefined to remove it.
+ */
+function setLiveArea(area?: LiveArea): void {
+  liveArea = area;
+}
+
+/**
+ * Prints a line above the live area, if any.
+ * @param {(line: string) => void} print - console.log or console.error.
+ * @param {string} line - The line to print.
+ */
+function printLine(print: (line: string) => void, line: string): void {
+  liveArea?.clear();
+  print(line);
+  liveArea?.draw();
+}
+
 async function log(message: string, options: LogOptions = {}): Promise<void> {
   const { workerId, type = 'info' } = options;
-  const { VERBOSE } = getConfig();
+  let verbose = true;
+  try {
+    verbose = getConfig().VERBOSE;
+  } catch {
+    // An invalid config file is reported by the caller; keep logging meanwhile
+  }
 
-  if (!VERBOSE) {
+  if (!verbose) {
     return;
   }
 
-  // Dynamically import chalk
-  const chalk = await import('chalk');
   const workerPart = workerId !== undefined ? ` - Worker #${workerId} ` : '';
 
-  // Prefix formatting based on type
-  let prefix: string;
-  switch (type) {
-    case 'error':
-      prefix = chalk.default.red(`cy-parallel(error)${workerPart}`);
-      break;
-    case 'success':
-      prefix = chalk.default.greenBright(`cy-parallel(success)${workerPart}`);
-      break;
-    case 'warn':
-      prefix = chalk.default.yellow(`cy-parallel(warn)${workerPart}`);
-      break;
-    case 'info':
-    default:
-      prefix = chalk.default.blue(`cy-parallel(info)${workerPart}`);
-      break;
-  }
+  return enqueuePrint((chalk) => {
+    // Prefix formatting based on type
+    let prefix: string;
+    switch (type) {
+      case 'error':
+        prefix = chalk.red(`cy-parallel(error)${workerPart}`);
+        break;
+      case 'success':
+        prefix = chalk.greenBright(`cy-parallel(success)${workerPart}`);
+        break;
+      case 'warn':
+        prefix = chalk.yellow(`cy-parallel(warn)${workerPart}`);
+        break;
+      case 'info':
+      default:
+        prefix = chalk.blue(`cy-parallel(info)${workerPart}`);
+        break;
+    }
+
+    printLine(console.log, `${prefix}: ${message}`);
+  });
+}
+
+interface OutputOptions {
+  workerId: number;
+  spec: string;
+  stream?: 'stdout' | 'stderr';
+}
+
+/**
+ * Prints a line of Cypress output, prefixed with the worker and spec it belongs to.
+ * Unlike log, this is not affected by VERBOSE; CYPRESS_LOG controls Cypress output.
+ */
+async function logOutput(line: string, options: OutputOptions): Promise<void> {
+  const { workerId, spec, stream = 'stdout' } = options;
+
+  return enqueuePrint((chalk) => {
+    const prefix = chalk.gray(
+      `cy-parallel(cypress) - Worker #${workerId} ${spec} `
+    );
+
+    printLine(
+      stream === 'stderr' ? console.error : console.log,
+      `${prefix}: ${line}`
+    );
+  });
+}
 
-  console.log(`${prefix}: ${message}`);
+/**
+ * Prints the end-of-run summary after the lines logged before it. Unlike log,
+ * this is not affected by VERBOSE; PRINT_SUMMARY controls the summary.
+ */
+function printSummary(summary: string): Promise<void> {
+  return enqueuePrint(() => printLine(console.log, summary));
 }
 
-export { log };
+export { log, logOutput, printSummary, setLiveArea };
+export type { LiveArea };
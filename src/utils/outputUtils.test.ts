@@ -0,0 +1,154 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createRunOutput,
+  getSpecLogName,
+  printOutput,
+  stripAnsi,
+} from './outputUtils';
+import { log, logOutput } from './logging';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+  logOutput: jest.fn(),
+}));
+
+describe('outputUtils', () => {
+  const mockLogOutput = logOutput as jest.Mock;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-output-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('stripAnsi', () => {
+    it('should remove color codes', () => {
+      expect(stripAnsi('\u001b[32m✓\u001b[39m passes')).toBe('✓ passes');
+    });
+  });
+
+  describe('getSpecLogName', () => {
+    it('should flatten the spec path', () => {
+      expect(getSpecLogName('cypress/e2e/login.cy.ts', 1)).toBe(
+        'cypress__e2e__login.cy.ts.log'
+      );
+    });
+
+    it('should add the attempt number for retries', () => {
+      expect(getSpecLogName('cypress/e2e/login.cy.ts', 2)).toBe(
+        'cypress__e2e__login.cy.ts.attempt-2.log'
+      );
+    });
+  });
+
+  describe('createRunOutput', () => {
+    it('should echo complete lines with the worker and spec', () => {
+      const runOutput = createRunOutput({
+        outputDir: '',
+        echo: true,
+        buffer: false,
+      });
+      const output = runOutput.startSpec(1, 'a.cy.ts', 1);
+
+      output.write('stdout', Buffer.from('first\nsec'));
+      expect(mockLogOutput).toHaveBeenCalledTimes(1);
+      output.write('stdout', Buffer.from('ond\r\n'));
+      output.write('stderr', 'warning');
+      expect(output.end()).toBe('');
+
+      expect(mockLogOutput.mock.calls).toEqual([
+        ['first', { workerId: 2, spec: 'a.cy.ts', stream: 'stdout' }],
+        ['second', { workerId: 2, spec: 'a.cy.ts', stream: 'stdout' }],
+        ['warning', { workerId: 2, spec: 'a.cy.ts', stream: 'stderr' }],
+      ]);
+      expect(output.logFile).toBeUndefined();
+    });
+
+    it('should buffer the output without echoing it', () => {
+      const runOutput = createRunOutput({
+        outputDir: '',
+        echo: false,
+        buffer: true,
+      });
+      const output = runOutput.startSpec(0, 'a.cy.ts', 1);
+
+      output.write('stdout', 'one\ntwo');
+
+      expect(output.end()).toBe('one\ntwo\n');
+      expect(mockLogOutput).not.toHaveBeenCalled();
+    });
+
+    it('should write per-worker and per-spec log files without colors', async () => {
+      const runOutput = createRunOutput({
+        outputDir: tmpDir,
+        echo: false,
+        buffer: false,
+      });
+
+      const first = runOutput.startSpec(0, 'a.cy.ts', 1);
+      first.write('stdout', '\u001b[31mfailing\u001b[39m\n');
+      first.end();
+      const retry = runOutput.startSpec(0, 'a.cy.ts', 2);
+      retry.write('stdout', 'passing\n');
+      retry.end();
+      await runOutput.close();
+
+      const logsDir = path.join(tmpDir, 'logs');
+      expect(first.logFile).toBe(path.join(logsDir, 'a.cy.ts.log'));
+      expect(fs.readFileSync(first.logFile as string, 'utf8')).toBe(
+        'failing\n'
+      );
+      expect(
+        fs.readFileSync(path.join(logsDir, 'a.cy.ts.attempt-2.log'), 'utf8')
+      ).toBe('passing\n');
+      expect(fs.readFileSync(path.join(logsDir, 'worker-1.log'), 'utf8')).toBe(
+        '===== a.cy.ts =====\nfailing\n===== a.cy.ts (attempt 2) =====\npassing\n'
+      );
+    });
+
+    it('should warn and go on when a log file cannot be written', async () => {
+      const logsDir = path.join(tmpDir, 'logs');
+      // A directory in the way of the spec's log file
+      fs.mkdirSync(path.join(logsDir, 'a.cy.ts.log'), { recursive: true });
+      const runOutput = createRunOutput({
+        outputDir: tmpDir,
+        echo: false,
+        buffer: true,
+      });
+
+      const output = runOutput.startSpec(0, 'a.cy.ts', 1);
+      output.write('stdout', 'first\n');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      output.write('stdout', 'second\n');
+
+      expect(output.end()).toBe('first\nsecond\n');
+      await runOutput.close();
+      expect(log).toHaveBeenCalledWith(
+        expect.stringContaining(
+          `Could not write ${path.join(logsDir, 'a.cy.ts.log')}: EISDIR`
+        ),
+        { type: 'warn' }
+      );
+      expect(fs.readFileSync(path.join(logsDir, 'worker-1.log'), 'utf8')).toBe(
+        '===== a.cy.ts =====\nfirst\nsecond\n'
+      );
+    });
+  });
+
+  describe('printOutput', () => {
+    it('should print each captured line with the prefix', () => {
+      printOutput('one\ntwo\n', 0, 'a.cy.ts');
+
+      expect(mockLogOutput.mock.calls).toEqual([
+        ['one', { workerId: 1, spec: 'a.cy.ts' }],
+        ['two', { workerId: 1, spec: 'a.cy.ts' }],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+// src/utils/outputUtils.ts
+import fs from 'fs';
+import path from 'path';
+import { log, logOutput } from './logging';
+import { getSpecKey } from './timingUtils';
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface SpecOutput {
+  // Path of the spec's log file, if OUTPUT_DIR is set
+  logFile?: string;
+  write(stream: OutputStream, data: Buffer | string): void;
+  // Flushes the last partial lines and returns the captured output, if buffered
+  end(): string;
+}
+
+export interface RunOutput {
+  startSpec(workerIndex: number, spec: string, attempt: number): SpecOutput;
+  // Closes the log files
+  close(): Promise<void>;
+}
+
+export interface RunOutputOptions {
+  // Directory for the log files; '' writes none
+  outputDir: string;
+  // Print every line as it arrives
+  echo: boolean;
+  // Keep the output in memory, e.g. to print it after the run
+  buffer: boolean;
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-9;?]*[A-Za-z]/g;
+
+/**
+ * Removes terminal color codes, so log files stay readable.
+ * @param {string} text - Text that may contain ANSI escape codes.
+ * @returns {string} - The plain text.
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Builds a file name for a spec attempt, e.g. cypress__e2e__login.cy.ts,
+ * or cypress__e2e__login.cy.ts.attempt-2 for a retry.
+ * @param {string} spec - The spec file path.
+ * @param {number} attempt - The 1-based attempt number.
+ * @returns {string} - The file name, without extension.
+ */
+export function getSpecFileName(spec: string, attempt: number): string {
+  const name = getSpecKey(spec)
+    .replace(/^(\.\.\/)+/, '')
+    .replace(/[/\\:]/g, '__');
+  return `${name}${attempt > 1 ? `.attempt-${attempt}` : ''}`;
+}
+
+/**
+ * Builds the log file name of a spec attempt, e.g. cypress__e2e__login.cy.ts.log.
+ * @param {string} spec - The spec file path.
+ * @param {number} attempt - The 1-based attempt number.
+ * @returns {string} - The file name.
+ */
+export function getSpecLogName(spec: string, attempt: number): string {
+  return `${getSpecFileName(spec, attempt)}.log`;
+}
+
+/**
+ * Prints captured output line by line with the worker and spec prefix.
+ * @param {string} output - The captured output.
+ * @param {number} workerIndex - The worker that ran the spec.
+ * @param {string} spec - The spec file path.
+ */
+export function printOutput(
+  output: string,
+  workerIndex: number,
+  spec: string
+): void {
+  output
+    .replace(/\n$/, '')
+    .split('\n')
+    .forEach((line) =>
+      logOutput(line, { workerId: workerIndex + 1, spec: getSpecKey(spec) })
+    );
+}
+
+/**
+ * Creates the output handling of a run: Cypress output is split into lines,
+ * optionally echoed with a worker and spec prefix, buffered, and written to
+ * OUTPUT_DIR/logs/worker-<n>.log and OUTPUT_DIR/logs/<spec>.log.
+ * @param {RunOutputOptions} options - Where the output goes.
+ * @returns {RunOutput} - Creates the output of each spec attempt.
+ */
+export function createRunOutput(options: RunOutputOptions): RunOutput {
+  const { outputDir, echo, buffer } = options;
+  const logsDir = outputDir ? path.resolve(outputDir, 'logs') : '';
+  const workerFiles = new Map<number, fs.WriteStream>();
+  const openFiles = new Set<fs.WriteStream>();
+
+  if (logsDir) {
+    fs.mkdirSync(logsDir, { recursive: true });
+  }
+
+  // A log file that can't be written, e.g. on a full disk, is given up
+  // instead of failing the run; the stream is destroyed after an error
+  const openFile = (file: string): fs.WriteStream => {
+    const stream = fs.createWriteStream(file);
+    openFiles.add(stream);
+    stream.once('close', () => openFiles.delete(stream));
+    stream.once('error', (error) =>
+      log(
+        `Could not write ${file}: ${error.message}. No more output is written to it.`,
+        { type: 'warn' }
+      )
+    );
+    return stream;
+  };
+  const writeFile = (stream: fs.WriteStream | undefined, text: string) => {
+    if (stream && !stream.destroyed) {
+      stream.write(text);
+    }
+  };
+
+  const getWorkerFile = (workerIndex: number): fs.WriteStream => {
+    let stream = workerFiles.get(workerIndex);
+    if (!stream) {
+      stream = openFile(path.join(logsDir, `worker-${workerIndex + 1}.log`));
+      workerFiles.set(workerIndex, stream);
+    }
+    return stream;
+  };
+
+  function startSpec(
+    workerIndex: number,
+    spec: string,
+    attempt: number
+  ): SpecOutput {
+    const specKey = getSpecKey(spec);
+    const logFile = logsDir
+      ? path.join(logsDir, getSpecLogName(spec, attempt))
+      : undefined;
+    const specFile = logFile ? openFile(logFile) : undefined;
+    const workerFile = logsDir ? getWorkerFile(workerIndex) : undefined;
+    const partialLines: Record<OutputStream, string> = {
+      stdout: '',
+      stderr: '',
+    };
+    let captured = '';
+
+    writeFile(
+      workerFile,
+      `===== ${specKey}${attempt > 1 ? ` (attempt ${attempt})` : ''} =====\n`
+    );
+
+    const writeLine = (stream: OutputStream, line: string) => {
+      const plainLine = `${stripAnsi(line)}\n`;
+      writeFile(specFile, plainLine);
+      writeFile(workerFile, plainLine);
+      if (buffer) {
+        captured += `${line}\n`;
+      }
+      if (echo) {
+        logOutput(line, { workerId: workerIndex + 1, spec: specKey, stream });
+      }
+    };
+
+    return {
+      logFile,
+      write(stream, data) {
+        const lines = (partialLines[stream] + data.toString()).split(/\r?\n/);
+        partialLines[stream] = lines.pop() ?? '';
+        lines.forEach((line) => writeLine(stream, line));
+      },
+      end() {
+        (['stdout', 'stderr'] as OutputStream[]).forEach((stream) => {
+          if (partialLines[stream]) {
+            writeLine(stream, partialLines[stream]);
+            partialLines[stream] = '';
+          }
+        });
+        specFile?.end();
+        return captured;
+      },
+    };
+  }
+
+  async function close(): Promise<void> {
+    workerFiles.forEach((stream) => stream.end());
+    await Promise.all(
+      [...openFiles].map(
+        (stream) =>
+          new Promise<void>((resolve) => {
+            stream.once('close', () => resolve());
+            stream.once('error', () => resolve());
+          })
+      )
+    );
+  }
+
+  return { startSpec, close };
+}
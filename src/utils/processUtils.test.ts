@@ -0,0 +1,72 @@
+import { EventEmitter } from 'events';
+import { ChildProcess } from 'child_process';
+import {
+  killAllProcessTrees,
+  killProcessTree,
+  trackChildProcess,
+  USE_PROCESS_GROUPS,
+} from './processUtils';
+
+describe('processUtils', () => {
+  let killSpy: jest.SpyInstance;
+
+  const createChild = (pid?: number): ChildProcess => {
+    const emitter = new EventEmitter() as ChildProcess;
+    Object.defineProperty(emitter, 'pid', { value: pid });
+    emitter.kill = jest.fn();
+    return emitter;
+  };
+
+  beforeEach(() => {
+    killSpy = jest.spyOn(process, 'kill').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    killSpy.mockRestore();
+  });
+
+  describe('killProcessTree', () => {
+    it('should signal the process group of the child', () => {
+      const child = createChild(1234);
+
+      killProcessTree(child, 'SIGINT');
+
+      if (USE_PROCESS_GROUPS) {
+        expect(killSpy).toHaveBeenCalledWith(-1234, 'SIGINT');
+      } else {
+        expect(child.kill).toHaveBeenCalledWith('SIGINT');
+      }
+    });
+
+    it('should ignore children that never started or already exited', () => {
+      killProcessTree(createChild());
+      expect(killSpy).not.toHaveBeenCalled();
+
+      killSpy.mockImplementation(() => {
+        throw new Error('kill ESRCH');
+      });
+      expect(() => killProcessTree(createChild(1234))).not.toThrow();
+    });
+  });
+
+  describe('killAllProcessTrees', () => {
+    it('should kill the tracked children that are still running', () => {
+      const running = trackChildProcess(createChild(1));
+      const exited = trackChildProcess(createChild(2));
+      exited.emit('exit', 0);
+
+      killAllProcessTrees();
+
+      const killed = USE_PROCESS_GROUPS
+        ? killSpy.mock.calls
+        : [
+            ...(running.kill as jest.Mock).mock.calls,
+            ...(exited.kill as jest.Mock).mock.calls,
+          ];
+      expect(killed).toEqual([
+        USE_PROCESS_GROUPS ? [-1, 'SIGKILL'] : ['SIGKILL'],
+      ]);
+      running.emit('exit', null);
+    });
+  });
+});
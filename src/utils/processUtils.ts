@@ -0,0 +1,55 @@
+// src/utils/processUtils.ts
+import { ChildProcess } from 'child_process';
+
+// On Windows there are no process groups; children are killed individually
+export const USE_PROCESS_GROUPS = process.platform !== 'win32';
+
+// Children that are still running, so they can be killed when cy-parallel is forced to exit
+const runningChildren = new Set<ChildProcess>();
+
+/**
+ * Keeps track of a spawned child process until it exits.
+ * @param {ChildProcess} child - The spawned child process.
+ * @returns {ChildProcess} - The same child process.
+ */
+export function trackChildProcess(child: ChildProcess): ChildProcess {
+  runningChildren.add(child);
+  const untrack = () => runningChildren.delete(child);
+  child.once('exit', untrack);
+  child.once('error', untrack);
+  return child;
+}
+
+/**
+ * Sends a signal to every tracked child process and everything it spawned.
+ * @param {NodeJS.Signals} [signal='SIGKILL'] - The signal to send.
+ */
+export function killAllProcessTrees(signal: NodeJS.Signals = 'SIGKILL'): void {
+  runningChildren.forEach((child) => killProcessTree(child, signal));
+}
+
+/**
+ * Sends a signal to a child process and everything it spawned.
+ * The child must have been spawned with `detached: USE_PROCESS_GROUPS`, so that
+ * it leads its own process group (e.g. the shell, Cypress and its browser).
+ * @param {ChildProcess} child - The spawned child process.
+ * @param {NodeJS.Signals} [signal='SIGTERM'] - The signal to send.
+ */
+export function killProcessTree(
+  child: ChildProcess,
+  signal: NodeJS.Signals = 'SIGTERM'
+): void {
+  if (child.pid === undefined) {
+    return;
+  }
+
+  try {
+    if (USE_PROCESS_GROUPS) {
+      process.kill(-child.pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch {
+    // The process group has already exited
+  }
+}
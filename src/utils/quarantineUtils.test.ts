@@ -0,0 +1,87 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadQuarantine } from './quarantineUtils';
+import { log } from './logging';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+describe('quarantineUtils', () => {
+  let tmpDir: string;
+  let quarantineFile: string;
+  const now = new Date('2024-06-15T12:00:00Z');
+
+  const writeQuarantine = (content: unknown) =>
+    fs.writeFileSync(
+      quarantineFile,
+      typeof content === 'string' ? content : JSON.stringify(content)
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-quarantine-'));
+    quarantineFile = path.join(tmpDir, 'quarantine.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('loadQuarantine', () => {
+    it('should quarantine nothing without a file', () => {
+      expect(loadQuarantine(quarantineFile, now).size).toBe(0);
+      expect(loadQuarantine('', now).size).toBe(0);
+    });
+
+    it('should key the active entries by spec path', () => {
+      const entry = {
+        spec: './cypress/e2e/a.cy.ts',
+        reason: 'Fails 1 run in 10, see #123',
+        expires: '2024-06-15',
+      };
+      writeQuarantine({ specs: [entry] });
+
+      expect(loadQuarantine(quarantineFile, now)).toEqual(
+        new Map([['cypress/e2e/a.cy.ts', entry]])
+      );
+    });
+
+    it('should leave out expired entries with a warning', () => {
+      writeQuarantine({
+        specs: [
+          { spec: 'a.cy.ts', reason: 'flaky', expires: '2024-06-14' },
+          { spec: 'b.cy.ts', reason: 'flaky' },
+        ],
+      });
+
+      expect([...loadQuarantine(quarantineFile, now).keys()]).toEqual([
+        'b.cy.ts',
+      ]);
+      expect(log).toHaveBeenCalledWith(
+        'Quarantine of a.cy.ts expired on 2024-06-14, its failures fail the run again.',
+        { type: 'warn' }
+      );
+    });
+
+    it('should reject an invalid file', () => {
+      writeQuarantine({ specs: [{ spec: 'a.cy.ts' }] });
+      expect(() => loadQuarantine(quarantineFile, now)).toThrow(
+        'specs[0] needs a "spec" path and a "reason".'
+      );
+
+      writeQuarantine({
+        specs: [{ spec: 'a.cy.ts', reason: 'flaky', expires: 'next week' }],
+      });
+      expect(() => loadQuarantine(quarantineFile, now)).toThrow(
+        'specs[0].expires must be a date like 2024-12-31.'
+      );
+
+      writeQuarantine('{ not json');
+      expect(() => loadQuarantine(quarantineFile, now)).toThrow(
+        `Invalid quarantine file ${quarantineFile}`
+      );
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// src/utils/quarantineUtils.ts
+import fs from 'fs';
+import path from 'path';
+import { QuarantineEntry } from '../types';
+import { log } from './logging';
+import { getSpecKey } from './timingUtils';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks the entries of a quarantine file.
+ * @param {unknown} parsed - The parsed JSON.
+ * @returns {string | null} - What is wrong, or null if the entries are valid.
+ */
+function validateQuarantine(parsed: unknown): string | null {
+  const specs = (parsed as { specs?: unknown } | null)?.specs;
+  if (!Array.isArray(specs)) {
+    return 'expected an object with a "specs" array';
+  }
+  for (const [index, entry] of specs.entries()) {
+    if (
+      typeof entry?.spec !== 'string' ||
+      typeof entry?.reason !== 'string' ||
+      !entry.reason.trim()
+    ) {
+      return `specs[${index}] needs a "spec" path and a "reason"`;
+    }
+    if (
+      entry.expires !== undefined &&
+      (typeof entry.expires !== 'string' ||
+        !DATE_PATTERN.test(entry.expires) ||
+        Number.isNaN(Date.parse(entry.expires)))
+    ) {
+      return `specs[${index}].expires must be a date like 2024-12-31`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Loads the quarantined specs. A missing file quarantines nothing; an invalid
+ * file stops the run. Expired entries are left out with a warning.
+ * @param {string} quarantineFile - Path to the quarantine file.
+ * @param {Date} [now] - The current date.
+ * @returns {Map<string, QuarantineEntry>} - The active entries by spec key.
+ */
+export function loadQuarantine(
+  quarantineFile: string,
+  now: Date = new Date()
+): Map<string, QuarantineEntry> {
+  const quarantine = new Map<string, QuarantineEntry>();
+  const resolvedPath = path.resolve(quarantineFile);
+  if (!quarantineFile || !fs.existsSync(resolvedPath)) {
+    return quarantine;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(resolvedPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid quarantine file ${resolvedPath}: ${error}`);
+  }
+  const problem = validateQuarantine(parsed);
+  if (problem) {
+    throw new Error(`Invalid quarantine file ${resolvedPath}: ${problem}.`);
+  }
+
+  const today = now.toISOString().slice(0, 10);
+  (parsed as { specs: QuarantineEntry[] }).specs.forEach((entry) => {
+    if (entry.expires && entry.expires < today) {
+      log(
+        `Quarantine of ${entry.spec} expired on ${entry.expires}, its failures fail the run again.`,
+        { type: 'warn' }
+      );
+      return;
+    }
+    quarantine.set(getSpecKey(entry.spec), entry);
+  });
+
+  if (quarantine.size > 0) {
+    log(
+      `${quarantine.size} spec file(s) quarantined by ${resolvedPath}: their failures don't fail the run.`,
+      { type: 'info' }
+    );
+  }
+  return quarantine;
+}
@@ -0,0 +1,307 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  formatDuration,
+  formatJsonSummary,
+  formatJUnitReport,
+  formatRunSummary,
+  writeReport,
+} from './reportUtils';
+import { log } from './logging';
+import { RunSummary } from '../types';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+describe('reportUtils', () => {
+  const summary: RunSummary = {
+    status: 'failed',
+    exitCode: 1,
+    mode: 'weighted',
+    startedAt: Date.UTC(2024, 0, 2, 3, 4, 5),
+    duration: 12500,
+    stopReason: 'fail-fast',
+    workers: [],
+    specs: [
+      {
+        spec: 'cypress/e2e/a.cy.ts',
+        workerIndex: 0,
+        status: 'passed',
+        code: 0,
+        duration: 1000,
+        attempts: [
+          { workerIndex: 0, status: 'passed', code: 0, duration: 1000 },
+        ],
+      },
+      {
+        spec: 'cypress/e2e/b&c.cy.ts',
+        workerIndex: 1,
+        status: 'failed',
+        code: 2,
+        duration: 3000,
+        attempts: [
+          { workerIndex: 1, status: 'failed', code: 2, duration: 1500 },
+          {
+            workerIndex: 1,
+            status: 'failed',
+            code: 2,
+            duration: 1500,
+            logFile: 'logs/b.log',
+          },
+        ],
+      },
+      {
+        spec: 'cypress/e2e/d.cy.ts',
+        workerIndex: 0,
+        status: 'flaky',
+        code: 0,
+        duration: 4000,
+        attempts: [
+          { workerIndex: 1, status: 'timed-out', duration: 2000 },
+          { workerIndex: 0, status: 'passed', code: 0, duration: 2000 },
+        ],
+      },
+      {
+        spec: 'cypress/e2e/e.cy.ts',
+        workerIndex: 1,
+        status: 'cancelled',
+        duration: 500,
+        attempts: [{ workerIndex: 1, status: 'cancelled', duration: 500 }],
+      },
+    ],
+    notRun: ['cypress/e2e/f.cy.ts'],
+  };
+
+  describe('formatJUnitReport', () => {
+    it('should report one test case per spec file', () => {
+      const xml = formatJUnitReport(summary);
+
+      expect(xml).toContain(
+        '<testsuites name="cy-parallel" tests="5" failures="1" errors="0" skipped="2" time="12.500">'
+      );
+      expect(xml).toContain('timestamp="2024-01-02T03:04:05.000Z"');
+      expect(xml).toContain(
+        '<testcase classname="cy-parallel" name="cypress/e2e/a.cy.ts" file="cypress/e2e/a.cy.ts" time="1.000"/>'
+      );
+      expect(xml).toContain(
+        '<failure type="failed" message="Cypress exited with code 2 after 2 attempt(s) on worker 2"/>'
+      );
+      expect(xml).toContain('name="cypress/e2e/b&amp;c.cy.ts"');
+      expect(xml).toContain('<system-out>Cypress log: logs/b.log</system-out>');
+      expect(xml).toContain(
+        '<system-out>Passed on attempt 2 (flaky).</system-out>'
+      );
+      expect(xml).toContain(
+        '<skipped message="Cancelled because of fail-fast"/>'
+      );
+      expect(xml).toContain(
+        '<skipped message="Not run because of fail-fast"/>'
+      );
+    });
+
+    it('should report timed-out specs as failures', () => {
+      const xml = formatJUnitReport({
+        ...summary,
+        stopReason: undefined,
+        specs: [
+          {
+            spec: 'slow.cy.ts',
+            workerIndex: 0,
+            status: 'timed-out',
+            duration: 5000,
+            attempts: [{ workerIndex: 0, status: 'timed-out', duration: 5000 }],
+          },
+        ],
+        notRun: [],
+      });
+
+      expect(xml).toContain('tests="1" failures="1" errors="0" skipped="0"');
+      expect(xml).toContain(
+        '<failure type="timed-out" message="Timed out after 1 attempt(s) on worker 1"/>'
+      );
+    });
+  });
+
+  it('should note quarantined specs in the JUnit report and JSON summary', () => {
+    const quarantined = {
+      ...summary,
+      specs: [
+        {
+          spec: 'q.cy.ts',
+          workerIndex: 0,
+          status: 'failed' as const,
+          code: 1,
+          duration: 1000,
+          attempts: [
+            { workerIndex: 0, status: 'failed' as const, duration: 1000 },
+          ],
+          quarantine: {
+            spec: 'q.cy.ts',
+            reason: 'Flaky',
+            expires: '2024-12-31',
+          },
+        },
+      ],
+      notRun: [],
+    };
+
+    expect(formatJUnitReport(quarantined)).toContain(
+      '<system-out>Quarantined, does not fail the run: Flaky</system-out>'
+    );
+    expect(JSON.parse(formatJsonSummary(quarantined)).specs[0]).toMatchObject({
+      quarantine: { reason: 'Flaky', expires: '2024-12-31' },
+    });
+  });
+
+  describe('formatJsonSummary', () => {
+    it('should summarize every spec', () => {
+      const json = JSON.parse(formatJsonSummary(summary));
+
+      expect(json).toMatchObject({
+        status: 'failed',
+        exitCode: 1,
+        mode: 'weighted',
+        startedAt: '2024-01-02T03:04:05.000Z',
+        duration: 12500,
+        stopReason: 'fail-fast',
+        totals: {
+          passed: 1,
+          flaky: 1,
+          failed: 1,
+          'timed-out': 0,
+          cancelled: 1,
+          'not-run': 1,
+        },
+        notRun: ['cypress/e2e/f.cy.ts'],
+      });
+      expect(json.specs[1]).toEqual({
+        spec: 'cypress/e2e/b&c.cy.ts',
+        status: 'failed',
+        worker: 2,
+        duration: 3000,
+        attempts: 2,
+        exitCode: 2,
+        logFile: 'logs/b.log',
+      });
+      expect(json.specs[3].exitCode).toBeNull();
+    });
+  });
+
+  describe('formatDuration', () => {
+    it.each([
+      [500, '0.5s'],
+      [59940, '59.9s'],
+      [60000, '1m 00s'],
+      [185000, '3m 05s'],
+      [3720000, '1h 02m'],
+    ])('should format %ims as %s', (duration, formatted) => {
+      expect(formatDuration(duration)).toBe(formatted);
+    });
+  });
+
+  describe('formatRunSummary', () => {
+    it('should list specs, workers, speedup, slowest specs and specs to re-run', () => {
+      expect(formatRunSummary(summary, 2)).toBe(
+        [
+          'Spec                   Status     Worker  Attempts  Duration',
+          'cypress/e2e/a.cy.ts    passed          1         1      1.0s',
+          'cypress/e2e/b&c.cy.ts  failed          2         2      3.0s',
+          'cypress/e2e/d.cy.ts    flaky           1         2      4.0s',
+          'cypress/e2e/e.cy.ts    cancelled       2         1      0.5s',
+          'cypress/e2e/f.cy.ts    not run         -         0         -',
+          '',
+          'Worker  Runs  Busy  Idle  Busy %',
+          '     1     2  3.0s  9.5s     24%',
+          '     2     4  5.5s  7.0s     44%',
+          '',
+          'Wall-clock time: 12.5s, spec time: 8.5s, speedup: 0.7x with 2 worker(s).',
+          '',
+          'Slowest 2 spec(s):',
+          '  4.0s  cypress/e2e/d.cy.ts',
+          '  3.0s  cypress/e2e/b&c.cy.ts',
+          '',
+          'Specs to re-run (3):',
+          '  cypress/e2e/b&c.cy.ts (failed)',
+          '  cypress/e2e/e.cy.ts (cancelled)',
+          '  cypress/e2e/f.cy.ts (not run)',
+          '',
+          'cy-parallel --spec-pattern "cypress/e2e/b&c.cy.ts,cypress/e2e/e.cy.ts,cypress/e2e/f.cy.ts"',
+        ].join('\n')
+      );
+    });
+
+    it('should include idle workers and leave out empty sections', () => {
+      const passed: RunSummary = {
+        ...summary,
+        status: 'passed',
+        duration: 2000,
+        workers: [
+          { status: 'fulfilled', index: 0, code: 0 },
+          { status: 'fulfilled', index: 1, code: 0 },
+        ],
+        specs: [{ ...summary.specs[0], quarantine: undefined }],
+        notRun: [],
+      };
+
+      const text = formatRunSummary(passed, 0);
+
+      expect(text).toContain('     2     0  0.0s  2.0s      0%');
+      expect(text).toContain(
+        'Wall-clock time: 2.0s, spec time: 1.0s, speedup: 0.5x with 2 worker(s).'
+      );
+      expect(text).not.toContain('Slowest');
+      expect(text).not.toContain('re-run');
+    });
+
+    it('should mark quarantined specs', () => {
+      const quarantined: RunSummary = {
+        ...summary,
+        specs: [
+          {
+            ...summary.specs[1],
+            quarantine: { spec: 'cypress/e2e/b&c.cy.ts', reason: 'Flaky' },
+          },
+        ],
+      };
+
+      expect(formatRunSummary(quarantined, 0)).toContain(
+        'cypress/e2e/b&c.cy.ts  failed (quarantined)       2'
+      );
+    });
+  });
+
+  describe('writeReport', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-report-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should create parent directories', () => {
+      const file = path.join(tmpDir, 'reports', 'junit.xml');
+
+      writeReport(file, '<testsuites/>', 'JUnit report');
+
+      expect(fs.readFileSync(file, 'utf8')).toBe('<testsuites/>');
+    });
+
+    it('should log instead of throwing when the report cannot be written', () => {
+      const file = path.join(tmpDir, 'blocked');
+      fs.writeFileSync(file, '');
+
+      writeReport(path.join(file, 'junit.xml'), '', 'JUnit report');
+
+      expect(log).toHaveBeenCalledWith(
+        expect.stringContaining('Error writing the JUnit report'),
+        { type: 'error' }
+      );
+    });
+  });
+});
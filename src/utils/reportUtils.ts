@@ -0,0 +1,374 @@
+// src/utils/reportUtils.ts
+import fs from 'fs';
+import path from 'path';
+import { log } from './logging';
+import { getSpecKey } from './timingUtils';
+import {
+  FlakySpec,
+  QuarantineEntry,
+  RunSummary,
+  SpecResult,
+  SpecStatus,
+} from '../types';
+
+export interface JsonSpecSummary {
+  spec: string;
+  status: SpecStatus;
+  // 1-based, like the Worker #N in the logs
+  worker: number;
+  // Total of all attempts, in milliseconds
+  duration: number;
+  attempts: number;
+  exitCode: number | null;
+  logFile?: string;
+  quarantine?: Omit<QuarantineEntry, 'spec'>;
+}
+
+export interface JsonRunSummary {
+  status: RunSummary['status'];
+  exitCode: number;
+  mode: RunSummary['mode'];
+  startedAt: string;
+  duration: number;
+  stopReason: RunSummary['stopReason'] | null;
+  totals: Record<SpecStatus | 'not-run', number>;
+  specs: JsonSpecSummary[];
+  notRun: string[];
+  flakySpecs?: FlakySpec[];
+}
+
+/**
+ * Escapes text for use in XML content and attribute values.
+ * @param {string} text - The text to escape.
+ * @returns {string} - The escaped text.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Formats milliseconds as seconds, as JUnit reports expect.
+ * @param {number} duration - The duration in milliseconds.
+ * @returns {string} - The duration in seconds.
+ */
+function toSeconds(duration: number): string {
+  return (duration / 1000).toFixed(3);
+}
+
+/**
+ * Counts the specs of a run by status, including those that never ran.
+ * @param {RunSummary} summary - The run summary.
+ * @returns {Record<SpecStatus | 'not-run', number>} - The number of specs per status.
+ */
+function countStatuses(
+  summary: RunSummary
+): Record<SpecStatus | 'not-run', number> {
+  const totals: Record<SpecStatus | 'not-run', number> = {
+    passed: 0,
+    flaky: 0,
+    failed: 0,
+    'timed-out': 0,
+    cancelled: 0,
+    'not-run': summary.notRun.length,
+  };
+  summary.specs.forEach((spec) => {
+    totals[spec.status] += 1;
+  });
+  return totals;
+}
+
+/**
+ * Builds the JUnit test case of a spec file.
+ * @param {SpecResult} spec - The spec result.
+ * @param {RunSummary} summary - The run summary, for the stop reason.
+ * @returns {string} - The testcase element.
+ */
+function formatTestCase(spec: SpecResult, summary: RunSummary): string {
+  const name = escapeXml(getSpecKey(spec.spec));
+  const attempts = spec.attempts.length;
+  const open = `    <testcase classname="cy-parallel" name="${name}" file="${name}" time="${toSeconds(spec.duration)}"`;
+  const logFile = spec.attempts[attempts - 1]?.logFile;
+  const details: string[] = [];
+
+  if (spec.status === 'failed') {
+    details.push(
+      `<failure type="failed" message="Cypress exited with code ${spec.code ?? 'unknown'} after ${attempts} attempt(s) on worker ${spec.workerIndex + 1}"/>`
+    );
+  } else if (spec.status === 'timed-out') {
+    details.push(
+      `<failure type="timed-out" message="Timed out after ${attempts} attempt(s) on worker ${spec.workerIndex + 1}"/>`
+    );
+  } else if (spec.status === 'cancelled') {
+    details.push(
+      `<skipped message="Cancelled because of ${summary.stopReason}"/>`
+    );
+  }
+  const notes = [
+    spec.status === 'flaky'
+      ? `Passed on attempt ${attempts} (flaky).`
+      : undefined,
+    logFile ? `Cypress log: ${logFile}` : undefined,
+    spec.quarantine
+      ? `Quarantined, does not fail the run: ${spec.quarantine.reason}`
+      : undefined,
+  ].filter((note): note is string => note !== undefined);
+  if (notes.length > 0) {
+    details.push(`<system-out>${escapeXml(notes.join('\n'))}</system-out>`);
+  }
+
+  return details.length > 0
+    ? `${open}>\n${details.map((detail) => `      ${detail}\n`).join('')}    </testcase>`
+    : `${open}/>`;
+}
+
+/**
+ * Formats a run as a JUnit XML report with one test case per spec file.
+ * Failed and timed-out specs are failures; cancelled specs and specs that never
+ * ran are skipped.
+ * @param {RunSummary} summary - The run summary.
+ * @returns {string} - The JUnit XML document.
+ */
+export function formatJUnitReport(summary: RunSummary): string {
+  const totals = countStatuses(summary);
+  const tests = summary.specs.length + summary.notRun.length;
+  const failures = totals.failed + totals['timed-out'];
+  const skipped = totals.cancelled + totals['not-run'];
+  const attributes = `tests="${tests}" failures="${failures}" errors="0" skipped="${skipped}" time="${toSeconds(summary.duration)}"`;
+
+  const testCases = [
+    ...summary.specs.map((spec) => formatTestCase(spec, summary)),
+    ...summary.notRun.map((spec) => {
+      const name = escapeXml(getSpecKey(spec));
+      return `    <testcase classname="cy-parallel" name="${name}" file="${name}" time="0.000">\n      <skipped message="Not run because of ${summary.stopReason}"/>\n    </testcase>`;
+    }),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="cy-parallel" ${attributes}>`,
+    `  <testsuite name="cy-parallel" ${attributes} timestamp="${new Date(summary.startedAt).toISOString()}">`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Formats a run as a JSON document for CI tooling.
+ * @param {RunSummary} summary - The run summary.
+ * @returns {string} - The JSON document.
+ */
+export function formatJsonSummary(summary: RunSummary): string {
+  const json: JsonRunSummary = {
+    status: summary.status,
+    exitCode: summary.exitCode,
+    mode: summary.mode,
+    startedAt: new Date(summary.startedAt).toISOString(),
+    duration: summary.duration,
+    stopReason: summary.stopReason ?? null,
+    totals: countStatuses(summary),
+    specs: summary.specs.map((spec) => ({
+      spec: getSpecKey(spec.spec),
+      status: spec.status,
+      worker: spec.workerIndex + 1,
+      duration: spec.duration,
+      attempts: spec.attempts.length,
+      exitCode: spec.code ?? null,
+      logFile: spec.attempts[spec.attempts.length - 1]?.logFile,
+      ...(spec.quarantine
+        ? {
+            quarantine: {
+              reason: spec.quarantine.reason,
+              expires: spec.quarantine.expires,
+            },
+          }
+        : {}),
+    })),
+    notRun: summary.notRun.map(getSpecKey),
+    ...(summary.flakySpecs ? { flakySpecs: summary.flakySpecs } : {}),
+  };
+  return `${JSON.stringify(json, null, 2)}\n`;
+}
+
+/**
+ * Formats rows as a table with a header row. Columns are right-aligned, apart
+ * from the first leftAligned ones, e.g. for spec paths.
+ * @param {string[][]} rows - The header row followed by the data rows.
+ * @param {number} [leftAligned] - The number of leading left-aligned columns.
+ * @returns {string[]} - One line per row.
+ */
+export function formatTable(rows: string[][], leftAligned = 0): string[] {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  return rows.map((row) =>
+    row
+      .map((cell, column) =>
+        column < leftAligned
+          ? cell.padEnd(widths[column])
+          : cell.padStart(widths[column])
+      )
+      .join('  ')
+      .trimEnd()
+  );
+}
+
+/**
+ * Formats a duration for people, e.g. `8.2s`, `3m 05s` or `1h 02m`.
+ * @param {number} duration - The duration in milliseconds.
+ * @returns {string} - The formatted duration.
+ */
+export function formatDuration(duration: number): string {
+  const seconds = duration / 1000;
+  if (seconds < 60) {
+    return `${seconds.toFixed(1)}s`;
+  }
+  const pad = (value: number) => `${value}`.padStart(2, '0');
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${pad(Math.floor(seconds % 60))}s`;
+  }
+  return `${Math.floor(minutes / 60)}h ${pad(minutes % 60)}m`;
+}
+
+/**
+ * Formats the end-of-run summary for the console: every spec with its worker,
+ * status, duration and attempts, how busy each worker was, the speedup over
+ * running the specs one after the other, the slowest specs and the specs to
+ * re-run. Durations of specs include all their attempts.
+ * @param {RunSummary} summary - The run summary.
+ * @param {number} slowest - How many of the slowest specs to list; 0 for none.
+ * @returns {string} - The summary text.
+ */
+export function formatRunSummary(summary: RunSummary, slowest: number): string {
+  const specRows = [
+    ...summary.specs.map((spec) => [
+      getSpecKey(spec.spec),
+      spec.quarantine ? `${spec.status} (quarantined)` : spec.status,
+      `${spec.workerIndex + 1}`,
+      `${spec.attempts.length}`,
+      formatDuration(spec.duration),
+    ]),
+    ...summary.notRun.map((spec) => [
+      getSpecKey(spec),
+      'not run',
+      '-',
+      '0',
+      '-',
+    ]),
+  ];
+  const lines = formatTable(
+    [['Spec', 'Status', 'Worker', 'Attempts', 'Duration'], ...specRows],
+    2
+  );
+
+  // Time each worker spent running Cypress, over every pass
+  const busy = new Map<number, { runs: number; duration: number }>(
+    summary.workers.map((worker) => [worker.index, { runs: 0, duration: 0 }])
+  );
+  summary.specs.forEach((spec) =>
+    spec.attempts.forEach((attempt) => {
+      const usage = busy.get(attempt.workerIndex) ?? { runs: 0, duration: 0 };
+      usage.runs += 1;
+      usage.duration += attempt.duration;
+      busy.set(attempt.workerIndex, usage);
+    })
+  );
+  const workers = [...busy.entries()].sort(([a], [b]) => a - b);
+  if (workers.length > 0) {
+    const percent = (duration: number) =>
+      summary.duration > 0
+        ? `${Math.round((duration / summary.duration) * 100)}%`
+        : '-';
+    lines.push(
+      '',
+      ...formatTable([
+        ['Worker', 'Runs', 'Busy', 'Idle', 'Busy %'],
+        ...workers.map(([index, usage]) => [
+          `${index + 1}`,
+          `${usage.runs}`,
+          formatDuration(usage.duration),
+          formatDuration(Math.max(summary.duration - usage.duration, 0)),
+          percent(usage.duration),
+        ]),
+      ])
+    );
+  }
+
+  const specTime = summary.specs.reduce((acc, spec) => acc + spec.duration, 0);
+  const speedup =
+    summary.duration > 0 ? (specTime / summary.duration).toFixed(1) : '-';
+  lines.push(
+    '',
+    `Wall-clock time: ${formatDuration(summary.duration)}, spec time: ${formatDuration(specTime)}, speedup: ${speedup}x with ${workers.length} worker(s).`
+  );
+
+  const slowestSpecs = [...summary.specs]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, slowest);
+  if (slowestSpecs.length > 0) {
+    const durations = slowestSpecs.map((spec) => formatDuration(spec.duration));
+    const width = Math.max(...durations.map((duration) => duration.length));
+    lines.push(
+      '',
+      `Slowest ${slowestSpecs.length} spec(s):`,
+      ...slowestSpecs.map(
+        (spec, index) =>
+          `  ${durations[index].padStart(width)}  ${getSpecKey(spec.spec)}`
+      )
+    );
+  }
+
+  // Everything that did not pass, so that a re-run covers what is missing
+  const rerun = [
+    ...summary.specs
+      .filter((spec) => !['passed', 'flaky'].includes(spec.status))
+      .map((spec) => ({ spec: getSpecKey(spec.spec), status: spec.status })),
+    ...summary.notRun.map((spec) => ({
+      spec: getSpecKey(spec),
+      status: 'not run',
+    })),
+  ];
+  if (rerun.length > 0) {
+    lines.push(
+      '',
+      `Specs to re-run (${rerun.length}):`,
+      ...rerun.map(({ spec, status }) => `  ${spec} (${status})`),
+      '',
+      `cy-parallel --spec-pattern "${rerun.map(({ spec }) => spec).join(',')}"`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Writes a report to disk, creating parent directories as needed.
+ * A report that can't be written is logged and doesn't fail the run.
+ * @param {string} file - Path of the report.
+ * @param {string} content - The report content.
+ * @param {string} description - What the report is, for the log.
+ */
+export function writeReport(
+  file: string,
+  content: string,
+  description: string
+): void {
+  const resolvedPath = path.resolve(file);
+
+  try {
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+    fs.writeFileSync(resolvedPath, content);
+    log(`Wrote the ${description} to ${resolvedPath}.`, { type: 'info' });
+  } catch (error) {
+    log(`Error writing the ${description}: ${resolvedPath}. Error: ${error}`, {
+      type: 'error',
+    });
+  }
+}
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_EXCLUDE_SPEC_PATTERN,
+  DEFAULT_SPEC_PATTERN,
+  matchesSpecPatterns,
+  readCypressSpecPatterns,
+  resolveSpecPatterns,
+} from './specPatternUtils';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+describe('specPatternUtils', () => {
+  const ORIGINAL_ENV = process.env;
+  const originalCwd = process.cwd();
+  let tmpDir: string;
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-specs-'))
+    );
+    process.chdir(tmpDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  describe('readCypressSpecPatterns', () => {
+    it('should read literal e2e patterns from cypress.config.ts', () => {
+      fs.writeFileSync(
+        path.join(tmpDir, 'cypress.config.ts'),
+        `import { defineConfig } from 'cypress';
+export default defineConfig({
+  component: { specPattern: 'src/**/*.cy.tsx' },
+  e2e: {
+    specPattern: ['cypress/e2e/**/*.spec.ts', "cypress/smoke/*.ts"],
+    excludeSpecPattern: '**/skip/**',
+  },
+});
+`
+      );
+
+      expect(readCypressSpecPatterns(tmpDir)).toEqual({
+        include: ['cypress/e2e/**/*.spec.ts', 'cypress/smoke/*.ts'],
+        exclude: ['**/skip/**'],
+      });
+    });
+
+    it('should ignore non-literal patterns and missing config files', () => {
+      expect(readCypressSpecPatterns(tmpDir)).toEqual({});
+
+      fs.writeFileSync(
+        path.join(tmpDir, 'cypress.config.js'),
+        'module.exports = { e2e: { specPattern: process.env.SPECS } };'
+      );
+      expect(readCypressSpecPatterns(tmpDir)).toEqual({});
+    });
+  });
+
+  describe('resolveSpecPatterns', () => {
+    it("should fall back to Cypress's defaults", () => {
+      expect(resolveSpecPatterns()).toEqual({
+        include: DEFAULT_SPEC_PATTERN,
+        exclude: DEFAULT_EXCLUDE_SPEC_PATTERN,
+      });
+    });
+
+    it('should prefer SPEC_PATTERN and EXCLUDE_SPEC_PATTERN over the Cypress config', () => {
+      fs.writeFileSync(
+        path.join(tmpDir, 'cypress.config.ts'),
+        "export default { e2e: { specPattern: 'e2e/**/*.js', excludeSpecPattern: '*.skip.js' } };"
+      );
+      process.env.SPEC_PATTERN = '**/*.cy.{js,ts},**/*.spec.js';
+
+      expect(resolveSpecPatterns()).toEqual({
+        include: ['**/*.cy.{js,ts}', '**/*.spec.js'],
+        exclude: ['*.skip.js'],
+      });
+    });
+  });
+
+  describe('matchesSpecPatterns', () => {
+    const patterns = { include: ['e2e/**/*.cy.js'], exclude: ['**/wip/**'] };
+
+    it('should match paths relative to the cwd or to the test directory', () => {
+      const dir = path.join(tmpDir, 'cypress', 'e2e');
+      expect(
+        matchesSpecPatterns(path.join(dir, 'login.cy.js'), dir, {
+          include: ['cypress/e2e/*.cy.js'],
+          exclude: [],
+        })
+      ).toBe(true);
+      expect(
+        matchesSpecPatterns(
+          path.join(tmpDir, 'e2e', 'a', 'b.cy.js'),
+          tmpDir,
+          patterns
+        )
+      ).toBe(true);
+    });
+
+    it('should reject excluded and non-matching files', () => {
+      expect(
+        matchesSpecPatterns(
+          path.join(tmpDir, 'e2e', 'wip', 'b.cy.js'),
+          tmpDir,
+          patterns
+        )
+      ).toBe(false);
+      expect(
+        matchesSpecPatterns(
+          path.join(tmpDir, 'e2e', 'b.spec.js'),
+          tmpDir,
+          patterns
+        )
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+// src/utils/specPatternUtils.ts
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { getConfig } from './envUtils';
+import { log } from './logging';
+import { matchesGlob, splitPatterns } from './globUtils';
+
+export interface SpecPatterns {
+  include: string[];
+  exclude: string[];
+}
+
+// Cypress's own defaults for e2e specs
+export const DEFAULT_SPEC_PATTERN = ['**/*.cy.{js,jsx,ts,tsx}'];
+export const DEFAULT_EXCLUDE_SPEC_PATTERN = ['*.hot-update.js'];
+
+const CYPRESS_CONFIG_FILES = [
+  'cypress.config.ts',
+  'cypress.config.js',
+  'cypress.config.mjs',
+  'cypress.config.cjs',
+];
+
+/**
+ * Reads a string or an array of strings from an AST node.
+ * @param {ts.Expression} node - The property initializer.
+ * @returns {string[] | null} - The patterns, or null if the value isn't static.
+ */
+function readPatterns(node: ts.Expression): string[] | null {
+  if (ts.isStringLiteralLike(node)) {
+    return [node.text];
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    const patterns = node.elements.map((element) =>
+      ts.isStringLiteralLike(element) ? element.text : null
+    );
+    return patterns.every((pattern) => pattern !== null)
+      ? (patterns as string[])
+      : null;
+  }
+  return null;
+}
+
+/**
+ * Reads the e2e specPattern and excludeSpecPattern from a Cypress config file.
+ * The file is parsed, not executed, so only literal values are picked up.
+ * @param {string} projectDir - The directory containing the Cypress config file.
+ * @returns {Partial<SpecPatterns>} - The patterns found in the e2e section.
+ */
+export function readCypressSpecPatterns(
+  projectDir: string
+): Partial<SpecPatterns> {
+  const configFile = CYPRESS_CONFIG_FILES.map((name) =>
+    path.join(projectDir, name)
+  ).find((file) => fs.existsSync(file));
+  if (!configFile) {
+    return {};
+  }
+
+  const sourceFile = ts.createSourceFile(
+    configFile,
+    fs.readFileSync(configFile, 'utf8'),
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const patterns: Partial<SpecPatterns> = {};
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isPropertyAssignment(node) &&
+      node.name.getText() === 'e2e' &&
+      ts.isObjectLiteralExpression(node.initializer)
+    ) {
+      node.initializer.properties.forEach((property) => {
+        if (!ts.isPropertyAssignment(property)) {
+          return;
+        }
+        const name = property.name.getText();
+        if (name === 'specPattern' || name === 'excludeSpecPattern') {
+          const value = readPatterns(property.initializer);
+          if (value) {
+            patterns[name === 'specPattern' ? 'include' : 'exclude'] = value;
+          } else {
+            log(
+              `Ignoring non-literal ${name} in ${configFile}; set SPEC_PATTERN / EXCLUDE_SPEC_PATTERN instead.`,
+              { type: 'warn' }
+            );
+          }
+        }
+      });
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return patterns;
+}
+
+/**
+ * Resolves the include and exclude spec patterns.
+ * SPEC_PATTERN / EXCLUDE_SPEC_PATTERN win over the project's Cypress config,
+ * which wins over Cypress's defaults.
+ * @returns {SpecPatterns} - The patterns to filter test files with.
+ */
+export function resolveSpecPatterns(): SpecPatterns {
+  const { SPEC_PATTERN, EXCLUDE_SPEC_PATTERN } = getConfig();
+  const cypressPatterns =
+    SPEC_PATTERN && EXCLUDE_SPEC_PATTERN
+      ? {}
+      : readCypressSpecPatterns(process.cwd());
+
+  const patterns: SpecPatterns = {
+    include: SPEC_PATTERN
+      ? splitPatterns(SPEC_PATTERN)
+      : (cypressPatterns.include ?? DEFAULT_SPEC_PATTERN),
+    exclude: EXCLUDE_SPEC_PATTERN
+      ? splitPatterns(EXCLUDE_SPEC_PATTERN)
+      : (cypressPatterns.exclude ?? DEFAULT_EXCLUDE_SPEC_PATTERN),
+  };
+
+  log(
+    `Spec patterns: include ${patterns.include.join(', ')}; exclude ${patterns.exclude.join(', ')}.`,
+    { type: 'info' }
+  );
+  return patterns;
+}
+
+/**
+ * Checks whether a file matches the spec patterns.
+ * Patterns are tried against the path relative to the current working directory
+ * (like Cypress's specPattern) and relative to the test directory.
+ * @param {string} file - The absolute file path.
+ * @param {string} directory - The test directory.
+ * @param {SpecPatterns} patterns - The include and exclude patterns.
+ * @returns {boolean} - True if the file is included and not excluded.
+ */
+export function matchesSpecPatterns(
+  file: string,
+  directory: string,
+  patterns: SpecPatterns
+): boolean {
+  const candidates = [
+    path.relative(process.cwd(), file),
+    path.relative(directory, file),
+  ];
+  const matchesAny = (globs: string[]) =>
+    globs.some((glob) =>
+      candidates.some((candidate) => matchesGlob(candidate, glob))
+    );
+
+  return matchesAny(patterns.include) && !matchesAny(patterns.exclude);
+}
@@ -0,0 +1,225 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getSplittableTitles,
+  getUnitGrep,
+  getUnitKey,
+  mergeUnitResults,
+  splitSpec,
+  splitSpecs,
+} from './splitUtils';
+import { findTests } from './weightUtils';
+import { log } from './logging';
+import { SpecResult, SpecUnit } from '../types';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+const titles = (count: number) =>
+  Array.from({ length: count }, (_, index) => `suite test ${index + 1}.`);
+
+describe('splitUtils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getSplittableTitles', () => {
+    it('should list the full titles of the active tests', () => {
+      const tests = findTests(
+        'a.cy.ts',
+        `
+        describe('login', () => {
+          it('works', { tags: '@smoke' }, () => {});
+          it.skip('is skipped', () => {});
+          context('with SSO', () => {
+            specify('redirects', () => {});
+          });
+        });
+      `
+      );
+
+      expect(getSplittableTitles(tests, '')).toEqual({
+        titles: ['login works', 'login with SSO redirects'],
+      });
+      expect(getSplittableTitles(tests, '@smoke')).toEqual({
+        titles: ['login works'],
+      });
+    });
+
+    it('should refuse tests that a title grep cannot select one by one', () => {
+      const reason = (source: string) =>
+        getSplittableTitles(findTests('a.cy.ts', source), '');
+
+      expect(reason(`it.only('a', () => {}); it('b', () => {});`)).toEqual({
+        reason: 'it focuses tests with .only',
+      });
+      expect(reason('[1, 2].forEach(() => it(`a`, () => {}));')).toEqual({
+        reason: 'some test titles are not string literals',
+      });
+      expect(reason('it(`a ${name}`, () => {});')).toEqual({
+        reason: 'some test titles are not string literals',
+      });
+      expect(reason(`it('a; b', () => {});`)).toEqual({
+        reason: "some test titles contain ';' or start with '-'",
+      });
+      expect(reason(`it('a', () => {}); it('a', () => {});`)).toEqual({
+        reason: 'some tests have the same title',
+      });
+    });
+  });
+
+  describe('splitSpec', () => {
+    it('should split into balanced units of at most maxTests tests', () => {
+      const units = splitSpec({ file: 'a.cy.ts', weight: 50 }, titles(10), 4);
+
+      expect(units.map((unit) => unit.unit?.titles.length)).toEqual([3, 3, 4]);
+      expect(units[0]).toEqual({
+        file: 'a.cy.ts [1/3]',
+        weight: 15,
+        share: 0.3,
+        unit: {
+          spec: 'a.cy.ts',
+          index: 1,
+          total: 3,
+          titles: ['suite test 1.', 'suite test 2.', 'suite test 3.'],
+        },
+      });
+    });
+
+    it('should keep the spec whole when it has few enough tests', () => {
+      const info = { file: 'a.cy.ts', weight: 5 };
+
+      expect(splitSpec(info, titles(4), 4)).toEqual([info]);
+    });
+
+    it('should keep the spec whole when a title would select a test of another unit', () => {
+      const info = { file: 'a.cy.ts', weight: 5 };
+
+      expect(
+        splitSpec(info, ['login works', 'logout', 'login works offline'], 2)
+      ).toEqual([info]);
+    });
+  });
+
+  describe('splitSpecs', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-split-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should only split the specs with more than maxTests tests', () => {
+      const big = path.join(tmpDir, 'big.cy.ts');
+      const small = path.join(tmpDir, 'small.cy.ts');
+      fs.writeFileSync(big, `it('a', () => {}); it('b', () => {});`);
+      fs.writeFileSync(small, `it('c', () => {});`);
+
+      const files = splitSpecs(
+        [
+          { file: big, weight: 3 },
+          { file: small, weight: 2 },
+        ],
+        1,
+        ''
+      );
+
+      expect(files.map((info) => info.file)).toEqual([
+        getUnitKey(big, 1, 2),
+        getUnitKey(big, 2, 2),
+        small,
+      ]);
+    });
+
+    it('should warn about a spec that cannot be split', () => {
+      const file = path.join(tmpDir, 'loop.cy.ts');
+      fs.writeFileSync(file, '[1, 2].forEach((n) => it(`a ${n}`, () => {}));');
+
+      expect(splitSpecs([{ file, weight: 3 }], 1, '')).toEqual([
+        { file, weight: 3 },
+      ]);
+      expect(log).toHaveBeenCalledWith(
+        expect.stringContaining('some test titles are not string literals'),
+        { type: 'warn' }
+      );
+    });
+  });
+
+  describe('getUnitGrep', () => {
+    it('should join the titles for @cypress/grep', () => {
+      expect(
+        getUnitGrep({ spec: 'a', index: 1, total: 2, titles: ['a b', 'c'] })
+      ).toBe('a b; c');
+    });
+  });
+
+  describe('mergeUnitResults', () => {
+    const units = new Map<string, SpecUnit>([
+      ['a.cy.ts [1/2]', { spec: 'a.cy.ts', index: 1, total: 2, titles: [] }],
+      ['a.cy.ts [2/2]', { spec: 'a.cy.ts', index: 2, total: 2, titles: [] }],
+    ]);
+    const result = (
+      spec: string,
+      status: SpecResult['status'],
+      workerIndex: number
+    ): SpecResult => ({
+      spec,
+      workerIndex,
+      status,
+      code: status === 'failed' ? 1 : 0,
+      duration: 1000,
+      attempts: [{ workerIndex, status: 'passed', duration: 1000 }],
+    });
+
+    it('should report the units under their spec with the worst status', () => {
+      const merged = mergeUnitResults(
+        [
+          result('a.cy.ts [1/2]', 'passed', 0),
+          result('b.cy.ts', 'passed', 1),
+          result('a.cy.ts [2/2]', 'failed', 1),
+        ],
+        [],
+        units
+      );
+
+      expect(merged.notRun).toEqual([]);
+      expect(merged.specs).toEqual([
+        {
+          spec: 'a.cy.ts',
+          workerIndex: 1,
+          status: 'failed',
+          code: 1,
+          duration: 2000,
+          attempts: [
+            { workerIndex: 0, status: 'passed', duration: 1000, unit: 1 },
+            { workerIndex: 1, status: 'passed', duration: 1000, unit: 2 },
+          ],
+        },
+        result('b.cy.ts', 'passed', 1),
+      ]);
+    });
+
+    it('should cancel a spec that only partly ran and keep one that never ran in notRun', () => {
+      expect(
+        mergeUnitResults(
+          [result('a.cy.ts [1/2]', 'passed', 0)],
+          ['a.cy.ts [2/2]', 'b.cy.ts'],
+          units
+        )
+      ).toEqual({
+        specs: [
+          expect.objectContaining({ spec: 'a.cy.ts', status: 'cancelled' }),
+        ],
+        notRun: ['b.cy.ts'],
+      });
+      expect(
+        mergeUnitResults([], ['a.cy.ts [1/2]', 'a.cy.ts [2/2]'], units).notRun
+      ).toEqual(['a.cy.ts']);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+// src/utils/splitUtils.ts
+import fs from 'fs';
+import { FileInfo, SpecResult, SpecStatus, SpecUnit } from '../types';
+import { log } from './logging';
+import { getSpecKey } from './timingUtils';
+import { findTests, getActiveTests, SpecTest } from './weightUtils';
+
+// From the worst to the best status of a unit, for the status of the whole spec
+const STATUS_ORDER: SpecStatus[] = [
+  'failed',
+  'timed-out',
+  'cancelled',
+  'flaky',
+  'passed',
+];
+
+/**
+ * Builds the key a unit is planned, run and reported under.
+ * @param {string} spec - The spec file.
+ * @param {number} index - The 1-based index of the unit.
+ * @param {number} total - The number of units of the spec.
+ * @returns {string} - e.g. `cypress/e2e/big.cy.ts [2/3]`.
+ */
+export function getUnitKey(spec: string, index: number, total: number): string {
+  return `${spec} [${index}/${total}]`;
+}
+
+/**
+ * Builds the @cypress/grep `grep` value selecting the tests of a unit.
+ * @param {SpecUnit} unit - The unit.
+ * @returns {string} - The full titles, separated by `; `.
+ */
+export function getUnitGrep(unit: SpecUnit): string {
+  return unit.titles.join('; ');
+}
+
+/**
+ * Lists the full titles of the tests that would run, when they can be
+ * selected one by one with a title grep.
+ * @param {SpecTest[]} tests - The tests of the spec file.
+ * @param {string} grepTags - The GREP_TAGS expression.
+ * @returns {{ titles: string[] } | { reason: string }} - The titles, or why the spec can't be split.
+ */
+export function getSplittableTitles(
+  tests: SpecTest[],
+  grepTags: string
+): { titles: string[] } | { reason: string } {
+  if (tests.some((test) => test.only)) {
+    return { reason: 'it focuses tests with .only' };
+  }
+  const active = getActiveTests(tests, grepTags);
+  if (active.some((test) => test.count !== 1 || test.title === undefined)) {
+    return { reason: 'some test titles are not string literals' };
+  }
+  const titles = active.map((test) => test.title as string);
+  // @cypress/grep separates titles with ';' and inverts those starting with '-'
+  if (
+    titles.some((title) => title.includes(';') || title.trim().startsWith('-'))
+  ) {
+    return { reason: "some test titles contain ';' or start with '-'" };
+  }
+  if (new Set(titles).size !== titles.length) {
+    return { reason: 'some tests have the same title' };
+  }
+  return { titles };
+}
+
+/**
+ * Splits a spec file into units of at most maxTests tests, in source order.
+ * The weight is divided between the units by their number of tests.
+ * A title grep selects every test whose title contains it, so the spec is
+ * kept whole when a title of one unit would also select a test of another.
+ * @param {FileInfo} info - The weighted spec file.
+ * @param {string[]} titles - The full titles of the tests that run.
+ * @param {number} maxTests - The maximum number of tests per unit.
+ * @returns {FileInfo[]} - The units, or the spec file alone.
+ */
+export function splitSpec(
+  info: FileInfo,
+  titles: string[],
+  maxTests: number
+): FileInfo[] {
+  const total = Math.ceil(titles.length / maxTests);
+  if (total <= 1) {
+    return [info];
+  }
+
+  // Balanced contiguous ranges, e.g. 10 tests in 3 units: 3, 3, 4
+  const groups = Array.from({ length: total }, (_, index) =>
+    titles.slice(
+      Math.floor((index * titles.length) / total),
+      Math.floor(((index + 1) * titles.length) / total)
+    )
+  );
+  const overlaps = groups.some((group, index) =>
+    group.some((title) =>
+      groups.some(
+        (other, otherIndex) =>
+          otherIndex !== index &&
+          other.some((otherTitle) => otherTitle.includes(title))
+      )
+    )
+  );
+  if (overlaps) {
+    return [info];
+  }
+
+  return groups.map((group, index) => {
+    const share = group.length / titles.length;
+    return {
+      file: getUnitKey(info.file, index + 1, total),
+      weight: Math.round(info.weight * share * 100) / 100,
+      ...(info.tests !== undefined ? { tests: group.length } : {}),
+      share: (info.share ?? 1) * share,
+      unit: { spec: info.file, index: index + 1, total, titles: group },
+    };
+  });
+}
+
+/**
+ * Splits the spec files with more than maxTests tests into units, see splitSpec.
+ * Specs whose tests can't be selected by title are kept whole, with a warning.
+ * @param {FileInfo[]} files - The weighted spec files.
+ * @param {number} maxTests - SPLIT_TESTS, the maximum number of tests per unit.
+ * @param {string} grepTags - The GREP_TAGS expression.
+ * @returns {FileInfo[]} - The spec files and units, in the order of the files.
+ */
+export function splitSpecs(
+  files: FileInfo[],
+  maxTests: number,
+  grepTags: string
+): FileInfo[] {
+  return files.flatMap((info) => {
+    let tests: SpecTest[];
+    try {
+      tests = findTests(info.file, fs.readFileSync(info.file, 'utf8'));
+    } catch {
+      return [info];
+    }
+    const active = getActiveTests(tests, grepTags);
+    if (active.reduce((count, test) => count + test.count, 0) <= maxTests) {
+      return [info];
+    }
+
+    const splittable = getSplittableTitles(tests, grepTags);
+    const units =
+      'titles' in splittable
+        ? splitSpec(info, splittable.titles, maxTests)
+        : [info];
+    if ('reason' in splittable) {
+      log(`Not splitting ${getSpecKey(info.file)}: ${splittable.reason}.`, {
+        type: 'warn',
+      });
+    } else if (units.length === 1) {
+      log(
+        `Not splitting ${getSpecKey(info.file)}: a test title is part of another test's title.`,
+        { type: 'warn' }
+      );
+    } else {
+      log(
+        `Split ${getSpecKey(info.file)} into ${units.length} units of up to ${maxTests} test(s).`,
+        { type: 'info' }
+      );
+    }
+    return units;
+  });
+}
+
+/**
+ * Re-assembles the results of split specs under their spec file: attempts of
+ * all units, total duration and the worst status. A spec that only partly ran
+ * is cancelled, one that did not run at all stays in notRun.
+ * @param {SpecResult[]} results - The results by spec file or unit key.
+ * @param {string[]} notRun - The spec files and unit keys never started.
+ * @param {Map<string, SpecUnit>} units - The units by key.
+ * @returns {{ specs: SpecResult[]; notRun: string[] }} - The results by spec file.
+ */
+export function mergeUnitResults(
+  results: SpecResult[],
+  notRun: string[],
+  units: Map<string, SpecUnit>
+): { specs: SpecResult[]; notRun: string[] } {
+  if (units.size === 0) {
+    return { specs: results, notRun };
+  }
+
+  const unitResults = new Map<string, SpecResult[]>();
+  const specs: SpecResult[] = [];
+  results.forEach((result) => {
+    const unit = units.get(result.spec);
+    if (!unit) {
+      specs.push(result);
+      return;
+    }
+    if (!unitResults.has(unit.spec)) {
+      unitResults.set(unit.spec, []);
+      // Placeholder keeping the order, replaced below
+      specs.push(result);
+    }
+    unitResults.get(unit.spec)?.push(result);
+  });
+
+  const partlyRun = new Set(
+    notRun
+      .map((key) => units.get(key)?.spec)
+      .filter((spec): spec is string => spec !== undefined)
+  );
+  const merged = specs.map((result): SpecResult => {
+    const unit = units.get(result.spec);
+    if (!unit) {
+      return result;
+    }
+    const parts = unitResults.get(unit.spec) as SpecResult[];
+    const worst = parts.reduce((acc, part) =>
+      STATUS_ORDER.indexOf(part.status) < STATUS_ORDER.indexOf(acc.status)
+        ? part
+        : acc
+    );
+    const status =
+      partlyRun.has(unit.spec) && ['passed', 'flaky'].includes(worst.status)
+        ? 'cancelled'
+        : worst.status;
+    return {
+      spec: unit.spec,
+      workerIndex: worst.workerIndex,
+      status,
+      code: worst.code,
+      duration: parts.reduce((acc, part) => acc + part.duration, 0),
+      attempts: parts.flatMap((part) =>
+        part.attempts.map((attempt) => ({
+          ...attempt,
+          unit: units.get(part.spec)?.index,
+        }))
+      ),
+    };
+  });
+
+  const neverRun = notRun
+    .map((key) => units.get(key)?.spec ?? key)
+    .filter((spec) => !unitResults.has(spec));
+  return { specs: merged, notRun: [...new Set(neverRun)] };
+}
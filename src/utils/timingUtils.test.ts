@@ -0,0 +1,164 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  applyTimingWeights,
+  createTimings,
+  getAverageDuration,
+  getShardTimingsFile,
+  getSpecKey,
+  loadTimings,
+  mergeTimings,
+  recordDuration,
+  saveTimings,
+} from './timingUtils';
+import { FileInfo } from '../types';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+describe('timingUtils', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-timings-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('getSpecKey', () => {
+    it('should return a cwd-relative path with forward slashes', () => {
+      const file = path.join(process.cwd(), 'cypress', 'e2e', 'a.cy.ts');
+
+      expect(getSpecKey(file)).toBe('cypress/e2e/a.cy.ts');
+    });
+  });
+
+  describe('loadTimings / saveTimings', () => {
+    it('should return empty timings when the file does not exist', () => {
+      const result = loadTimings(path.join(tmpDir, 'missing.json'));
+
+      expect(result).toEqual(createTimings());
+    });
+
+    it('should round-trip timings through disk', () => {
+      const file = path.join(tmpDir, 'nested', 'timings.json');
+      const timings = createTimings();
+      recordDuration(timings, 'cypress/e2e/a.cy.ts', 1500, 5);
+
+      saveTimings(file, timings);
+
+      expect(loadTimings(file)).toEqual(timings);
+    });
+
+    it('should ignore files with an unsupported format', () => {
+      const file = path.join(tmpDir, 'timings.json');
+      fs.writeFileSync(file, JSON.stringify({ version: 99, specs: {} }));
+
+      expect(loadTimings(file)).toEqual(createTimings());
+    });
+
+    it('should ignore files that are not valid JSON', () => {
+      const file = path.join(tmpDir, 'timings.json');
+      fs.writeFileSync(file, '{ not json');
+
+      expect(loadTimings(file)).toEqual(createTimings());
+    });
+  });
+
+  describe('recordDuration', () => {
+    it('should keep only the most recent runs', () => {
+      const timings = createTimings();
+
+      [100, 200, 300, 400].forEach((duration) =>
+        recordDuration(timings, 'a.cy.ts', duration, 3)
+      );
+
+      expect(timings.specs['a.cy.ts'].durations).toEqual([200, 300, 400]);
+    });
+  });
+
+  describe('mergeTimings', () => {
+    it("should add each document's durations, keeping only the most recent runs", () => {
+      const timings = createTimings();
+      recordDuration(timings, 'a.cy.ts', 100, 2);
+      recordDuration(timings, 'a.cy.ts', 200, 2);
+      const shard1 = createTimings();
+      recordDuration(shard1, 'a.cy.ts', 300, 2);
+      const shard2 = createTimings();
+      recordDuration(shard2, 'b.cy.ts', 400, 2);
+
+      mergeTimings(timings, [shard1, shard2], 2);
+
+      expect(timings.specs).toEqual({
+        'a.cy.ts': { durations: [200, 300] },
+        'b.cy.ts': { durations: [400] },
+      });
+    });
+  });
+
+  describe('getShardTimingsFile', () => {
+    it('should insert the shard index before the extension', () => {
+      expect(getShardTimingsFile('cy-parallel-timings.json', 2)).toBe(
+        'cy-parallel-timings.shard-2.json'
+      );
+      expect(getShardTimingsFile('.cache/timings.json', 1)).toBe(
+        path.join('.cache', 'timings.shard-1.json')
+      );
+    });
+  });
+
+  describe('getAverageDuration', () => {
+    it('should average the recorded durations', () => {
+      const timings = createTimings();
+      recordDuration(timings, 'a.cy.ts', 1000, 5);
+      recordDuration(timings, 'a.cy.ts', 3000, 5);
+
+      expect(getAverageDuration(timings, 'a.cy.ts')).toBe(2000);
+    });
+
+    it('should return undefined for specs without history', () => {
+      expect(getAverageDuration(createTimings(), 'a.cy.ts')).toBeUndefined();
+    });
+  });
+
+  describe('applyTimingWeights', () => {
+    const filesInfo: FileInfo[] = [
+      { file: 'a.cy.ts', weight: 4 },
+      { file: 'b.cy.ts', weight: 2 },
+      { file: 'c.cy.ts', weight: 3 },
+    ];
+
+    it('should keep AST weights when there is no history', () => {
+      expect(applyTimingWeights(filesInfo, createTimings())).toBe(filesInfo);
+    });
+
+    it('should use durations in seconds and scale the remaining specs', () => {
+      const timings = createTimings();
+      recordDuration(timings, 'a.cy.ts', 60000, 5);
+      recordDuration(timings, 'b.cy.ts', 30000, 5);
+
+      // 90 seconds over 6 weight units => 15 seconds per unit for c.cy.ts
+      expect(applyTimingWeights(filesInfo, timings)).toEqual([
+        { file: 'a.cy.ts', weight: 60 },
+        { file: 'b.cy.ts', weight: 30 },
+        { file: 'c.cy.ts', weight: 45 },
+      ]);
+    });
+
+    it('should scale the history by the share of tests selected by GREP_TAGS', () => {
+      const timings = createTimings();
+      recordDuration(timings, 'a.cy.ts', 60000, 5);
+
+      expect(
+        applyTimingWeights(
+          [{ file: 'a.cy.ts', weight: 2, tests: 1, share: 0.25 }],
+          timings
+        )
+      ).toEqual([{ file: 'a.cy.ts', weight: 15, tests: 1, share: 0.25 }]);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+// src/utils/timingUtils.ts
+import fs from 'fs';
+import path from 'path';
+import { FileInfo, TimingsData } from '../types';
+import { log } from './logging';
+
+const TIMINGS_VERSION = 1;
+
+/**
+ * Creates an empty timings document.
+ * @returns {TimingsData} - Timings data without any recorded specs.
+ */
+export function createTimings(): TimingsData {
+  return { version: TIMINGS_VERSION, specs: {} };
+}
+
+/**
+ * Converts a spec path into the key used in the timings file.
+ * Keys are relative to the current working directory and use forward slashes,
+ * so a timings file can be shared between machines with different checkout paths.
+ * @param {string} file - The spec file path.
+ * @returns {string} - The normalized spec key.
+ */
+export function getSpecKey(file: string): string {
+  return path
+    .relative(process.cwd(), path.resolve(file))
+    .split(path.sep)
+    .join('/');
+}
+
+/**
+ * Loads the timings history from disk.
+ * Returns empty timings if the file does not exist or cannot be parsed.
+ * @param {string} timingsFile - Path to the timings file.
+ * @returns {TimingsData} - The loaded timings data.
+ */
+export function loadTimings(timingsFile: string): TimingsData {
+  const resolvedPath = path.resolve(timingsFile);
+
+  if (!fs.existsSync(resolvedPath)) {
+    log(`No timings file found at ${resolvedPath}.`, { type: 'info' });
+    return createTimings();
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(resolvedPath, 'utf8'));
+    if (
+      !parsed ||
+      parsed.version !== TIMINGS_VERSION ||
+      typeof parsed.specs !== 'object' ||
+      parsed.specs === null
+    ) {
+      log(`Ignoring timings file with unsupported format: ${resolvedPath}`, {
+        type: 'warn',
+      });
+      return createTimings();
+    }
+    return parsed as TimingsData;
+  } catch (error) {
+    log(`Error reading timings file: ${resolvedPath}. Error: ${error}`, {
+      type: 'warn',
+    });
+    return createTimings();
+  }
+}
+
+/**
+ * Writes the timings history to disk, creating parent directories as needed.
+ * @param {string} timingsFile - Path to the timings file.
+ * @param {TimingsData} timings - The timings data to persist.
+ */
+export function saveTimings(timingsFile: string, timings: TimingsData): void {
+  const resolvedPath = path.resolve(timingsFile);
+
+  try {
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+    fs.writeFileSync(resolvedPath, `${JSON.stringify(timings, null, 2)}\n`);
+    log(`Saved spec timings to ${resolvedPath}.`, { type: 'info' });
+  } catch (error) {
+    log(`Error writing timings file: ${resolvedPath}. Error: ${error}`, {
+      type: 'error',
+    });
+  }
+}
+
+/**
+ * Records a spec duration, keeping only the most recent runs.
+ * @param {TimingsData} timings - The timings data to update.
+ * @param {string} file - The spec file path.
+ * @param {number} duration - The wall-clock duration in milliseconds.
+ * @param {number} historySize - The number of runs to keep per spec.
+ */
+export function recordDuration(
+  timings: TimingsData,
+  file: string,
+  duration: number,
+  historySize: number
+): void {
+  const key = getSpecKey(file);
+  const durations = [...(timings.specs[key]?.durations ?? []), duration];
+  timings.specs[key] = {
+    durations: durations.slice(-Math.max(historySize, 1)),
+  };
+}
+
+/**
+ * Adds the durations recorded in other timings documents, e.g. by the shards
+ * of a run, keeping only the most recent runs of each spec.
+ * @param {TimingsData} timings - The timings data to update.
+ * @param {TimingsData[]} recorded - The timings documents to add, oldest first.
+ * @param {number} historySize - The number of runs to keep per spec.
+ */
+export function mergeTimings(
+  timings: TimingsData,
+  recorded: TimingsData[],
+  historySize: number
+): void {
+  recorded.forEach((data) =>
+    Object.entries(data.specs).forEach(([spec, { durations }]) =>
+      durations.forEach((duration) =>
+        recordDuration(timings, spec, duration, historySize)
+      )
+    )
+  );
+}
+
+/**
+ * Returns the file a shard writes its recorded timings to: the timings file
+ * with the shard index before its extension.
+ * @param {string} timingsFile - Path to the timings file, e.g. cy-parallel-timings.json.
+ * @param {number} shardIndex - The 1-based shard.
+ * @returns {string} - The shard's file, e.g. cy-parallel-timings.shard-2.json.
+ */
+export function getShardTimingsFile(
+  timingsFile: string,
+  shardIndex: number
+): string {
+  const { dir, name, ext } = path.parse(timingsFile);
+  return path.join(dir, `${name}.shard-${shardIndex}${ext}`);
+}
+
+/**
+ * Returns the smoothed duration of a spec, averaged over its recorded runs.
+ * @param {TimingsData} timings - The timings data.
+ * @param {string} file - The spec file path.
+ * @returns {number | undefined} - The average duration in milliseconds, or undefined without history.
+ */
+export function getAverageDuration(
+  timings: TimingsData,
+  file: string
+): number | undefined {
+  const durations = timings.specs[getSpecKey(file)]?.durations;
+  if (!durations || durations.length === 0) {
+    return undefined;
+  }
+  return durations.reduce((acc, value) => acc + value, 0) / durations.length;
+}
+
+/**
+ * Replaces AST-based weights with historical durations (in seconds).
+ * Specs without history keep their AST-based weight, scaled by the average
+ * number of seconds per weight unit observed on specs that do have history.
+ * @param {FileInfo[]} filesInfo - Array of file information with AST-based weights.
+ * @param {TimingsData} timings - The timings data.
+ * @returns {FileInfo[]} - Array of file information with timing-based weights.
+ */
+export function applyTimingWeights(
+  filesInfo: FileInfo[],
+  timings: TimingsData
+): FileInfo[] {
+  let timedSeconds = 0;
+  let timedWeight = 0;
+  const durations = filesInfo.map((info) => {
+    const average = getAverageDuration(timings, info.file);
+    // History is kept for whole files; with GREP_TAGS only a share of the tests runs
+    const duration =
+      average !== undefined ? average * (info.share ?? 1) : undefined;
+    if (duration !== undefined) {
+      timedSeconds += duration / 1000;
+      timedWeight += info.weight;
+    }
+    return duration;
+  });
+
+  const timedCount = durations.filter((d) => d !== undefined).length;
+  if (timedCount === 0) {
+    log('No timing history for any spec, using test-count weights.', {
+      type: 'info',
+    });
+    return filesInfo;
+  }
+
+  log(
+    `Using timing history for ${timedCount}/${filesInfo.length} spec file(s).`,
+    { type: 'info' }
+  );
+
+  const secondsPerWeight = timedWeight > 0 ? timedSeconds / timedWeight : 1;
+  return filesInfo.map((info, idx) => {
+    const duration = durations[idx];
+    const seconds =
+      duration !== undefined ? duration / 1000 : info.weight * secondsPerWeight;
+    return { ...info, weight: Math.round(seconds * 100) / 100 };
+  });
+}
@@ -1,7 +1,7 @@
 // src/utils/__tests__/weightUtils.test.ts
 
 import fs from 'fs';
-import { getFileInfo } from './weightUtils';
+import { countActiveTests, findTests, getFileInfo } from './weightUtils';
 import { FileInfo } from './../types';
 
 // Mock the 'fs' module
@@ -340,5 +340,177 @@ describe('weightUtils', () => {
 
       expect(mockedFs.readFileSync).toHaveBeenCalledWith(filePath, 'utf8');
     });
+    it('should understand context, specify and the x variants', () => {
+      const filePath = '/tests/dsl.test.ts';
+      const fileContent = `
+        context('Suite A', () => {
+          specify('should run test 1', () => {});
+          xit('should not run test 2', () => {});
+          xspecify('should not run test 3', () => {});
+          specify.skip('should not run test 4', () => {});
+        });
+        xdescribe('Suite B', () => {
+          it('should not run test 5', () => {});
+        });
+        context.skip('Suite C', () => {
+          it('should not run test 6', () => {});
+        });
+        xcontext('Suite D', () => {
+          specify('should not run test 7', () => {});
+        });
+      `;
+
+      mockedFs.readFileSync.mockReturnValue(fileContent);
+
+      const result = getFileInfo(filePath, baseWeight, weightPerTest);
+
+      expect(result).toEqual({
+        file: filePath,
+        weight: baseWeight + weightPerTest * 1,
+      } as FileInfo);
+    });
+
+    it('should only count the focused tests when .only is used', () => {
+      const filePath = '/tests/only.test.ts';
+      const fileContent = `
+        describe('Suite A', () => {
+          it('should not run test 1', () => {});
+          it.only('should run test 2', () => {});
+        });
+        describe.only('Suite B', () => {
+          it('should run test 3', () => {});
+          it.skip('should not run test 4', () => {});
+        });
+        context('Suite C', () => {
+          specify('should not run test 5', () => {});
+        });
+      `;
+
+      mockedFs.readFileSync.mockReturnValue(fileContent);
+
+      const result = getFileInfo(filePath, baseWeight, weightPerTest);
+
+      expect(result).toEqual({
+        file: filePath,
+        weight: baseWeight + weightPerTest * 2,
+      } as FileInfo);
+    });
+
+    it('should estimate tests generated in loops over array literals', () => {
+      const filePath = '/tests/loops.test.ts';
+      const fileContent = `
+        const users = ['admin', 'editor', 'viewer'];
+
+        describe('Permissions', () => {
+          users.forEach((user) => {
+            it(\`should log in as \${user}\`, () => {});
+            ['read', 'write'].map((action) =>
+              it(\`should let \${user} \${action}\`, () => {})
+            );
+          });
+          for (const size of [320, 768]) {
+            it(\`should render at \${size}px\`, () => {});
+          }
+          getPages().forEach((page) => {
+            it(\`should open \${page}\`, () => {});
+          });
+        });
+      `;
+
+      mockedFs.readFileSync.mockReturnValue(fileContent);
+
+      const result = getFileInfo(filePath, baseWeight, weightPerTest);
+
+      // 3 users + 3 * 2 actions + 2 sizes + 1 for the unknown pages
+      expect(result).toEqual({
+        file: filePath,
+        weight: baseWeight + weightPerTest * 12,
+      } as FileInfo);
+    });
+    it('should only weigh the tests matching a tag expression', () => {
+      const filePath = '/tests/tags.test.ts';
+      const fileContent = `
+        describe('Checkout', { tags: '@smoke' }, () => {
+          it('should pay by card', () => {});
+          it('should pay by invoice', { tags: ['@slow'] }, () => {});
+        });
+        describe('Profile', () => {
+          it('should change the avatar', { tags: ['@smoke', '@ui'] }, () => {});
+          it('should delete the account', () => {});
+        });
+      `;
+
+      mockedFs.readFileSync.mockReturnValue(fileContent);
+
+      const result = getFileInfo(
+        filePath,
+        baseWeight,
+        weightPerTest,
+        '@smoke+-@slow'
+      );
+
+      expect(result).toEqual({
+        file: filePath,
+        weight: baseWeight + weightPerTest * 2,
+        tests: 2,
+        share: 0.5,
+      } as FileInfo);
+    });
+
+    it('should report no matching tests when no tag matches', () => {
+      mockedFs.readFileSync.mockReturnValue(`it('a', () => {});`);
+
+      expect(
+        getFileInfo(
+          '/tests/untagged.test.ts',
+          baseWeight,
+          weightPerTest,
+          '@smoke'
+        )
+      ).toEqual({
+        file: '/tests/untagged.test.ts',
+        weight: baseWeight,
+        tests: 0,
+        share: 0,
+      } as FileInfo);
+    });
+  });
+
+  describe('findTests', () => {
+    it('should inherit skip and only from the enclosing suites', () => {
+      const tests = findTests(
+        '/tests/nested.test.ts',
+        `
+        describe.only('Suite A', () => {
+          describe.skip('Suite B', () => {
+            it('test 1', () => {});
+          });
+          [1, 2].forEach((n) => it(\`test \${n}\`, { tags: '@b' }, () => {}));
+        });
+      `
+      );
+
+      expect(tests).toEqual([
+        {
+          count: 1,
+          skip: true,
+          only: true,
+          tags: [],
+          title: 'Suite A Suite B test 1',
+        },
+        { count: 2, skip: false, only: true, tags: ['@b'] },
+      ]);
+    });
+  });
+
+  describe('countActiveTests', () => {
+    it('should count nothing when every focused test is skipped', () => {
+      expect(
+        countActiveTests([
+          { count: 1, skip: false, only: false, tags: [] },
+          { count: 1, skip: true, only: true, tags: [] },
+        ])
+      ).toBe(0);
+    });
   });
 });
@@ -2,77 +2,292 @@
 import fs from 'fs';
 import ts from 'typescript';
 import { FileInfo } from '../types';
+import { matchesGrepTags, parseGrepTags } from './grepUtils';
 import { isCallTo } from './isCallTo';
 
+// Mocha/Cypress BDD functions, each also available as `x<name>`, `<name>.skip` and `<name>.only`
+const SUITE_FUNCTIONS = ['describe', 'context'];
+const TEST_FUNCTIONS = ['it', 'specify'];
+
+// Array methods whose callback runs once per element
+const LOOP_METHODS = ['forEach', 'map'];
+
+interface DslCall {
+  kind: 'suite' | 'test';
+  skip: boolean;
+  only: boolean;
+  tags: string[];
+  // Undefined when the title is not a string literal
+  title?: string;
+}
+
+// A test found in a spec file
+export interface SpecTest {
+  // How many tests the call generates, more than 1 inside loops over array literals
+  count: number;
+  // Skipped itself or inside a skipped suite
+  skip: boolean;
+  // Focused itself or inside a focused suite
+  only: boolean;
+  // @cypress/grep tags of the test and its suites
+  tags: string[];
+  // Full title as Mocha builds it (suite titles and the test title, space-separated);
+  // undefined when a title is not a string literal
+  title?: string;
+}
+
+/**
+ * Reads the @cypress/grep tags of a suite or test, given in its config object:
+ * `it('title', { tags: ['@smoke'] }, () => {})`. Only string literals are read.
+ * @param {ts.CallExpression} node - The suite or test call.
+ * @returns {string[]} - The tags.
+ */
+function getTags(node: ts.CallExpression): string[] {
+  const config = node.arguments[1];
+  if (!config || !ts.isObjectLiteralExpression(config)) {
+    return [];
+  }
+  const property = config.properties.find(
+    (p): p is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(p) && p.name.getText() === 'tags'
+  );
+  if (!property) {
+    return [];
+  }
+  const values = ts.isArrayLiteralExpression(property.initializer)
+    ? [...property.initializer.elements]
+    : [property.initializer];
+  return values
+    .filter((value): value is ts.StringLiteralLike =>
+      ts.isStringLiteralLike(value)
+    )
+    .map((value) => value.text);
+}
+
+/**
+ * Recognizes a suite or test call of the Mocha/Cypress BDD interface.
+ * @param {ts.Node} node - The node to check.
+ * @returns {DslCall | null} - The kind of call and its modifiers, or null for other nodes.
+ */
+function getDslCall(node: ts.Node): DslCall | null {
+  if (!ts.isCallExpression(node)) {
+    return null;
+  }
+  const tags = getTags(node);
+  const [titleArgument] = node.arguments;
+  const title =
+    titleArgument && ts.isStringLiteralLike(titleArgument)
+      ? titleArgument.text
+      : undefined;
+  const kinds: [DslCall['kind'], string[]][] = [
+    ['suite', SUITE_FUNCTIONS],
+    ['test', TEST_FUNCTIONS],
+  ];
+  for (const [kind, names] of kinds) {
+    for (const name of names) {
+      if (isCallTo(node, null, name)) {
+        return { kind, skip: false, only: false, tags, title };
+      }
+      if (isCallTo(node, null, `x${name}`) || isCallTo(node, name, 'skip')) {
+        return { kind, skip: true, only: false, tags, title };
+      }
+      if (isCallTo(node, name, 'only')) {
+        return { kind, skip: false, only: true, tags, title };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the length of every `const` initialized with an array literal, so that
+ * loops over them can be estimated. Scopes are ignored.
+ * @param {ts.SourceFile} sourceFile - The parsed spec file.
+ * @returns {Map<string, number>} - The array length by variable name.
+ */
+function getArrayLengths(sourceFile: ts.SourceFile): Map<string, number> {
+  const lengths = new Map<string, number>();
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclarationList(node) && node.flags & ts.NodeFlags.Const) {
+      node.declarations.forEach((declaration) => {
+        if (
+          ts.isIdentifier(declaration.name) &&
+          declaration.initializer &&
+          ts.isArrayLiteralExpression(declaration.initializer)
+        ) {
+          lengths.set(
+            declaration.name.text,
+            declaration.initializer.elements.length
+          );
+        }
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return lengths;
+}
+
+/**
+ * Estimates how many times the body of a loop runs: `[...].forEach(...)`,
+ * `[...].map(...)` and `for (... of [...])`, with the array given as a literal
+ * or as a `const` holding one.
+ * @param {ts.Node} node - The node to check.
+ * @param {Map<string, number>} arrayLengths - Lengths of the `const` arrays of the file.
+ * @returns {number | null} - The number of iterations, or null if the node is not such a loop.
+ */
+function getLoopIterations(
+  node: ts.Node,
+  arrayLengths: Map<string, number>
+): number | null {
+  let array: ts.Expression | undefined;
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    LOOP_METHODS.includes(node.expression.name.text)
+  ) {
+    array = node.expression.expression;
+  } else if (ts.isForOfStatement(node)) {
+    array = node.expression;
+  }
+
+  if (!array) {
+    return null;
+  }
+  if (ts.isArrayLiteralExpression(array)) {
+    return array.elements.length;
+  }
+  if (ts.isIdentifier(array)) {
+    return arrayLengths.get(array.text) ?? null;
+  }
+  return null;
+}
+
+/**
+ * Lists the tests of a spec file with the modifiers inherited from their suites.
+ * @param {string} filePath - The path of the spec file, used to pick the parser.
+ * @param {string} contents - The source of the spec file.
+ * @returns {SpecTest[]} - The tests, in source order.
+ */
+export function findTests(filePath: string, contents: string): SpecTest[] {
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    contents,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const arrayLengths = getArrayLengths(sourceFile);
+  const tests: SpecTest[] = [];
+
+  const visit = (node: ts.Node, inherited: SpecTest) => {
+    const call = getDslCall(node);
+    const current: SpecTest = call
+      ? {
+          count: inherited.count,
+          skip: inherited.skip || call.skip,
+          only: inherited.only || call.only,
+          tags: [...inherited.tags, ...call.tags],
+          title:
+            inherited.title === undefined || call.title === undefined
+              ? undefined
+              : [inherited.title, call.title].filter(Boolean).join(' '),
+        }
+      : inherited;
+
+    if (call?.kind === 'test') {
+      tests.push(current);
+    }
+
+    const iterations = getLoopIterations(node, arrayLengths);
+    const inside =
+      iterations === null
+        ? current
+        : { ...current, count: current.count * iterations };
+    ts.forEachChild(node, (child) => visit(child, inside));
+  };
+
+  ts.forEachChild(sourceFile, (child) =>
+    visit(child, {
+      count: 1,
+      skip: false,
+      only: false,
+      tags: [],
+      title: '',
+    })
+  );
+  return tests;
+}
+
+/**
+ * Counts the tests Mocha would run: skipped tests are left out, and when any
+ * suite or test is focused with `.only`, only the focused tests are counted.
+ * @param {SpecTest[]} tests - The tests of a spec file.
+ * @param {string} [grepTags] - A @cypress/grep tag expression the tests must also match.
+ * @returns {number} - The number of active tests.
+ */
+export function countActiveTests(tests: SpecTest[], grepTags = ''): number {
+  return getActiveTests(tests, grepTags).reduce(
+    (count, test) => count + test.count,
+    0
+  );
+}
+
+/**
+ * Lists the tests Mocha would run, see countActiveTests.
+ * @param {SpecTest[]} tests - The tests of a spec file.
+ * @param {string} [grepTags] - A @cypress/grep tag expression the tests must also match.
+ * @returns {SpecTest[]} - The active tests, in source order.
+ */
+export function getActiveTests(tests: SpecTest[], grepTags = ''): SpecTest[] {
+  const focused = tests.some((test) => test.only);
+  const expression = parseGrepTags(grepTags);
+  return tests.filter(
+    (test) =>
+      !test.skip &&
+      (!focused || test.only) &&
+      matchesGrepTags(expression, test.tags)
+  );
+}
+
 /**
- * Calculates the weight of a test file based on the number of active (non-skipped) 'it' blocks.
- * Accounts for skipped 'describe' blocks and nested structures.
+ * Calculates the weight of a test file based on the number of active (non-skipped) tests.
+ * Understands the Mocha/Cypress BDD interface (`describe`, `context`, `it`, `specify`,
+ * their `x`, `.skip` and `.only` variants) and tests generated in loops over array literals.
+ * With a tag expression, only the matching tests are weighed, and the number of
+ * matching tests and their share of the active tests are returned too.
  * @param {string} filePath - The path to the test file.
  * @param {number} baseWeight - The base weight to add.
  * @param {number} weightPerTest - The weight per active test.
+ * @param {string} [grepTags] - A @cypress/grep tag expression selecting the tests.
  * @returns {FileInfo | null} - An object containing the file path and its weight, or null if an error occurs.
  */
 export function getFileInfo(
   filePath: string,
   baseWeight: number,
-  weightPerTest: number
+  weightPerTest: number,
+  grepTags = ''
 ): FileInfo | null {
   try {
     const contents = fs.readFileSync(filePath, 'utf8');
-
-    let testCount = 0;
-    const skippedDescribeStack: boolean[] = [];
-
-    // Parse the file using TypeScript
-    const sourceFile = ts.createSourceFile(
-      filePath,
-      contents,
-      ts.ScriptTarget.Latest,
-      true
-    );
-
-    // Traverse the AST
-    const visit = (node: ts.Node) => {
-      let isEnteringDescribe = false;
-
-      if (ts.isCallExpression(node)) {
-        // Check for 'describe.skip' and 'describe'
-        if (isCallTo(node, 'describe', 'skip')) {
-          skippedDescribeStack.push(true); // Entering a skipped describe
-          isEnteringDescribe = true;
-        } else if (isCallTo(node, null, 'describe')) {
-          skippedDescribeStack.push(false); // Entering a regular describe
-          isEnteringDescribe = true;
-        }
-
-        // Check for 'it.skip' and 'it'
-        if (isCallTo(node, null, 'it.skip') || isCallTo(node, null, 'it')) {
-          const isSkippedIt = isCallTo(node, null, 'it.skip');
-          const isSkipped = skippedDescribeStack.includes(true) || isSkippedIt;
-          if (!isSkipped) {
-            testCount += 1; // Count active test cases
-          }
-        }
-      }
-
-      // Recursively visit children nodes
-      ts.forEachChild(node, visit);
-
-      // Pop from the stack when leaving a 'describe' block
-      if (isEnteringDescribe) {
-        skippedDescribeStack.pop();
-      }
-    };
-
-    ts.forEachChild(sourceFile, visit);
+    const tests = findTests(filePath, contents);
+    const testCount = countActiveTests(tests, grepTags);
 
     // Calculate the total weight, including the base weight if there are active tests
     const weight =
       testCount > 0 ? baseWeight + weightPerTest * testCount : baseWeight;
 
+    if (!grepTags) {
+      return {
+        file: filePath,
+        weight,
+      };
+    }
+    const activeCount = countActiveTests(tests);
     return {
       file: filePath,
       weight,
+      tests: testCount,
+      share: activeCount > 0 ? testCount / activeCount : 1,
     };
   } catch (error) {
     console.error(`Error processing file ${filePath}: ${error}`);
@@ -0,0 +1,219 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  allocatePorts,
+  createWorkerContexts,
+  expandTemplate,
+  getWorkerEnv,
+  isPortFree,
+  loadWorkerEnvFile,
+  parseEnvFile,
+  parseWorkerEnv,
+} from './workerEnvUtils';
+import { log } from './logging';
+
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+describe('workerEnvUtils', () => {
+  const context = { worker: 2, workers: 3, ports: [20010, 20011] };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('expandTemplate', () => {
+    it('should expand the worker and port placeholders', () => {
+      expect(
+        expandTemplate(
+          'http://localhost:{port}/api?db=test_{worker}_of_{workers}&ws={port+1}',
+          context
+        )
+      ).toBe('http://localhost:20010/api?db=test_2_of_3&ws=20011');
+    });
+
+    it('should leave other braces alone', () => {
+      expect(expandTemplate('{a,b} {worker+1} {}', context)).toBe(
+        '{a,b} {worker+1} {}'
+      );
+    });
+
+    it('should throw when the worker has too few ports', () => {
+      expect(() => expandTemplate('{port+2}', context)).toThrow(
+        '{port+2} needs at least 3 port(s) per worker: set WORKER_PORTS.'
+      );
+      expect(() => expandTemplate('{port}', { ...context, ports: [] })).toThrow(
+        '{port} needs at least 1 port(s) per worker'
+      );
+    });
+  });
+
+  describe('parseWorkerEnv', () => {
+    it('should parse a JSON object of strings', () => {
+      expect(parseWorkerEnv('')).toEqual({});
+      expect(parseWorkerEnv('{"BASE_URL":"http://localhost:{port}"}')).toEqual({
+        BASE_URL: 'http://localhost:{port}',
+      });
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => parseWorkerEnv('{')).toThrow('Invalid WORKER_ENV: ');
+      expect(() => parseWorkerEnv('["a"]')).toThrow(
+        'Invalid WORKER_ENV: expected a JSON object of string values.'
+      );
+      expect(() => parseWorkerEnv('{"PORT":3000}')).toThrow(
+        'Invalid WORKER_ENV: expected a JSON object of string values.'
+      );
+    });
+  });
+
+  describe('parseEnvFile', () => {
+    it('should parse dotenv syntax', () => {
+      expect(
+        parseEnvFile(
+          [
+            '# Test user of worker 1',
+            'USER=test-1',
+            'export PASSWORD="s3cret #1"',
+            "GREETING='hello\\nworld'",
+            'MULTILINE="a\\nb"',
+            'EMPTY=',
+            'URL=http://localhost:{port} # the app',
+            '',
+            'not a variable',
+          ].join('\r\n')
+        )
+      ).toEqual({
+        USER: 'test-1',
+        PASSWORD: 's3cret #1',
+        GREETING: 'hello\\nworld',
+        MULTILINE: 'a\nb',
+        EMPTY: '',
+        URL: 'http://localhost:{port}',
+      });
+    });
+  });
+
+  describe('loadWorkerEnvFile', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-env-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should read the worker's file", () => {
+      fs.writeFileSync(path.join(tmpDir, '.env.worker-2'), 'USER=test-2\n');
+
+      expect(loadWorkerEnvFile(2, tmpDir)).toEqual({ USER: 'test-2' });
+      expect(loadWorkerEnvFile(1, tmpDir)).toEqual({});
+    });
+  });
+
+  describe('getWorkerEnv', () => {
+    it('should set the worker variables and expand the templates', () => {
+      expect(
+        getWorkerEnv(
+          context,
+          { BASE_URL: 'http://localhost:{port}', CY_PARALLEL_PORT: '1' },
+          false
+        )
+      ).toEqual({
+        BASE_URL: 'http://localhost:20010',
+        CY_PARALLEL_WORKER_INDEX: '2',
+        CY_PARALLEL_WORKER_COUNT: '3',
+        CY_PARALLEL_PORT: '20010',
+        CY_PARALLEL_PORTS: '20010,20011',
+      });
+    });
+
+    it('should not set port variables without ports', () => {
+      expect(getWorkerEnv({ ...context, ports: [] }, {}, false)).toEqual({
+        CY_PARALLEL_WORKER_INDEX: '2',
+        CY_PARALLEL_WORKER_COUNT: '3',
+      });
+    });
+
+    it('should let WORKER_ENV override the env file', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cy-parallel-env-'));
+      const cwd = jest.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+      try {
+        fs.writeFileSync(
+          path.join(tmpDir, '.env.worker-2'),
+          'USER=test-{worker}\nDB=db-file\n'
+        );
+
+        expect(getWorkerEnv(context, { DB: 'db-{worker}' }, true)).toEqual(
+          expect.objectContaining({ USER: 'test-2', DB: 'db-2' })
+        );
+      } finally {
+        cwd.mockRestore();
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('port allocation', () => {
+    let server: net.Server;
+    let busyPort: number;
+
+    beforeEach(async () => {
+      server = net.createServer();
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      busyPort = (server.address() as net.AddressInfo).port;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should detect a port in use', async () => {
+      await expect(isPortFree(busyPort)).resolves.toBe(false);
+    });
+
+    it('should allocate disjoint ranges of consecutive free ports', async () => {
+      const ports = await allocatePorts(2, 2, busyPort - 1);
+
+      expect(ports).toHaveLength(2);
+      ports.forEach((range) => {
+        expect(range).toHaveLength(2);
+        expect(range[1]).toBe(range[0] + 1);
+        expect(range).not.toContain(busyPort);
+      });
+      expect(ports[1][0]).toBeGreaterThan(ports[0][1]);
+    });
+
+    it('should throw when the ports run out', async () => {
+      await expect(allocatePorts(1, 2, 65535)).rejects.toThrow(
+        'Could not allocate 2 free port(s) for each of 1 worker(s) from port 65535.'
+      );
+    });
+
+    it('should log the ports of each worker', async () => {
+      const contexts = await createWorkerContexts(2, 1, busyPort + 1);
+
+      expect(contexts.map(({ worker, workers }) => [worker, workers])).toEqual([
+        [1, 2],
+        [2, 2],
+      ]);
+      expect(log).toHaveBeenCalledWith(
+        `Worker 1 uses port ${contexts[0].ports[0]}.`,
+        { type: 'info', workerId: 1 }
+      );
+    });
+
+    it('should allocate no ports by default', async () => {
+      expect(await createWorkerContexts(2, 0, 20000)).toEqual([
+        { worker: 1, workers: 2, ports: [] },
+        { worker: 2, workers: 2, ports: [] },
+      ]);
+      expect(log).not.toHaveBeenCalled();
+    });
+  });
+});
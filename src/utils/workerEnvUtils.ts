@@ -0,0 +1,238 @@
+// src/utils/workerEnvUtils.ts
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { log } from './logging';
+
+// Values a worker's templates are expanded with
+export interface WorkerContext {
+  // 1-based, like the Worker #N in the logs
+  worker: number;
+  workers: number;
+  // The worker's ports, empty when WORKER_PORTS is 0
+  ports: number[];
+}
+
+const PLACEHOLDER = /\{(worker|workers|port)(?:\+(\d+))?\}/g;
+
+const MAX_PORT = 65535;
+
+/**
+ * Expands the placeholders of a template: `{worker}` (1-based worker number),
+ * `{workers}` (number of workers), `{port}` (the worker's first port) and
+ * `{port+N}` (its N-th next port).
+ * @param {string} template - e.g. `http://localhost:{port}`.
+ * @param {WorkerContext} context - The worker.
+ * @returns {string} - The expanded value.
+ */
+export function expandTemplate(
+  template: string,
+  context: WorkerContext
+): string {
+  return template.replace(
+    PLACEHOLDER,
+    (placeholder, name: string, offset?: string) => {
+      if (name === 'port') {
+        const port = context.ports[Number(offset ?? 0)];
+        if (port === undefined) {
+          throw new Error(
+            `${placeholder} needs at least ${Number(offset ?? 0) + 1} port(s) per worker: set WORKER_PORTS.`
+          );
+        }
+        return `${port}`;
+      }
+      if (offset !== undefined) {
+        return placeholder;
+      }
+      return `${name === 'worker' ? context.worker : context.workers}`;
+    }
+  );
+}
+
+/**
+ * Parses the WORKER_ENV setting.
+ * @param {string} value - A JSON object of variable templates, or an empty string.
+ * @returns {Record<string, string>} - The templates by variable name.
+ */
+export function parseWorkerEnv(value: string): Record<string, string> {
+  if (!value) {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid WORKER_ENV: ${error}`);
+  }
+  if (
+    typeof parsed !== 'object' ||
+    parsed === null ||
+    Array.isArray(parsed) ||
+    Object.values(parsed).some((template) => typeof template !== 'string')
+  ) {
+    throw new Error(
+      'Invalid WORKER_ENV: expected a JSON object of string values.'
+    );
+  }
+  return parsed as Record<string, string>;
+}
+
+/**
+ * Parses a dotenv file: `KEY=value` lines, optionally prefixed with `export`,
+ * with single- or double-quoted values and `#` comments.
+ * @param {string} contents - The file contents.
+ * @returns {Record<string, string>} - The variables.
+ */
+export function parseEnvFile(contents: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  contents.split(/\r?\n/).forEach((line) => {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) {
+      return;
+    }
+    const [, key, raw] = match;
+    const quoted = /^(['"])(.*)\1$/.exec(raw);
+    if (quoted) {
+      variables[key] =
+        quoted[1] === '"' ? quoted[2].replace(/\\n/g, '\n') : quoted[2];
+    } else {
+      variables[key] = raw.replace(/\s+#.*$/, '');
+    }
+  });
+  return variables;
+}
+
+/**
+ * Reads the `.env.worker-<n>` file of a worker.
+ * @param {number} worker - The 1-based worker number.
+ * @param {string} [dir] - The directory of the file.
+ * @returns {Record<string, string>} - Its variables, or none without a file.
+ */
+export function loadWorkerEnvFile(
+  worker: number,
+  dir: string = process.cwd()
+): Record<string, string> {
+  const envFile = path.join(dir, `.env.worker-${worker}`);
+  if (!fs.existsSync(envFile)) {
+    return {};
+  }
+  return parseEnvFile(fs.readFileSync(envFile, 'utf8'));
+}
+
+/**
+ * Checks whether a TCP port can be listened on.
+ * @param {number} port - The port.
+ * @returns {Promise<boolean>} - True if the port is free.
+ */
+export function isPortFree(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.listen(port, () => server.close(() => resolve(true)));
+  });
+}
+
+/**
+ * Allocates a range of consecutive free TCP ports to each worker, searching
+ * upwards from a start port. The ports are only checked, not held, so the
+ * processes of a worker must bind them themselves.
+ * @param {number} workers - The number of workers.
+ * @param {number} count - The number of ports per worker.
+ * @param {number} start - The first port to try.
+ * @returns {Promise<number[][]>} - The ports of each worker.
+ */
+export async function allocatePorts(
+  workers: number,
+  count: number,
+  start: number
+): Promise<number[][]> {
+  const allocated: number[][] = [];
+  let port = start;
+  while (allocated.length < workers) {
+    const range: number[] = [];
+    while (range.length < count) {
+      if (port > MAX_PORT) {
+        throw new Error(
+          `Could not allocate ${count} free port(s) for each of ${workers} worker(s) from port ${start}.`
+        );
+      }
+      if (await isPortFree(port)) {
+        range.push(port);
+      } else {
+        // Ranges are consecutive, so start over after the busy port
+        range.length = 0;
+      }
+      port += 1;
+    }
+    allocated.push(range);
+  }
+  return allocated;
+}
+
+/**
+ * Builds the variables cy-parallel sets for a worker: the contents of its
+ * `.env.worker-<n>` file when enabled, then WORKER_ENV, both expanded, then
+ * CY_PARALLEL_WORKER_INDEX, CY_PARALLEL_WORKER_COUNT and, with ports,
+ * CY_PARALLEL_PORT and CY_PARALLEL_PORTS.
+ * @param {WorkerContext} context - The worker.
+ * @param {Record<string, string>} templates - The parsed WORKER_ENV.
+ * @param {boolean} envFiles - Whether to load `.env.worker-<n>` files.
+ * @returns {NodeJS.ProcessEnv} - The variables for the worker's Cypress processes.
+ */
+export function getWorkerEnv(
+  context: WorkerContext,
+  templates: Record<string, string>,
+  envFiles: boolean
+): NodeJS.ProcessEnv {
+  const variables = {
+    ...(envFiles ? loadWorkerEnvFile(context.worker) : {}),
+    ...templates,
+  };
+  const env: NodeJS.ProcessEnv = Object.fromEntries(
+    Object.entries(variables).map(([key, template]) => [
+      key,
+      expandTemplate(template, context),
+    ])
+  );
+  return {
+    ...env,
+    CY_PARALLEL_WORKER_INDEX: `${context.worker}`,
+    CY_PARALLEL_WORKER_COUNT: `${context.workers}`,
+    ...(context.ports.length > 0
+      ? {
+          CY_PARALLEL_PORT: `${context.ports[0]}`,
+          CY_PARALLEL_PORTS: context.ports.join(','),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Builds the context of every worker, allocating their ports when needed.
+ * @param {number} workers - The number of workers.
+ * @param {number} portsPerWorker - WORKER_PORTS.
+ * @param {number} portStart - WORKER_PORT_START.
+ * @returns {Promise<WorkerContext[]>} - The context of each worker, by worker index.
+ */
+export async function createWorkerContexts(
+  workers: number,
+  portsPerWorker: number,
+  portStart: number
+): Promise<WorkerContext[]> {
+  const ports =
+    portsPerWorker > 0
+      ? await allocatePorts(workers, portsPerWorker, portStart)
+      : [];
+  return Array.from({ length: workers }, (_, index) => {
+    const context = { worker: index + 1, workers, ports: ports[index] ?? [] };
+    const [first] = context.ports;
+    const last = context.ports[context.ports.length - 1];
+    if (context.ports.length > 0) {
+      log(
+        `Worker ${context.worker} uses ${first === last ? `port ${first}` : `ports ${first}-${last}`}.`,
+        { type: 'info', workerId: context.worker }
+      );
+    }
+    return context;
+  });
+}
@@ -0,0 +1,156 @@
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import { spawn, ChildProcess } from 'child_process';
+import {
+  findFreeDisplay,
+  isDisplayInUse,
+  startXvfb,
+  startXvfbServers,
+  stopXvfb,
+} from './xvfb';
+
+jest.mock('fs');
+jest.mock('child_process', () => ({
+  spawn: jest.fn(),
+}));
+jest.mock('./logging', () => ({
+  log: jest.fn(),
+}));
+
+describe('xvfb', () => {
+  const mockedFs = fs as jest.Mocked<typeof fs>;
+  const mockSpawn = spawn as jest.Mock;
+  // Files of the running X servers, e.g. /tmp/.X99-lock and /tmp/.X11-unix/X99
+  let existingFiles: Set<string>;
+
+  const createXvfbProcess = (): ChildProcess => {
+    const emitter = new EventEmitter() as ChildProcess;
+    Object.defineProperty(emitter, 'exitCode', { value: null, writable: true });
+    Object.defineProperty(emitter, 'signalCode', {
+      value: null,
+      writable: true,
+    });
+    emitter.unref = jest.fn();
+    emitter.kill = jest.fn(() => {
+      process.nextTick(() => emitter.emit('exit', null, 'SIGTERM'));
+      return true;
+    });
+    return emitter;
+  };
+
+  // Spawns an Xvfb that creates its socket, or exits when the display is taken
+  const startServerOnSpawn = () =>
+    mockSpawn.mockImplementation((_command: string, [arg]: string[]) => {
+      const display = Number(arg.slice(1));
+      const xvfbProcess = createXvfbProcess();
+      setTimeout(() => {
+        if (isDisplayInUse(display)) {
+          xvfbProcess.emit('exit', 1);
+        } else {
+          existingFiles.add(`/tmp/.X11-unix/X${display}`);
+        }
+      }, 10);
+      return xvfbProcess;
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    existingFiles = new Set();
+    mockedFs.existsSync.mockImplementation((file: fs.PathLike) =>
+      existingFiles.has(file.toString())
+    );
+  });
+
+  describe('findFreeDisplay', () => {
+    it('should skip displays in use or reserved, and reserve the result', () => {
+      existingFiles.add('/tmp/.X99-lock');
+      existingFiles.add('/tmp/.X11-unix/X101');
+      const reserved = new Set([100]);
+
+      expect(findFreeDisplay(99, reserved)).toBe(102);
+      expect(reserved.has(102)).toBe(true);
+    });
+  });
+
+  describe('startXvfb', () => {
+    it('should resolve once the display socket exists', async () => {
+      startServerOnSpawn();
+
+      const xvfbProcess = await startXvfb(99);
+
+      expect(mockSpawn).toHaveBeenCalledWith('Xvfb', [':99'], {
+        stdio: 'ignore',
+        detached: true,
+      });
+      expect(xvfbProcess.unref).toHaveBeenCalled();
+      expect(existingFiles.has('/tmp/.X11-unix/X99')).toBe(true);
+    });
+
+    it('should reject when Xvfb cannot be spawned', async () => {
+      const xvfbProcess = createXvfbProcess();
+      mockSpawn.mockReturnValue(xvfbProcess);
+      process.nextTick(() =>
+        xvfbProcess.emit('error', new Error('spawn Xvfb ENOENT'))
+      );
+
+      await expect(startXvfb(99)).rejects.toThrow(
+        'Failed to start Xvfb on display :99, error: Error: spawn Xvfb ENOENT'
+      );
+    });
+
+    it('should reject when Xvfb exits before accepting connections', async () => {
+      const xvfbProcess = createXvfbProcess();
+      mockSpawn.mockReturnValue(xvfbProcess);
+      process.nextTick(() => xvfbProcess.emit('exit', 1));
+
+      await expect(startXvfb(99)).rejects.toThrow(
+        'Xvfb on display :99 exited with code 1 before accepting connections.'
+      );
+    });
+  });
+
+  describe('startXvfbServers', () => {
+    it('should start one server per worker on free displays', async () => {
+      startServerOnSpawn();
+      existingFiles.add('/tmp/.X100-lock');
+
+      const servers = await startXvfbServers(2, 99);
+
+      expect(servers.map((server) => server.display)).toEqual([99, 101]);
+      expect(mockSpawn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should try the next display when one is taken while starting', async () => {
+      startServerOnSpawn();
+      // Another X server claims :99 between the check and the start
+      mockedFs.existsSync.mockImplementationOnce(() => false);
+      mockedFs.existsSync.mockImplementationOnce(() => false);
+      existingFiles.add('/tmp/.X99-lock');
+
+      const servers = await startXvfbServers(1, 99);
+
+      expect(servers.map((server) => server.display)).toEqual([100]);
+    });
+
+    it('should stop the started servers when one fails', async () => {
+      const first = createXvfbProcess();
+      const second = createXvfbProcess();
+      mockSpawn.mockReturnValueOnce(first).mockReturnValueOnce(second);
+      setTimeout(() => existingFiles.add('/tmp/.X11-unix/X99'), 10);
+      setTimeout(() => second.emit('error', new Error('boom')), 100);
+
+      await expect(startXvfbServers(2, 99)).rejects.toThrow('boom');
+      expect(first.kill).toHaveBeenCalledWith('SIGTERM');
+    });
+  });
+
+  describe('stopXvfb', () => {
+    it('should send SIGTERM and wait for the process to exit', async () => {
+      const xvfbProcess = createXvfbProcess();
+
+      await stopXvfb(xvfbProcess);
+
+      expect(xvfbProcess.kill).toHaveBeenCalledWith('SIGTERM');
+    });
+  });
+});
@@ -1,33 +1,203 @@
 // src/utils/xvfb.ts
+import fs from 'fs';
 import { spawn, ChildProcess } from 'child_process';
+import { log } from './logging';
+import { trackChildProcess } from './processUtils';
+
+export interface XvfbServer {
+  display: number;
+  process: ChildProcess;
+}
+
+// How long Xvfb gets to accept connections, and how often that is checked
+const READY_TIMEOUT = 10000;
+const READY_POLL_INTERVAL = 50;
+// How many display numbers are tried when a display is taken while starting
+const MAX_START_ATTEMPTS = 10;
+// Time Xvfb gets to exit after SIGTERM before it is killed
+const STOP_TIMEOUT = 2000;
+
+const lockFile = (display: number) => `/tmp/.X${display}-lock`;
+const socketFile = (display: number) => `/tmp/.X11-unix/X${display}`;
+
+/**
+ * Checks whether an X server already uses the display, by its lock file or socket.
+ * @param {number} display - The display number.
+ * @returns {boolean} - True if the display is taken.
+ */
+export function isDisplayInUse(display: number): boolean {
+  return fs.existsSync(lockFile(display)) || fs.existsSync(socketFile(display));
+}
 
 /**
- * Starts an Xvfb instance on the specified display.
+ * Finds the first display number, starting from `start`, that is neither in use
+ * nor reserved. The returned display is added to the reserved set.
+ * @param {number} start - The first display number to try.
+ * @param {Set<number>} reserved - Displays already claimed by this run.
+ * @returns {number} - A free display number.
+ */
+export function findFreeDisplay(start: number, reserved: Set<number>): number {
+  let display = start;
+  while (reserved.has(display) || isDisplayInUse(display)) {
+    display += 1;
+  }
+  reserved.add(display);
+  return display;
+}
+
+/**
+ * Starts an Xvfb instance on the specified display and waits until it accepts
+ * connections, i.e. until its socket exists.
  * @param {number} display - The display number to use (e.g., 99 for :99).
  * @returns {Promise<ChildProcess>} - The spawned Xvfb process.
  */
 export async function startXvfb(display: number): Promise<ChildProcess> {
-  const xvfbProcess: ChildProcess = spawn('Xvfb', [`:${display}`], {
-    stdio: 'ignore', // Ignore stdio since we don't need to interact with Xvfb
-    detached: true, // Run Xvfb in its own process group
-  });
+  const xvfbProcess: ChildProcess = trackChildProcess(
+    spawn('Xvfb', [`:${display}`], {
+      stdio: 'ignore', // Ignore stdio since we don't need to interact with Xvfb
+      detached: true, // Run Xvfb in its own process group
+    })
+  );
 
   xvfbProcess.unref(); // Allow the parent process to exit independently of the Xvfb process
 
-  // Give Xvfb some time to start
   await new Promise<void>((resolve, reject) => {
-    setTimeout(() => {
-      try {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      xvfbProcess.removeListener('error', onError);
+      xvfbProcess.removeListener('exit', onExit);
+      if (error) {
+        reject(error);
+      } else {
         resolve();
-      } catch (err) {
-        reject(
+      }
+    };
+    const onError = (err: Error) =>
+      finish(
+        new Error(`Failed to start Xvfb on display :${display}, error: ${err}`)
+      );
+    const onExit = (code: number | null) =>
+      finish(
+        new Error(
+          `Xvfb on display :${display} exited with code ${code} before accepting connections.`
+        )
+      );
+    const poll = () => {
+      if (fs.existsSync(socketFile(display))) {
+        finish();
+      } else if (Date.now() - startedAt >= READY_TIMEOUT) {
+        xvfbProcess.kill('SIGKILL');
+        finish(
           new Error(
-            `Failed to start Xvfb on display :${display}, error: ${err}`
+            `Xvfb on display :${display} did not accept connections within ${READY_TIMEOUT / 1000}s.`
           )
         );
+      } else {
+        timer = setTimeout(poll, READY_POLL_INTERVAL);
       }
-    }, 1000); // Wait 1 second
+    };
+
+    xvfbProcess.on('error', onError);
+    xvfbProcess.on('exit', onExit);
+    poll();
   });
 
   return xvfbProcess;
 }
+
+/**
+ * Stops an Xvfb instance, killing it if it does not exit in time.
+ * @param {ChildProcess} xvfbProcess - The Xvfb process.
+ * @returns {Promise<void>} - Resolves once the process has exited.
+ */
+export async function stopXvfb(xvfbProcess: ChildProcess): Promise<void> {
+  if (xvfbProcess.exitCode !== null || xvfbProcess.signalCode !== null) {
+    return;
+  }
+
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(() => {
+      xvfbProcess.kill('SIGKILL');
+      resolve();
+    }, STOP_TIMEOUT);
+    xvfbProcess.once('exit', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    xvfbProcess.kill('SIGTERM');
+  });
+}
+
+/**
+ * Stops several Xvfb servers.
+ * @param {XvfbServer[]} servers - The servers to stop.
+ * @returns {Promise<void>}
+ */
+export async function stopXvfbServers(servers: XvfbServer[]): Promise<void> {
+  await Promise.all(servers.map((server) => stopXvfb(server.process)));
+  if (servers.length > 0) {
+    log(
+      `Stopped Xvfb on display(s) ${servers.map((server) => `:${server.display}`).join(', ')}.`,
+      { type: 'info' }
+    );
+  }
+}
+
+/**
+ * Starts one Xvfb server per worker on free displays, starting from baseDisplay.
+ * A display taken by another X server is skipped; if any server fails to start,
+ * the ones already started are stopped and the error is rethrown.
+ * @param {number} count - The number of workers.
+ * @param {number} baseDisplay - The first display number to try.
+ * @returns {Promise<XvfbServer[]>} - One server per worker, in worker order.
+ */
+export async function startXvfbServers(
+  count: number,
+  baseDisplay: number
+): Promise<XvfbServer[]> {
+  const servers: XvfbServer[] = [];
+  const reserved = new Set<number>();
+
+  try {
+    for (let workerIndex = 0; workerIndex < count; workerIndex++) {
+      let display = findFreeDisplay(baseDisplay, reserved);
+      let xvfbProcess: ChildProcess | undefined;
+
+      for (let attempt = 1; !xvfbProcess; attempt++) {
+        try {
+          xvfbProcess = await startXvfb(display);
+        } catch (error) {
+          // Another X server may have claimed the display in the meantime
+          if (attempt >= MAX_START_ATTEMPTS || !isDisplayInUse(display)) {
+            throw error;
+          }
+          log(`Display :${display} was taken, trying the next one.`, {
+            type: 'warn',
+            workerId: workerIndex + 1,
+          });
+          display = findFreeDisplay(display + 1, reserved);
+        }
+      }
+
+      if (display !== baseDisplay + workerIndex) {
+        log(
+          `Display :${baseDisplay + workerIndex} is in use, using :${display} instead.`,
+          { type: 'warn', workerId: workerIndex + 1 }
+        );
+      }
+      log(`Xvfb is ready on display :${display}.`, {
+        type: 'info',
+        workerId: workerIndex + 1,
+      });
+      servers.push({ display, process: xvfbProcess });
+    }
+  } catch (error) {
+    await stopXvfbServers(servers);
+    throw error;
+  }
+
+  return servers;
+}